@@ -0,0 +1,123 @@
+/**
+ * End-to-end tests: per-account storage locks shared by syncs, backfills and
+ * timeline merges
+ * Run with: npm run test:e2e
+ *
+ * Uses local storage (no BLOB_READ_WRITE_TOKEN) under its own account, which
+ * is removed again afterwards
+ */
+
+import assert from 'node:assert/strict';
+import { rm } from 'node:fs/promises';
+import * as path from 'node:path';
+import { after, beforeEach, describe, test } from 'node:test';
+import { AccountBusyError, removeExpiredLock, withAccountLock } from '../src/lib/account-lock';
+import type { AccountLock } from '../src/lib/account-lock';
+import { createLock, getLock } from '../src/lib/blob-storage';
+import type { AccountLease } from '../src/lib/types';
+
+const TEST_TIMEOUT_MS = 30000;
+const ACCOUNT_ID = 'lock-test';
+const HOLD_MS = 200;
+
+const NO_WAIT: AccountLock = { name: 'test', ttlMs: 60 * 1000, waitMs: 0 };
+const WAIT: AccountLock = { ...NO_WAIT, waitMs: 10 * 1000 };
+
+/**
+ * Leaves behind the lock of a run that was killed an hour ago
+ * @returns The expired lease
+ */
+async function leaveExpiredLock(): Promise<AccountLease> {
+  const acquiredAt = new Date(Date.now() - 60 * 60 * 1000);
+  const lease: AccountLease = {
+    owner: 'killed-run',
+    operation: 'sync',
+    acquiredAt: acquiredAt.toISOString(),
+    expiresAt: new Date(acquiredAt.getTime() + NO_WAIT.ttlMs).toISOString(),
+  };
+
+  assert.equal(await createLock(NO_WAIT.name, lease, ACCOUNT_ID), true);
+  return lease;
+}
+
+describe('Account locks in local storage', () => {
+  const accountDir = path.join(process.cwd(), 'local-storage', 'accounts', ACCOUNT_ID);
+
+  // Holders currently inside the lock, to catch two running at once
+  let active = 0;
+  let overlapped = false;
+
+  const hold = (lock: AccountLock) => withAccountLock(ACCOUNT_ID, lock, 'sync', async () => {
+    overlapped ||= active > 0;
+    active++;
+    await new Promise(resolve => setTimeout(resolve, HOLD_MS));
+    active--;
+  });
+
+  beforeEach(async () => {
+    await rm(accountDir, { recursive: true, force: true });
+    active = 0;
+    overlapped = false;
+  });
+
+  after(async () => {
+    await rm(accountDir, { recursive: true, force: true });
+  });
+
+  test('turns away a caller while the lock is held', { timeout: TEST_TIMEOUT_MS }, async () => {
+    const results = await Promise.allSettled([hold(NO_WAIT), hold(NO_WAIT)]);
+
+    assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+    const [rejected] = results.filter(result => result.status === 'rejected');
+    assert.ok(rejected.reason instanceof AccountBusyError);
+    assert.equal(await getLock(NO_WAIT.name, ACCOUNT_ID), null, 'the lock is released');
+  });
+
+  test('lets only one of several callers take over the same expired lock', { timeout: TEST_TIMEOUT_MS }, async () => {
+    await leaveExpiredLock();
+
+    const results = await Promise.allSettled(Array.from({ length: 8 }, () => hold(NO_WAIT)));
+
+    assert.equal(overlapped, false);
+    assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+    const [rejected] = results.filter(result => result.status === 'rejected');
+    assert.ok(rejected.reason instanceof AccountBusyError);
+    assert.equal(await getLock(NO_WAIT.name, ACCOUNT_ID), null, 'the lock is released');
+  });
+
+  test('keeps a taken-over lock from a caller that found it expired too', { timeout: TEST_TIMEOUT_MS }, async () => {
+    const expired = await leaveExpiredLock();
+
+    await withAccountLock(ACCOUNT_ID, NO_WAIT, 'sync', async () => {
+      const held = await getLock(NO_WAIT.name, ACCOUNT_ID);
+      assert.ok(held);
+      assert.notEqual(held.owner, expired.owner);
+
+      // A second caller read the expired lease before this one took it over,
+      // and only now gets to remove it
+      const now = new Date();
+      const late: AccountLease = {
+        owner: 'late-caller',
+        operation: 'backfill',
+        acquiredAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + NO_WAIT.ttlMs).toISOString(),
+      };
+      await removeExpiredLock(NO_WAIT.name, expired, late, ACCOUNT_ID);
+
+      assert.equal((await getLock(NO_WAIT.name, ACCOUNT_ID))?.owner, held.owner, 'the new lock is kept');
+      await assert.rejects(withAccountLock(ACCOUNT_ID, NO_WAIT, 'backfill', async () => {}), AccountBusyError);
+    });
+
+    assert.equal(await getLock(NO_WAIT.name, ACCOUNT_ID), null, 'the lock is released');
+  });
+
+  test('runs waiting callers one at a time after taking over an expired lock', { timeout: TEST_TIMEOUT_MS }, async () => {
+    await leaveExpiredLock();
+
+    const results = await Promise.allSettled([hold(WAIT), hold(WAIT), hold(WAIT)]);
+
+    assert.equal(overlapped, false);
+    assert.deepEqual(results.map(result => result.status), ['fulfilled', 'fulfilled', 'fulfilled']);
+    assert.equal(await getLock(WAIT.name, ACCOUNT_ID), null, 'the lock is released');
+  });
+});
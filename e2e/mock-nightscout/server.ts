@@ -0,0 +1,96 @@
+/**
+ * Local stand-in for a Nightscout site, for end-to-end uploader tests
+ * Accepts the REST API (v1) uploads the uploader makes, checks the API secret
+ * the way Nightscout does (as its SHA-1 hash) and keeps what was posted
+ */
+
+import { createHash } from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface MockNightscoutOptions {
+  apiSecret?: string;
+  failFirstRequests?: number; // Answer this many requests with 503 first (default: 0)
+}
+
+export interface MockNightscout {
+  url: string;
+  apiSecret: string;
+  documents: Record<string, Record<string, unknown>[]>; // Posted documents by API path
+  stats: { requests: number; failedRequests: number; unauthorized: number };
+  close: () => Promise<void>;
+}
+
+const DEFAULT_API_SECRET = 'nightscout-api-secret';
+
+/**
+ * Reads a JSON request body
+ */
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+function sendJson(res: http.ServerResponse, body: unknown, status = 200): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Starts the mock Nightscout site on a free local port
+ */
+export async function startMockNightscout(options: MockNightscoutOptions = {}): Promise<MockNightscout> {
+  const { apiSecret = DEFAULT_API_SECRET } = options;
+  let failuresLeft = options.failFirstRequests ?? 0;
+
+  const hashedSecret = createHash('sha1').update(apiSecret).digest('hex');
+  const documents: MockNightscout['documents'] = {};
+  const stats = { requests: 0, failedRequests: 0, unauthorized: 0 };
+
+  const server = http.createServer(async (req, res) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    stats.requests++;
+
+    if (req.method !== 'POST' || !['/api/v1/entries', '/api/v1/treatments', '/api/v1/devicestatus'].includes(path)) {
+      return sendJson(res, { status: 404, message: 'Not found' }, 404);
+    }
+
+    if (req.headers['api-secret'] !== hashedSecret) {
+      stats.unauthorized++;
+      return sendJson(res, { status: 401, message: 'Unauthorized' }, 401);
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      stats.failedRequests++;
+      return sendJson(res, { status: 503, message: 'Service unavailable' }, 503);
+    }
+
+    const body = await readJson(req);
+    const posted = (Array.isArray(body) ? body : [body]) as Record<string, unknown>[];
+    (documents[path] ??= []).push(...posted);
+
+    return sendJson(res, posted);
+  });
+
+  const url = await new Promise<string>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+  });
+
+  return {
+    url,
+    apiSecret,
+    documents,
+    stats,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
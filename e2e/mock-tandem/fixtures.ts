@@ -0,0 +1,240 @@
+/**
+ * Deterministic pump/CGM data served by the mock Tandem Source site
+ * The same records back both the CSV export and the timeline JSON API
+ */
+
+import type { DateRange } from '../../src/lib/types';
+
+export const MOCK_PUMP_SERIAL = '90000001';
+export const MOCK_CGM_SERIAL = 'SN-CGM-0001';
+
+export interface MockCgmReading {
+  recordId: number;
+  time: string; // YYYY-MM-DDTHH:mm:ss, pump local time
+  value: number; // mg/dL
+}
+
+export interface MockBolus {
+  recordId: number;
+  time: string;
+  insulin: number; // units
+  carbs: number; // grams
+  bg: number; // mg/dL
+  description: string;
+}
+
+export interface MockBasal {
+  recordId: number;
+  time: string;
+  rate: number; // U/hr
+  durationMinutes: number;
+}
+
+export interface MockControlIqEvent {
+  recordId: number;
+  time: string;
+  eventType: string;
+  activityMode: string;
+  durationMinutes: number;
+}
+
+export interface MockAlarm {
+  recordId: number;
+  time: string;
+  alarmType: string;
+  description: string;
+}
+
+export interface MockDeviceEvent {
+  recordId: number;
+  time: string;
+  eventType: string;
+  description: string;
+}
+
+export interface MockRecords {
+  cgm: MockCgmReading[];
+  bolus: MockBolus[];
+  basal: MockBasal[];
+  controlIq: MockControlIqEvent[];
+  alarms: MockAlarm[];
+  deviceEvents: MockDeviceEvent[];
+}
+
+const MEALS = [
+  { time: '08:00:00', carbs: 45, insulin: 4.5, description: 'Breakfast' },
+  { time: '12:30:00', carbs: 60, insulin: 6, description: 'Lunch' },
+  { time: '18:45:00', carbs: 75, insulin: 7.5, description: 'Dinner' },
+];
+
+// Control-IQ correction after the glucose peak at 06:00
+const AUTOMATIC_BOLUS = { time: '06:30:00', insulin: 0.6, bg: 180, description: 'Automatic Bolus' };
+
+const ACTIVITIES = [
+  { time: '17:00:00', eventType: 'Exercise Started', activityMode: 'Exercise', durationMinutes: 60 },
+  { time: '23:00:00', eventType: 'Sleep Started', activityMode: 'Sleep', durationMinutes: 420 },
+];
+
+// Cartridge changes happen every few days
+const CARTRIDGE_CHANGE_EVERY_DAYS = 3;
+
+/**
+ * Lists the YYYY-MM-DD days in a range, inclusive
+ */
+function daysIn(range: DateRange): string[] {
+  const days: string[] = [];
+  const current = new Date(`${range.startDate}T00:00:00Z`);
+  const end = new Date(`${range.endDate}T00:00:00Z`);
+
+  while (current <= end) {
+    days.push(current.toISOString().slice(0, 10));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return days;
+}
+
+/**
+ * Stable record id for a timestamp, so overlapping ranges share ids
+ */
+function recordIdFor(time: string, offset: number): number {
+  return Math.floor(Date.parse(`${time}Z`) / 1000 / 60) * 10 + offset;
+}
+
+/**
+ * Generates the records for a date range
+ * Glucose follows a smooth daily curve, so the values are easy to reason about
+ */
+export function generateMockRecords(range: DateRange): MockRecords {
+  const records: MockRecords = { cgm: [], bolus: [], basal: [], controlIq: [], alarms: [], deviceEvents: [] };
+
+  for (const day of daysIn(range)) {
+    for (let minute = 0; minute < 24 * 60; minute += 5) {
+      const time = `${day}T${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}:00`;
+      const value = Math.round(130 + 50 * Math.sin((minute / (24 * 60)) * 2 * Math.PI));
+      records.cgm.push({ recordId: recordIdFor(time, 1), time, value });
+    }
+
+    for (const meal of MEALS) {
+      const time = `${day}T${meal.time}`;
+      records.bolus.push({
+        recordId: recordIdFor(time, 2),
+        time,
+        insulin: meal.insulin,
+        carbs: meal.carbs,
+        bg: 120,
+        description: meal.description,
+      });
+    }
+
+    const correctionTime = `${day}T${AUTOMATIC_BOLUS.time}`;
+    records.bolus.push({
+      recordId: recordIdFor(correctionTime, 2),
+      time: correctionTime,
+      insulin: AUTOMATIC_BOLUS.insulin,
+      carbs: 0,
+      bg: AUTOMATIC_BOLUS.bg,
+      description: AUTOMATIC_BOLUS.description,
+    });
+    records.bolus.sort((a, b) => a.time.localeCompare(b.time));
+
+    for (let hour = 0; hour < 24; hour++) {
+      const time = `${day}T${String(hour).padStart(2, '0')}:00:00`;
+      records.basal.push({
+        recordId: recordIdFor(time, 3),
+        time,
+        rate: hour < 6 ? 0.8 : 1,
+        durationMinutes: 60,
+      });
+    }
+
+    for (const activity of ACTIVITIES) {
+      const time = `${day}T${activity.time}`;
+      records.controlIq.push({
+        recordId: recordIdFor(time, 4),
+        time,
+        eventType: activity.eventType,
+        activityMode: activity.activityMode,
+        durationMinutes: activity.durationMinutes,
+      });
+    }
+
+    // Glucose bottoms out at 80 mg/dL at 18:00
+    const lowTime = `${day}T18:00:00`;
+    records.alarms.push({
+      recordId: recordIdFor(lowTime, 5),
+      time: lowTime,
+      alarmType: 'CGM Low Alert',
+      description: 'Glucose at or below 80 mg/dL',
+    });
+
+    const dayNumber = Date.parse(`${day}T00:00:00Z`) / (24 * 60 * 60 * 1000);
+    if (dayNumber % CARTRIDGE_CHANGE_EVERY_DAYS === 0) {
+      for (const [time, eventType, description] of [
+        [`${day}T09:00:00`, 'Cartridge Filled', '200 units'],
+        [`${day}T09:05:00`, 'Cannula Filled', '0.3 units'],
+      ]) {
+        records.deviceEvents.push({ recordId: recordIdFor(time, 6), time, eventType, description });
+      }
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Formats YYYY-MM-DD as MM/DD/YYYY, as shown in the export header
+ */
+function formatUsDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * Renders the CSV export for a date range
+ * Layout: a few title lines, then sections separated by blank lines, each a
+ * section title line followed by a header row and data rows
+ */
+export function generateMockCsv(range: DateRange, exportedAt: Date = new Date()): string {
+  const records = generateMockRecords(range);
+
+  const lines = [
+    'Tandem Source Report',
+    `Report Range,${formatUsDate(range.startDate)},${formatUsDate(range.endDate)}`,
+    `Pump Serial Number,${MOCK_PUMP_SERIAL}`,
+    `Exported,${exportedAt.toISOString()}`,
+    '',
+    'CGM Readings',
+    'DeviceType,SerialNumber,EventDateTime,Readings (mg/dL),RecordId',
+    ...records.cgm.map(r => `Dexcom G6,${MOCK_CGM_SERIAL},${r.time},${r.value},${r.recordId}`),
+    '',
+    'Bolus',
+    'SerialNumber,CompletionDateTime,InsulinDelivered (U),CarbSize (g),BG (mg/dL),Description,RecordId',
+    ...records.bolus.map(r =>
+      `${MOCK_PUMP_SERIAL},${r.time},${r.insulin.toFixed(2)},${r.carbs},${r.bg},${r.description},${r.recordId}`
+    ),
+    '',
+    'Basal',
+    'SerialNumber,EventDateTime,BasalRate (U/hr),Duration (min),RecordId',
+    ...records.basal.map(r =>
+      `${MOCK_PUMP_SERIAL},${r.time},${r.rate.toFixed(3)},${r.durationMinutes},${r.recordId}`
+    ),
+    '',
+    'Control-IQ Events',
+    'SerialNumber,EventDateTime,EventType,ActivityMode,Duration (min),RecordId',
+    ...records.controlIq.map(r =>
+      `${MOCK_PUMP_SERIAL},${r.time},${r.eventType},${r.activityMode},${r.durationMinutes},${r.recordId}`
+    ),
+    '',
+    'Alarms',
+    'SerialNumber,EventDateTime,AlarmType,Description,RecordId',
+    ...records.alarms.map(r => `${MOCK_PUMP_SERIAL},${r.time},${r.alarmType},${r.description},${r.recordId}`),
+    '',
+    'Device Events',
+    'SerialNumber,EventDateTime,EventType,Description,PreviousTime,NewTime,RecordId',
+    ...records.deviceEvents.map(r => `${MOCK_PUMP_SERIAL},${r.time},${r.eventType},${r.description},,,${r.recordId}`),
+    '',
+  ];
+
+  return lines.join('\r\n');
+}
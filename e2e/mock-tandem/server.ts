@@ -0,0 +1,460 @@
+/**
+ * Local stand-in for Tandem Source and its SSO, for end-to-end scraper tests
+ * Reproduces the cookie modal, the MUI-style country/language selector,
+ * the two-step SSO login form and the timeline export dialog
+ *
+ * Source and SSO listen on separate ports, so they are separate origins
+ * just like the real sites
+ */
+
+import { randomBytes } from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { DateRange } from '../../src/lib/types';
+import { generateMockCsv, generateMockRecords } from './fixtures';
+
+export interface MockTandemOptions {
+  username?: string;
+  password?: string;
+  countrySelector?: boolean; // Show the country/language page (default: true)
+  exportButton?: boolean; // Show the "Export CSV" button (default: true)
+  downloadDelayMs?: number; // Spread the CSV download over this long (default: 0)
+}
+
+export interface MockTandem {
+  sourceUrl: string;
+  ssoUrl: string;
+  username: string;
+  password: string;
+  stats: { logins: number; failedLogins: number; exports: number };
+  close: () => Promise<void>;
+}
+
+const DEFAULT_USERNAME = 'patient@example.com';
+const DEFAULT_PASSWORD = 'correct-horse-battery-staple';
+
+const SOURCE_SESSION_COOKIE = 'source_session';
+const COOKIE_CONSENT_COOKIE = 'cookies_accepted';
+
+/**
+ * Reads a cookie from a request
+ */
+function getCookie(req: http.IncomingMessage, name: string): string | undefined {
+  const cookies = (req.headers.cookie || '').split(';').map(part => part.trim().split('='));
+  return cookies.find(([key]) => key === name)?.[1];
+}
+
+/**
+ * Reads an application/x-www-form-urlencoded request body
+ */
+async function readForm(req: http.IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf-8'));
+}
+
+function sendHtml(res: http.ServerResponse, html: string, status = 200): void {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(html);
+}
+
+function sendJson(res: http.ServerResponse, data: unknown, status = 200): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+function redirect(res: http.ServerResponse, location: string, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(302, { Location: location, ...headers });
+  res.end();
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function page(title: string, body: string, script = ''): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${title}</title></head>
+<body>
+${body}
+<script>${script}</script>
+</body>
+</html>`;
+}
+
+/**
+ * Client-side helpers for MUI-like select menus, shared by the Source pages
+ * A menu is a role="button" element; clicking it renders role="option" items
+ * into a listbox, and picking one closes the listbox again
+ */
+const SELECT_SCRIPT = `
+function openMenu(trigger, options, onSelect) {
+  closeMenus();
+  const list = document.createElement('ul');
+  list.setAttribute('role', 'listbox');
+  for (const label of options) {
+    const item = document.createElement('li');
+    item.setAttribute('role', 'option');
+    item.textContent = label;
+    item.addEventListener('click', () => { closeMenus(); onSelect(label); });
+    list.appendChild(item);
+  }
+  trigger.after(list);
+}
+function closeMenus() {
+  document.querySelectorAll('[role="listbox"]').forEach(list => list.remove());
+}
+`;
+
+/**
+ * Landing page with the cookie modal and the country/language selector
+ */
+function renderCountrySelector(showCookieModal: boolean, ssoLoginUrl: string): string {
+  const cookieModal = showCookieModal
+    ? `<div id="cookie-modal" role="dialog">
+        <p>We use cookies to improve your experience.</p>
+        <button id="accept-cookies">Accept All Cookies</button>
+      </div>`
+    : '';
+
+  return page('Tandem Source', `
+    ${cookieModal}
+    <main>
+      <div class="MuiTypography-h5">Select your country and language</div>
+      <div id="country" role="button" tabindex="0">Country</div>
+      <div id="preferredLanguage" role="button" tabindex="0" aria-disabled="true">Language</div>
+      <button id="continue">Continue</button>
+      <div id="selection-error"></div>
+    </main>
+  `, `
+    ${SELECT_SCRIPT}
+    const state = { country: null, language: null };
+    const acceptButton = document.getElementById('accept-cookies');
+    if (acceptButton) {
+      acceptButton.addEventListener('click', () => {
+        document.cookie = '${COOKIE_CONSENT_COOKIE}=1; path=/';
+        document.getElementById('cookie-modal').remove();
+      });
+    }
+    document.getElementById('country').addEventListener('click', event => {
+      openMenu(event.currentTarget, ['Canada', 'Deutschland', 'United Kingdom', 'United States'], country => {
+        state.country = country;
+        document.getElementById('country').textContent = country;
+        document.getElementById('preferredLanguage').removeAttribute('aria-disabled');
+      });
+    });
+    document.getElementById('preferredLanguage').addEventListener('click', event => {
+      if (!state.country) return;
+      openMenu(event.currentTarget, ['Deutsch', 'English', 'Français'], language => {
+        state.language = language;
+        document.getElementById('preferredLanguage').textContent = language;
+      });
+    });
+    document.getElementById('continue').addEventListener('click', () => {
+      if (!state.country || !state.language) {
+        document.getElementById('selection-error').textContent = 'Please select a country and language';
+        return;
+      }
+      window.location.href = ${JSON.stringify(ssoLoginUrl)};
+    });
+  `);
+}
+
+/**
+ * SSO login page - email first, then password after clicking Next
+ */
+function renderLogin(redirectUri: string, error?: string): string {
+  return page('Account Login', `
+    <main>
+      <div class="MuiTypography-h4">Account Login</div>
+      ${error ? `<div role="alert">${escapeHtml(error)}</div>` : ''}
+      <form id="login-form" method="POST" action="/login">
+        <input type="hidden" name="redirect_uri" value="${escapeHtml(redirectUri)}">
+        <div id="email-step">
+          <input type="email" name="username" autocomplete="username">
+          <button type="button" id="next">Next</button>
+        </div>
+        <div id="password-step" style="display: none">
+          <input type="password" name="password" autocomplete="current-password">
+          <button type="submit">Sign in</button>
+        </div>
+      </form>
+    </main>
+  `, `
+    document.getElementById('next').addEventListener('click', () => {
+      // The real SSO looks the account up before asking for the password
+      setTimeout(() => {
+        document.getElementById('email-step').style.display = 'none';
+        document.getElementById('password-step').style.display = 'block';
+      }, 300);
+    });
+  `);
+}
+
+/**
+ * Daily Timeline page with the date range picker and export dialog
+ */
+function renderTimeline(exportButton: boolean): string {
+  return page('Daily Timeline - Tandem Source', `
+    <main>
+      <label id="date-range-label">Date Range</label>
+      <div id="date-range" role="button" tabindex="0" aria-labelledby="date-range-label">Last 2 Weeks</div>
+      <div id="custom-range" style="display: none">
+        <input name="startDate" aria-label="Start date" placeholder="MM/DD/YYYY">
+        <input name="endDate" aria-label="End date" placeholder="MM/DD/YYYY">
+        <button id="apply">Apply</button>
+      </div>
+      <div id="range-error" role="alert"></div>
+      <p id="summary">Loading...</p>
+      ${exportButton ? '<button id="export">Export CSV</button>' : ''}
+    </main>
+  `, `
+    ${SELECT_SCRIPT}
+    const startInput = document.querySelector('input[name="startDate"]');
+    const endInput = document.querySelector('input[name="endDate"]');
+
+    function toIso(date) {
+      return date.toISOString().slice(0, 10);
+    }
+    function toPicker(iso) {
+      const [year, month, day] = iso.split('-');
+      return month + '/' + day + '/' + year;
+    }
+    function fromPicker(value) {
+      const match = /^(\\d{2})\\/(\\d{2})\\/(\\d{4})$/.exec(value.trim());
+      return match ? match[3] + '-' + match[1] + '-' + match[2] : null;
+    }
+    function presetRange(days) {
+      const end = new Date();
+      const start = new Date(end.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+      return { startDate: toIso(start), endDate: toIso(end) };
+    }
+
+    let range = presetRange(14);
+
+    async function loadTimeline() {
+      const query = 'startDate=' + range.startDate + '&endDate=' + range.endDate;
+      const response = await fetch('/api/timeline?' + query);
+      const data = await response.json();
+      document.getElementById('summary').textContent =
+        data.cgm.length + ' CGM readings, ' + data.bolus.length + ' boluses';
+    }
+
+    document.getElementById('date-range').addEventListener('click', event => {
+      openMenu(event.currentTarget, ['1 Week', '2 Weeks', 'Custom'], option => {
+        if (option === 'Custom') {
+          startInput.value = toPicker(range.startDate);
+          endInput.value = toPicker(range.endDate);
+          document.getElementById('custom-range').style.display = 'block';
+          return;
+        }
+        range = presetRange(option === '1 Week' ? 7 : 14);
+        document.getElementById('date-range').textContent = 'Last ' + option;
+        loadTimeline();
+      });
+    });
+
+    document.getElementById('apply').addEventListener('click', () => {
+      const startDate = fromPicker(startInput.value);
+      const endDate = fromPicker(endInput.value);
+      if (!startDate || !endDate || startDate > endDate) {
+        document.getElementById('range-error').textContent = 'Enter a valid date range';
+        return;
+      }
+      document.getElementById('range-error').textContent = '';
+      range = { startDate, endDate };
+      document.getElementById('date-range').textContent = startInput.value + ' - ' + endInput.value;
+      loadTimeline();
+    });
+
+    const exportButton = document.getElementById('export');
+    if (exportButton) {
+      exportButton.addEventListener('click', () => {
+        const dialog = document.createElement('div');
+        dialog.setAttribute('role', 'dialog');
+        dialog.innerHTML = '<p>Export the selected range as CSV?</p><button>Cancel</button><button>Export</button>';
+        dialog.querySelectorAll('button')[0].addEventListener('click', () => dialog.remove());
+        dialog.querySelectorAll('button')[1].addEventListener('click', () => {
+          dialog.remove();
+          window.location.href = '/api/export?startDate=' + range.startDate + '&endDate=' + range.endDate;
+        });
+        document.body.appendChild(dialog);
+      });
+    }
+
+    loadTimeline();
+  `);
+}
+
+/**
+ * Reads and validates the startDate/endDate query parameters
+ */
+function readRange(url: URL): DateRange | null {
+  const startDate = url.searchParams.get('startDate') || '';
+  const endDate = url.searchParams.get('endDate') || '';
+  const valid = /^\d{4}-\d{2}-\d{2}$/;
+  return valid.test(startDate) && valid.test(endDate) && startDate <= endDate
+    ? { startDate, endDate }
+    : null;
+}
+
+/**
+ * Sends the CSV export, optionally trickled out in chunks
+ */
+async function sendExport(res: http.ServerResponse, range: DateRange, delayMs: number): Promise<void> {
+  const csv = Buffer.from(generateMockCsv(range), 'utf-8');
+  const stamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/csv',
+    'Content-Disposition': `attachment; filename="CSV_${stamp}.csv"`,
+    'Content-Length': csv.length,
+  });
+
+  if (delayMs <= 0) {
+    res.end(csv);
+    return;
+  }
+
+  const chunks = 10;
+  const chunkSize = Math.ceil(csv.length / chunks);
+  for (let i = 0; i < chunks; i++) {
+    res.write(csv.subarray(i * chunkSize, (i + 1) * chunkSize));
+    await new Promise(resolve => setTimeout(resolve, delayMs / chunks));
+  }
+  res.end();
+}
+
+/**
+ * Starts the mock Source and SSO servers on free local ports
+ */
+export async function startMockTandem(options: MockTandemOptions = {}): Promise<MockTandem> {
+  const {
+    username = DEFAULT_USERNAME,
+    password = DEFAULT_PASSWORD,
+    countrySelector = true,
+    exportButton = true,
+    downloadDelayMs = 0,
+  } = options;
+
+  const sessions = new Set<string>();
+  const authCodes = new Set<string>();
+  const stats = { logins: 0, failedLogins: 0, exports: 0 };
+
+  // Both URLs are only known once the servers are listening
+  const urls = { source: '', sso: '' };
+
+  const ssoLoginUrl = () =>
+    `${urls.sso}/login?redirect_uri=${encodeURIComponent(`${urls.source}/auth/callback`)}`;
+
+  const isLoggedIn = (req: http.IncomingMessage) => {
+    const token = getCookie(req, SOURCE_SESSION_COOKIE);
+    return !!token && sessions.has(token);
+  };
+
+  const source = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', urls.source);
+
+    switch (url.pathname) {
+      case '/':
+        if (isLoggedIn(req)) return redirect(res, '/reports/timeline');
+        if (!countrySelector) return redirect(res, ssoLoginUrl());
+        return sendHtml(res, renderCountrySelector(!getCookie(req, COOKIE_CONSENT_COOKIE), ssoLoginUrl()));
+
+      case '/auth/callback': {
+        const code = url.searchParams.get('code') || '';
+        if (!authCodes.delete(code)) {
+          return sendHtml(res, page('Error', '<div role="alert">Invalid authorization code</div>'), 400);
+        }
+        const token = randomBytes(16).toString('hex');
+        sessions.add(token);
+        return redirect(res, '/reports/timeline', {
+          'Set-Cookie': `${SOURCE_SESSION_COOKIE}=${token}; Path=/; HttpOnly`,
+        });
+      }
+
+      case '/reports/timeline':
+        if (!isLoggedIn(req)) return redirect(res, '/');
+        return sendHtml(res, renderTimeline(exportButton));
+
+      case '/api/timeline': {
+        if (!isLoggedIn(req)) return sendJson(res, { error: 'Unauthorized' }, 401);
+        const range = readRange(url);
+        if (!range) return sendJson(res, { error: 'Invalid range' }, 400);
+        return sendJson(res, { ...range, ...generateMockRecords(range) });
+      }
+
+      case '/api/export': {
+        if (!isLoggedIn(req)) return sendJson(res, { error: 'Unauthorized' }, 401);
+        const range = readRange(url);
+        if (!range) return sendJson(res, { error: 'Invalid range' }, 400);
+        stats.exports++;
+        return sendExport(res, range, downloadDelayMs);
+      }
+
+      default:
+        res.writeHead(404);
+        res.end();
+    }
+  });
+
+  const sso = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', urls.sso);
+
+    if (url.pathname !== '/login') {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      return sendHtml(res, renderLogin(url.searchParams.get('redirect_uri') || ''));
+    }
+
+    const form = await readForm(req);
+    const redirectUri = form.get('redirect_uri') || '';
+
+    if (!redirectUri.startsWith(`${urls.source}/`)) {
+      return sendHtml(res, renderLogin(redirectUri, 'Invalid redirect URI'), 400);
+    }
+
+    if (form.get('username') !== username || form.get('password') !== password) {
+      stats.failedLogins++;
+      return sendHtml(res, renderLogin(redirectUri, 'Incorrect email or password'), 401);
+    }
+
+    stats.logins++;
+    const code = randomBytes(16).toString('hex');
+    authCodes.add(code);
+    return redirect(res, `${redirectUri}?code=${code}`);
+  });
+
+  const listen = (server: http.Server) => new Promise<string>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+  });
+
+  urls.source = await listen(source);
+  urls.sso = await listen(sso);
+
+  const closeServer = (server: http.Server) => new Promise<void>(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  });
+
+  return {
+    sourceUrl: urls.source,
+    ssoUrl: urls.sso,
+    username,
+    password,
+    stats,
+    close: async () => {
+      await Promise.all([closeServer(source), closeServer(sso)]);
+    },
+  };
+}
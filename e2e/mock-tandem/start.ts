@@ -0,0 +1,31 @@
+/**
+ * Runs the mock Tandem Source site on its own, for manual testing
+ * Run with: npm run mock:tandem
+ *
+ * Then point the scraper at it, e.g.:
+ *   TANDEM_SOURCE_URL=<source url> TANDEM_SSO_URL=<sso url> npx tsx test-scraper.ts
+ */
+
+import { startMockTandem } from './server';
+
+async function main() {
+  const mock = await startMockTandem({
+    countrySelector: process.env.MOCK_COUNTRY_SELECTOR !== 'false',
+    exportButton: process.env.MOCK_EXPORT_BUTTON !== 'false',
+    downloadDelayMs: parseInt(process.env.MOCK_DOWNLOAD_DELAY_MS || '0', 10),
+  });
+
+  console.log('=== Mock Tandem Source ===\n');
+  console.log(`  TANDEM_SOURCE_URL=${mock.sourceUrl}`);
+  console.log(`  TANDEM_SSO_URL=${mock.ssoUrl}`);
+  console.log(`  TANDEM_USERNAME=${mock.username}`);
+  console.log(`  TANDEM_PASSWORD=${mock.password}`);
+  console.log('\nPress Ctrl+C to stop');
+
+  process.on('SIGINT', async () => {
+    await mock.close();
+    process.exit(0);
+  });
+}
+
+main();
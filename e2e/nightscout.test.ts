@@ -0,0 +1,125 @@
+/**
+ * End-to-end tests: uploads a synced timeline to the mock Nightscout site
+ * Run with: npm run test:e2e
+ *
+ * Uses local storage (no BLOB_READ_WRITE_TOKEN) under its own account, which
+ * is removed again afterwards
+ */
+
+import assert from 'node:assert/strict';
+import { rm } from 'node:fs/promises';
+import * as path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { parseTandemCsv } from '../src/lib/csv-parser';
+import { uploadToNightscout } from '../src/lib/nightscout';
+import { normalizeReportTimes } from '../src/lib/pump-time';
+import { DEFAULT_REGION } from '../src/lib/region';
+import { mergeIntoTimeline } from '../src/lib/timeline';
+import type { TandemAccount } from '../src/lib/types';
+import { generateMockCsv } from './mock-tandem/fixtures';
+import { startMockNightscout } from './mock-nightscout/server';
+
+const TEST_TIMEOUT_MS = 60000;
+const ACCOUNT_ID = 'nightscout-test';
+const RANGE = { startDate: '2024-01-10', endDate: '2024-01-12' };
+const DAYS = 3;
+const CGM_READINGS_PER_DAY = 288;
+const TREATMENTS_PER_DAY = 4 + 24; // Boluses and hourly basal rates
+
+/**
+ * An account uploading to a Nightscout site
+ */
+function accountFor(url: string, apiSecret: string): TandemAccount {
+  return {
+    id: ACCOUNT_ID,
+    name: 'Nightscout Test',
+    username: 'patient@example.com',
+    password: 'unused',
+    reportDays: DAYS,
+    syncIntervalHours: 24,
+    timeZone: 'America/New_York',
+    region: DEFAULT_REGION,
+    nightscout: { url, apiSecret },
+  };
+}
+
+/**
+ * Stores a mock export in the account's timeline, as a sync does
+ */
+async function syncMockReport(): Promise<void> {
+  const report = await normalizeReportTimes(parseTandemCsv(generateMockCsv(RANGE)), 'America/New_York', ACCOUNT_ID);
+  await mergeIntoTimeline(report, { coverage: RANGE, downloadedAt: new Date().toISOString() }, ACCOUNT_ID);
+}
+
+describe('Nightscout uploader against the mock Nightscout site', () => {
+  const accountDir = path.join(process.cwd(), 'local-storage', 'accounts', ACCOUNT_ID);
+
+  before(async () => {
+    await rm(accountDir, { recursive: true, force: true });
+    await syncMockReport();
+  });
+
+  after(async () => {
+    await rm(accountDir, { recursive: true, force: true });
+  });
+
+  test('rejects a wrong API secret without advancing', { timeout: TEST_TIMEOUT_MS }, async () => {
+    const mock = await startMockNightscout();
+
+    try {
+      const result = await uploadToNightscout(accountFor(mock.url, 'wrong-secret'));
+
+      assert.ok(result);
+      assert.equal(result.success, false);
+      assert.match(result.error || '', /401/);
+      assert.equal(result.retries, 0, 'an authentication failure is not retried');
+      assert.equal(mock.stats.unauthorized, 1);
+    } finally {
+      await mock.close();
+    }
+  });
+
+  test('uploads entries, treatments and device status once, retrying failures', { timeout: TEST_TIMEOUT_MS }, async () => {
+    const mock = await startMockNightscout({ failFirstRequests: 1 });
+
+    try {
+      const account = accountFor(mock.url, mock.apiSecret);
+      const result = await uploadToNightscout(account);
+
+      assert.ok(result);
+      assert.equal(result.success, true, result.error);
+      assert.equal(result.entries, CGM_READINGS_PER_DAY * DAYS);
+      assert.equal(result.treatments, TREATMENTS_PER_DAY * DAYS);
+      assert.equal(result.deviceStatus, 1);
+      assert.equal(result.retries, 1);
+      assert.equal(result.hasMore, false);
+
+      // The failed request was sent again, so nothing is missing or doubled
+      const entries = mock.documents['/api/v1/entries'];
+      const treatments = mock.documents['/api/v1/treatments'];
+      assert.equal(entries.length, CGM_READINGS_PER_DAY * DAYS);
+      assert.equal(treatments.length, TREATMENTS_PER_DAY * DAYS);
+      assert.equal(mock.documents['/api/v1/devicestatus'].length, 1);
+
+      // Pump-local times are sent as UTC (New York is UTC-5 in January)
+      const first = entries.find(entry => entry.dateString === '2024-01-10T05:00:00.000Z');
+      assert.ok(first, 'the first reading of the range is at midnight New York time');
+      assert.equal(first.type, 'sgv');
+
+      const breakfast = treatments.find(treatment => treatment.created_at === '2024-01-10T13:00:00.000Z');
+      assert.equal(breakfast?.eventType, 'Meal Bolus');
+      assert.equal(breakfast?.carbs, 45);
+      assert.equal(breakfast?.insulin, 4.5);
+      assert.equal(treatments.filter(treatment => treatment.eventType === 'Temp Basal').length, 24 * DAYS);
+
+      // A sync without new data uploads nothing
+      const again = await uploadToNightscout(account);
+      assert.ok(again);
+      assert.equal(again.success, true, again.error);
+      assert.equal(again.entries + again.treatments + again.deviceStatus, 0);
+      assert.equal(entries.length, CGM_READINGS_PER_DAY * DAYS);
+    } finally {
+      await mock.close();
+    }
+  });
+});
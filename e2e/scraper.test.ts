@@ -0,0 +1,249 @@
+/**
+ * End-to-end tests: drives the real scraper against the mock Tandem Source site
+ * Run with: npm run test:e2e (needs the Chromium bundled with puppeteer)
+ *
+ * Every test shares one Chromium through the remote browser backend, each
+ * run in its own browser context
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import puppeteer from 'puppeteer';
+import type { Browser } from 'puppeteer';
+import { parseTandemCsv } from '../src/lib/csv-parser';
+import { CURRENT_CSV_SCHEMA_VERSION, detectCsvSchema } from '../src/lib/csv-schema';
+import { ScraperError } from '../src/lib/errors';
+import { resolveRegion } from '../src/lib/region';
+import { checkTandemSource, scrapeTandemSource } from '../src/lib/tandem-scraper';
+import type { ScraperOptions } from '../src/lib/types';
+import { generateMockCsv } from './mock-tandem/fixtures';
+import { startMockTandem } from './mock-tandem/server';
+import type { MockTandem, MockTandemOptions } from './mock-tandem/server';
+
+const TEST_TIMEOUT_MS = 120000;
+const RANGE = { startDate: '2024-01-10', endDate: '2024-01-12' };
+const CGM_READINGS_PER_DAY = 288;
+
+let sharedBrowser: Browser;
+
+before(async () => {
+  sharedBrowser = await puppeteer.launch({ headless: true, args: ['--no-sandbox'] });
+});
+
+after(async () => {
+  await sharedBrowser.close();
+});
+
+/**
+ * Scraper options pointing at a mock site
+ */
+function optionsFor(mock: MockTandem, overrides: Partial<ScraperOptions> = {}): ScraperOptions {
+  return {
+    username: mock.username,
+    password: mock.password,
+    reportDays: 3,
+    ...RANGE,
+    timeout: 60000,
+    region: resolveRegion({ sourceBaseUrl: mock.sourceUrl, ssoBaseUrl: mock.ssoUrl }),
+    browser: { backend: 'remote', endpoint: sharedBrowser.wsEndpoint() },
+    ...overrides,
+  };
+}
+
+/**
+ * Runs a test body against a fresh mock site
+ */
+async function withMock(options: MockTandemOptions, run: (mock: MockTandem) => Promise<void>): Promise<void> {
+  const mock = await startMockTandem(options);
+  try {
+    await run(mock);
+  } finally {
+    await mock.close();
+  }
+}
+
+/**
+ * Counts the data rows in one section of an exported CSV
+ */
+function countSectionRows(csv: string, section: string): number {
+  const lines = csv.split(/\r?\n/);
+  const start = lines.indexOf(section);
+  if (start === -1) return 0;
+
+  const end = lines.indexOf('', start);
+  return (end === -1 ? lines.length : end) - start - 2; // Minus title and header rows
+}
+
+describe('scraper against the mock Tandem Source', () => {
+  let mock: MockTandem;
+  let savedSession: ScraperOptions['session'];
+
+  before(async () => {
+    mock = await startMockTandem();
+  });
+
+  after(async () => {
+    await mock.close();
+  });
+
+  test('logs in through the country selector and downloads the requested range', { timeout: TEST_TIMEOUT_MS }, async () => {
+    const result = await scrapeTandemSource(optionsFor(mock));
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.sessionRestored, false);
+    assert.deepEqual(
+      { startDate: result.metadata?.startDate, endDate: result.metadata?.endDate },
+      RANGE
+    );
+
+    const csv = result.csvBuffer!.toString('utf-8');
+    assert.match(csv, /^Report Range,01\/10\/2024,01\/12\/2024$/m);
+    assert.equal(countSectionRows(csv, 'CGM Readings'), 3 * CGM_READINGS_PER_DAY);
+
+    const parsed = parseTandemCsv(result.csvBuffer!);
+    assert.deepEqual(parsed.reportRange, RANGE);
+    assert.equal(parsed.cgm.length, 3 * CGM_READINGS_PER_DAY);
+    assert.equal(parsed.boluses.filter(bolus => bolus.automatic).length, 3);
+    assert.deepEqual(parsed.unknownSections, []);
+    assert.equal(detectCsvSchema(result.csvBuffer!), CURRENT_CSV_SCHEMA_VERSION);
+
+    assert.equal(mock.stats.logins, 1);
+    assert.equal(mock.stats.exports, 1);
+
+    assert.ok(result.session, 'expected the browser session to be captured');
+    savedSession = result.session;
+  });
+
+  test('reuses a saved session without logging in again', { timeout: TEST_TIMEOUT_MS }, async () => {
+    assert.ok(savedSession, 'depends on the previous test');
+
+    const result = await scrapeTandemSource(optionsFor(mock, { session: savedSession }));
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.sessionRestored, true);
+    assert.equal(mock.stats.logins, 1);
+    assert.equal(mock.stats.exports, 2);
+  });
+
+  test('captures the timeline JSON in json mode', { timeout: TEST_TIMEOUT_MS }, async () => {
+    const result = await scrapeTandemSource(optionsFor(mock, { mode: 'json' }));
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.csvBuffer, undefined);
+
+    const timeline = result.jsonData?.responses.find(response =>
+      response.url.includes('/api/timeline?startDate=2024-01-10&endDate=2024-01-12')
+    );
+    assert.ok(timeline, 'expected the timeline response for the selected range');
+    assert.equal((timeline.body as { cgm: unknown[] }).cgm.length, 3 * CGM_READINGS_PER_DAY);
+  });
+});
+
+test('reports INVALID_CREDENTIALS for a wrong password', { timeout: TEST_TIMEOUT_MS }, async () => {
+  await withMock({}, async mock => {
+    const result = await scrapeTandemSource(optionsFor(mock, { password: 'wrong-password' }));
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, 'INVALID_CREDENTIALS');
+    assert.equal(result.errorDetails?.step, 'credentials');
+    assert.equal(result.errorDetails?.retryable, false);
+    assert.equal(mock.stats.failedLogins, 1);
+  });
+});
+
+test('reports SELECTOR_MISSING when the export button is gone', { timeout: TEST_TIMEOUT_MS }, async () => {
+  await withMock({ exportButton: false }, async mock => {
+    const result = await scrapeTandemSource(optionsFor(mock));
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, 'SELECTOR_MISSING');
+    assert.equal(result.errorDetails?.step, 'export');
+    assert.equal(result.failureCapture, undefined, 'captures are opt-in');
+  });
+});
+
+test('captures the failing page and the steps before it on request', { timeout: TEST_TIMEOUT_MS }, async () => {
+  await withMock({ exportButton: false }, async mock => {
+    const result = await scrapeTandemSource(optionsFor(mock, { captureOnFailure: true }));
+
+    assert.equal(result.success, false);
+    assert.ok(result.failureCapture, 'expected a capture of the failing page');
+    assert.equal(result.failureCapture.step, 'export');
+    assert.match(result.failureCapture.page.url, /\/reports\/timeline/);
+    assert.ok(result.failureCapture.page.screenshot.length > 0);
+
+    const trail = result.failureCapture.trail.map(entry => entry.step);
+    assert.deepEqual(trail.slice(-3), ['navigate', 'date-range', 'export']);
+    assert.ok(trail.includes('credentials'));
+  });
+});
+
+test('waits for a slow download to finish', { timeout: TEST_TIMEOUT_MS }, async () => {
+  await withMock({ downloadDelayMs: 5000 }, async mock => {
+    const result = await scrapeTandemSource(optionsFor(mock));
+
+    assert.equal(result.success, true, result.error);
+
+    // A partially written file would be missing the last sections
+    const csv = result.csvBuffer!.toString('utf-8');
+    assert.equal(countSectionRows(csv, 'Basal'), 3 * 24);
+  });
+});
+
+test('logs in when the site skips the country selector', { timeout: TEST_TIMEOUT_MS }, async () => {
+  await withMock({ countrySelector: false }, async mock => {
+    const result = await scrapeTandemSource(optionsFor(mock));
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(mock.stats.logins, 1);
+  });
+});
+
+test('check mode walks every step without downloading', { timeout: TEST_TIMEOUT_MS }, async () => {
+  await withMock({}, async mock => {
+    const { report, failureCapture } = await checkTandemSource(optionsFor(mock));
+
+    assert.equal(report.success, true, report.errorDetails?.message);
+    assert.equal(failureCapture, undefined);
+    assert.ok(report.steps.every(step => step.passed));
+    assert.deepEqual(
+      ['credentials', 'date-range', 'export'].filter(step => !report.steps.some(s => s.step === step)),
+      []
+    );
+    assert.equal(mock.stats.exports, 0);
+  });
+});
+
+test('check mode reports the failing step with a capture', { timeout: TEST_TIMEOUT_MS }, async () => {
+  await withMock({ exportButton: false }, async mock => {
+    const { report, failureCapture } = await checkTandemSource(optionsFor(mock));
+
+    assert.equal(report.success, false);
+    assert.equal(report.errorCode, 'SELECTOR_MISSING');
+    assert.deepEqual(report.steps.filter(step => !step.passed).map(step => step.step), ['export']);
+    assert.ok(failureCapture, 'expected a capture of the failing page');
+    assert.equal(failureCapture.step, 'export');
+    assert.ok(failureCapture.page.screenshot.length > 0);
+    assert.match(failureCapture.page.html, /date-range-label/);
+  });
+});
+
+test('reports FORMAT_CHANGED with a diff when the export layout changes', () => {
+  const changed = generateMockCsv(RANGE)
+    .replace('BasalRate (U/hr)', 'Basal Rate Delivered (U/hr)')
+    .replace('\r\nAlarms\r\n', '\r\nPump Alerts\r\n');
+
+  assert.throws(() => detectCsvSchema(changed), (error: unknown) => {
+    assert.ok(error instanceof ScraperError);
+    assert.equal(error.code, 'FORMAT_CHANGED');
+    assert.deepEqual(error.formatDiff, {
+      expectedVersion: CURRENT_CSV_SCHEMA_VERSION,
+      addedSections: ['Pump Alerts'],
+      missingSections: ['Alarms'],
+      changedSections: [
+        { title: 'Basal', addedColumns: ['Basal Rate Delivered (U/hr)'], missingColumns: ['BasalRate (U/hr)'] },
+      ],
+    });
+    return true;
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * End-to-end tests: the change feed keeps up with the timeline when a merge
+ * fails part way
+ * Run with: npm run test:e2e
+ *
+ * Uses local storage (no BLOB_READ_WRITE_TOKEN) under its own account, which
+ * is removed again afterwards
+ */
+
+import assert from 'node:assert/strict';
+import { mkdir, rename, rm } from 'node:fs/promises';
+import * as path from 'node:path';
+import { after, beforeEach, describe, test } from 'node:test';
+import { getPendingTimelineChanges, getTimelineDay } from '../src/lib/blob-storage';
+import { readChanges } from '../src/lib/change-feed';
+import { parseTandemCsv } from '../src/lib/csv-parser';
+import { normalizeReportTimes } from '../src/lib/pump-time';
+import { mergeIntoTimeline, recordKey, RECORD_KINDS } from '../src/lib/timeline';
+import type { DateRange, TimelineChange } from '../src/lib/types';
+import { generateMockCsv } from './mock-tandem/fixtures';
+
+const TEST_TIMEOUT_MS = 60000;
+const ACCOUNT_ID = 'timeline-test';
+const FIRST_RANGE = { startDate: '2024-01-10', endDate: '2024-01-11' };
+const SECOND_RANGE = { startDate: '2024-01-12', endDate: '2024-01-12' };
+
+/**
+ * Stores a mock export in the account's timeline, as a sync does
+ */
+async function syncMockReport(range: DateRange): Promise<void> {
+  const report = await normalizeReportTimes(parseTandemCsv(generateMockCsv(range)), 'America/New_York', ACCOUNT_ID);
+  await mergeIntoTimeline(report, { coverage: range, downloadedAt: new Date().toISOString() }, ACCOUNT_ID);
+}
+
+/**
+ * Reads the whole change feed
+ */
+async function readAllChanges(): Promise<TimelineChange[]> {
+  const changes: TimelineChange[] = [];
+  let since: string | undefined;
+
+  for (;;) {
+    const page = await readChanges(since, undefined, ACCOUNT_ID);
+    changes.push(...page.changes);
+    if (!page.hasMore) return changes;
+    since = page.cursor ?? undefined;
+  }
+}
+
+describe('Timeline change feed in local storage', () => {
+  const accountDir = path.join(process.cwd(), 'local-storage', 'accounts', ACCOUNT_ID);
+
+  beforeEach(async () => {
+    await rm(accountDir, { recursive: true, force: true });
+  });
+
+  after(async () => {
+    await rm(accountDir, { recursive: true, force: true });
+  });
+
+  test('records the changes of a merge whose append failed on the next merge', { timeout: TEST_TIMEOUT_MS }, async () => {
+    await syncMockReport(FIRST_RANGE);
+
+    // A directory where the change log segment goes makes appendChanges fail
+    const segment = path.join(accountDir, 'changes', '1.json');
+    await rename(segment, `${segment}.saved`);
+    await mkdir(segment);
+
+    try {
+      await assert.rejects(syncMockReport(SECOND_RANGE));
+    } finally {
+      await rm(segment, { recursive: true, force: true });
+      await rename(`${segment}.saved`, segment);
+    }
+
+    const day = await getTimelineDay(SECOND_RANGE.startDate, ACCOUNT_ID);
+    assert.ok(day, 'the merged day was stored');
+    assert.ok(await getPendingTimelineChanges(ACCOUNT_ID), 'its changes are kept as pending');
+    assert.equal((await readAllChanges()).filter(change => change.date === day.date).length, 0);
+
+    // The same report again changes nothing itself, but records what the failed merge left pending
+    await syncMockReport(SECOND_RANGE);
+
+    const keys = RECORD_KINDS.flatMap(kind => day[kind].map(record => recordKey(kind, record)));
+    const recorded = (await readAllChanges()).filter(change => change.date === day.date);
+
+    assert.ok(keys.length > 0);
+    assert.deepEqual(recorded.map(change => change.key).sort(), keys.sort(), 'every record is in the feed once');
+    assert.ok(recorded.every(change => change.op === 'upsert'));
+    assert.equal(await getPendingTimelineChanges(ACCOUNT_ID), null);
+  });
+});
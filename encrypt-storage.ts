@@ -0,0 +1,23 @@
+/**
+ * Encrypts reports and documents uploaded to Vercel Blob before stored data
+ * was encrypted, so they are no longer readable at their public URLs
+ * Run once with: npm run storage:encrypt
+ *
+ * Needs BLOB_READ_WRITE_TOKEN and STORAGE_ENCRYPTION_KEY (or API_KEY) set
+ * to the same values as the deployment
+ */
+
+import { encryptStoredBlobs } from './src/lib/blob-storage';
+
+async function main() {
+  console.log('=== Encrypt Stored Blobs ===\n');
+
+  const { encrypted, checked } = await encryptStoredBlobs();
+
+  console.log(`\n✅ Encrypted ${encrypted} of ${checked} blobs (the rest already were)`);
+}
+
+main().catch(error => {
+  console.error('❌ Failed to encrypt stored blobs:', error);
+  process.exit(1);
+});
@@ -9,9 +9,14 @@ import {
   verifyDashboardPassword,
   createSession,
   destroySession,
+  isDashboardAuthRequired,
   validateSession
 } from '@/lib/dashboard-auth';
+import { signDownloadUrl } from '@/lib/download-links';
 import { performSync } from '@/lib/sync-handler';
+import { performBackfill } from '@/lib/backfill';
+import { performCanaryCheck } from '@/lib/canary';
+import type { BackfillState, CanaryReport, ExportFormat } from '@/lib/types';
 
 /**
  * Login action - verifies password and creates session
@@ -46,10 +51,12 @@ export async function logoutAction(): Promise<void> {
 }
 
 /**
- * Trigger sync action - performs a manual sync
+ * Trigger sync action - performs a manual sync of one account
  * Requires valid session
  */
-export async function triggerSyncAction(): Promise<{ success: boolean; error?: string; data?: any }> {
+export async function triggerSyncAction(
+  accountId: string
+): Promise<{ success: boolean; error?: string; data?: any }> {
   try {
     // Validate session
     const isValid = await validateSession();
@@ -60,9 +67,9 @@ export async function triggerSyncAction(): Promise<{ success: boolean; error?: s
       };
     }
 
-    console.log('[Action] Manual sync triggered via dashboard');
+    console.log(`[Action] Manual sync of account ${accountId} triggered via dashboard`);
 
-    const result = await performSync();
+    const [result] = await performSync({ accountId });
 
     return {
       success: result.success,
@@ -77,3 +84,114 @@ export async function triggerSyncAction(): Promise<{ success: boolean; error?: s
     };
   }
 }
+
+/**
+ * Trigger backfill action - starts a new historical backfill or resumes the last one
+ * Requires valid session
+ */
+export async function triggerBackfillAction(
+  accountId: string,
+  resume: boolean
+): Promise<{ success: boolean; error?: string; data?: BackfillState }> {
+  try {
+    // Validate session
+    const isValid = await validateSession();
+    if (!isValid) {
+      return {
+        success: false,
+        error: 'Unauthorized - please login again',
+      };
+    }
+
+    console.log(`[Action] Backfill ${resume ? 'resume' : 'start'} of account ${accountId} triggered via dashboard`);
+
+    const state = await performBackfill({ resume, accountId });
+
+    return {
+      success: !state.lastError,
+      error: state.lastError,
+      data: state,
+    };
+  } catch (error) {
+    console.error('[Action] Trigger backfill error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Backfill failed',
+    };
+  }
+}
+
+/**
+ * Trigger canary action - runs the page structure check for one account now
+ * Requires valid session
+ */
+export async function triggerCanaryAction(
+  accountId: string
+): Promise<{ success: boolean; error?: string; data?: CanaryReport }> {
+  try {
+    // Validate session
+    const isValid = await validateSession();
+    if (!isValid) {
+      return {
+        success: false,
+        error: 'Unauthorized - please login again',
+      };
+    }
+
+    console.log(`[Action] Canary check of account ${accountId} triggered via dashboard`);
+
+    const report = await performCanaryCheck(accountId);
+
+    return {
+      success: report.success,
+      error: report.errorDetails?.message,
+      data: report,
+    };
+  } catch (error) {
+    console.error('[Action] Trigger canary error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Check failed',
+    };
+  }
+}
+
+/**
+ * Export link action - signs an /api/export link for the chosen format and range
+ * Requires valid session when DASHBOARD_PASSWORD is set, like the dashboard itself
+ */
+export async function signExportUrlAction(
+  accountId: string,
+  format: ExportFormat,
+  from?: string,
+  to?: string
+): Promise<{ success: boolean; error?: string; data?: string }> {
+  try {
+    // Validate session
+    if (isDashboardAuthRequired() && !await validateSession()) {
+      return {
+        success: false,
+        error: 'Unauthorized - please login again',
+      };
+    }
+
+    // Empty dates leave the range to the export route (the newest 30 days)
+    const params = new URLSearchParams({
+      account: accountId,
+      format,
+      ...(from && { from }),
+      ...(to && { to }),
+    });
+
+    return {
+      success: true,
+      data: signDownloadUrl(`/api/export?${params}`),
+    };
+  } catch (error) {
+    console.error('[Action] Sign export link error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Export failed',
+    };
+  }
+}
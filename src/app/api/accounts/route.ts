@@ -0,0 +1,29 @@
+/**
+ * GET /api/accounts
+ * Lists the configured Tandem accounts (ids and settings, no credentials)
+ * Pass an id as ?account= to the other routes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireApiKey } from '@/lib/auth';
+import { getAccounts, toAccountSummary } from '@/lib/accounts';
+
+export async function GET(request: NextRequest) {
+  // Validate API key
+  const authError = requireApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const accounts = getAccounts().map(toAccountSummary);
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      accounts,
+      count: accounts.length,
+    },
+  });
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,117 @@
+/**
+ * GET /api/backfill?account=<id>
+ * Returns the progress of the account's historical backfill
+ *
+ * POST /api/backfill?account=<id>
+ * Starts a new backfill, or resumes the last one with { "resume": true }
+ * Optional body: { "days": 365, "windowDays": 14 }
+ * Returns 400 if the body isn't valid JSON or a field is out of range
+ * Returns 409 while the account is already syncing or backfilling
+ *
+ * Without ?account= the first configured account is used
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AccountBusyError } from '@/lib/account-lock';
+import { requireAccount, requireApiKey } from '@/lib/auth';
+import { parseBackfillOptions, performBackfill } from '@/lib/backfill';
+import type { BackfillOptions } from '@/lib/backfill';
+import { getBackfillState } from '@/lib/blob-storage';
+
+export async function GET(request: NextRequest) {
+  // Validate API key
+  const authError = requireApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const account = requireAccount(request);
+  if (account instanceof NextResponse) {
+    return account;
+  }
+
+  try {
+    const state = await getBackfillState(account.id);
+
+    return NextResponse.json({
+      success: true,
+      data: state,
+    });
+  } catch (error) {
+    console.error('[API /backfill] Error getting backfill state:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get backfill state',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  // Validate API key
+  const authError = requireApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const account = requireAccount(request);
+  if (account instanceof NextResponse) {
+    return account;
+  }
+
+  let options: Pick<BackfillOptions, 'days' | 'windowDays' | 'resume'>;
+  try {
+    const text = await request.text();
+    options = parseBackfillOptions(text ? JSON.parse(text) : undefined);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof SyntaxError ? 'Invalid JSON body' : error instanceof Error ? error.message : 'Invalid body',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    console.log('[API /backfill] Backfill triggered', options);
+
+    const state = await performBackfill({ ...options, accountId: account.id });
+
+    return NextResponse.json({
+      success: !state.lastError,
+      data: state,
+      error: state.lastError,
+    }, {
+      status: state.lastError ? 500 : 200,
+    });
+  } catch (error) {
+    // The account is already syncing or backfilling
+    if (error instanceof AccountBusyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error('[API /backfill] Error during backfill:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Backfill failed',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Export runtime config for Vercel - increase timeout for scraping
+export const maxDuration = 300; // 5 minutes (max for Pro plan, adjust if needed)
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,81 @@
+/**
+ * GET /api/changes?account=<id>&since=<cursor>
+ * Returns the timeline changes recorded after a cursor: records added or
+ * corrected, and tombstones (op "delete") for records that were removed when
+ * an incomplete day was replaced
+ *
+ * Start without ?since= to read everything, then pass the returned cursor
+ * next time. Optional ?limit= (default: 1000, max: 5000)
+ * Without ?account= the first configured account is used
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccount, requireApiKey } from '@/lib/auth';
+import { decodeChangesCursor, MAX_CHANGES_LIMIT, readChanges } from '@/lib/change-feed';
+import type { ApiResponse, ChangesPage } from '@/lib/types';
+
+export async function GET(request: NextRequest) {
+  // Validate API key
+  const authError = requireApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const account = requireAccount(request);
+  if (account instanceof NextResponse) {
+    return account;
+  }
+
+  const since = request.nextUrl.searchParams.get('since') || undefined;
+  const limitParam = request.nextUrl.searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : undefined;
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_CHANGES_LIMIT)) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: `limit must be a whole number between 1 and ${MAX_CHANGES_LIMIT}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (since) {
+      decodeChangesCursor(since);
+    }
+  } catch {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Invalid cursor',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const page = await readChanges(since, limit, account.id);
+
+    return NextResponse.json<ApiResponse<ChangesPage & { account: string; count: number }>>({
+      success: true,
+      data: {
+        account: account.id,
+        ...page,
+        count: page.changes.length,
+      },
+    });
+  } catch (error) {
+    console.error('[API /changes] Error reading changes:', error);
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to read changes',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,50 @@
+/**
+ * GET /api/cron/canary
+ * Selector drift canary triggered by Vercel Cron
+ * Walks the login and export flow without downloading and stores a
+ * per-step report, shown on the dashboard
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { performCanaryCheck } from '@/lib/canary';
+
+export async function GET(request: NextRequest) {
+  try {
+    // If CRON_SECRET is set, validate it (same as /api/cron)
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.warn('[Cron Canary] Unauthorized cron request');
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    console.log('[Cron Canary] Scheduled check started');
+
+    const report = await performCanaryCheck();
+
+    return NextResponse.json({
+      success: report.success,
+      data: report,
+    }, {
+      status: report.success ? 200 : 500,
+    });
+  } catch (error) {
+    console.error('[Cron Canary] Error during scheduled check:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Canary check failed',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Export runtime config for Vercel - a check run logs in, so it needs time
+export const maxDuration = 300; // 5 minutes
+export const dynamic = 'force-dynamic';
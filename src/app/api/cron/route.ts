@@ -1,7 +1,8 @@
 /**
  * GET /api/cron
  * Cron job endpoint triggered by Vercel Cron
- * Runs on schedule defined in vercel.json
+ * Runs on schedule defined in vercel.json, syncing each account whose
+ * sync interval has passed
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -25,19 +26,21 @@ export async function GET(request: NextRequest) {
 
     console.log('[Cron] Scheduled sync started');
 
-    const result = await performSync();
+    const results = await performSync({ dueOnly: true });
+    const success = results.every(result => result.success);
 
-    console.log('[Cron] Scheduled sync completed', {
+    console.log('[Cron] Scheduled sync completed', results.map(result => ({
+      account: result.accountId,
       success: result.success,
       filename: result.filename,
       error: result.error,
-    });
+    })));
 
     return NextResponse.json({
-      success: result.success,
-      data: result,
+      success,
+      data: results,
     }, {
-      status: result.success ? 200 : 500,
+      status: success ? 200 : 500,
     });
   } catch (error) {
     console.error('[Cron] Error during scheduled sync:', error);
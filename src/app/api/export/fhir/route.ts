@@ -0,0 +1,78 @@
+/**
+ * GET /api/export/fhir?account=<id>
+ * Downloads CGM readings and insulin doses from the account's timeline as a
+ * FHIR R4 transaction Bundle (application/fhir+json), for import into
+ * patient portals and health record apps
+ *
+ * Query parameters (all optional):
+ * - from, to: YYYY-MM-DD, inclusive, at most 31 days (default: the 7 days ending with the newest stored day)
+ * - patient: reference to the Patient in the receiving system, e.g. Patient/123
+ *   (default: the Bundle includes a Patient for the account)
+ *
+ * Without ?account= the first configured account is used
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccount, requireApiKey } from '@/lib/auth';
+import { FHIR_DEFAULT_DAYS, FHIR_MAX_DAYS, getFhirBundle, parsePatientReference } from '@/lib/fhir';
+import { resolveTimelineRange } from '@/lib/timeline';
+import type { ApiResponse, DateRange } from '@/lib/types';
+
+export async function GET(request: NextRequest) {
+  // Validate API key
+  const authError = requireApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const account = requireAccount(request);
+  if (account instanceof NextResponse) {
+    return account;
+  }
+
+  const params = request.nextUrl.searchParams;
+
+  let range: DateRange;
+  let patient: string | undefined;
+  try {
+    range = await resolveTimelineRange(
+      { from: params.get('from') || undefined, to: params.get('to') || undefined },
+      { defaultDays: FHIR_DEFAULT_DAYS, maxDays: FHIR_MAX_DAYS },
+      account.id
+    );
+    patient = parsePatientReference(params.get('patient'));
+  } catch (error) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid query',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const bundle = await getFhirBundle(range, account, patient);
+    const filename = `tandem-fhir-${account.id}-${range.startDate}-${range.endDate}.json`;
+
+    return new NextResponse(JSON.stringify(bundle), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/fhir+json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('[API /export/fhir] Error exporting FHIR bundle:', error);
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export FHIR bundle',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
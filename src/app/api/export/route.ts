@@ -0,0 +1,78 @@
+/**
+ * GET /api/export?account=<id>&format=<ndjson|csv|sqlite>
+ * Downloads the account's timeline for a date range as one generated file:
+ * newline-delimited JSON, a deduplicated CSV or a SQLite database
+ *
+ * Query parameters:
+ * - format: ndjson, csv or sqlite (required)
+ * - from, to: YYYY-MM-DD, inclusive, at most 366 days (default: the 30 days ending with the newest stored day)
+ *
+ * Accepts the API key, or a link signed by signDownloadUrl, which is how the
+ * dashboard starts exports
+ * Without ?account= the first configured account is used
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccount, requireApiKeyOrSignedUrl } from '@/lib/auth';
+import { createExport, EXPORT_DEFAULT_DAYS, EXPORT_MAX_DAYS, parseExportFormat } from '@/lib/export';
+import { resolveTimelineRange } from '@/lib/timeline';
+import type { ApiResponse, DateRange, ExportFormat } from '@/lib/types';
+
+export async function GET(request: NextRequest) {
+  // Validate API key or signed link
+  const authError = requireApiKeyOrSignedUrl(request);
+  if (authError) {
+    return authError;
+  }
+
+  const account = requireAccount(request);
+  if (account instanceof NextResponse) {
+    return account;
+  }
+
+  const params = request.nextUrl.searchParams;
+
+  let format: ExportFormat;
+  let range: DateRange;
+  try {
+    format = parseExportFormat(params.get('format'));
+    range = await resolveTimelineRange(
+      { from: params.get('from') || undefined, to: params.get('to') || undefined },
+      { defaultDays: EXPORT_DEFAULT_DAYS, maxDays: EXPORT_MAX_DAYS },
+      account.id
+    );
+  } catch (error) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid query',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const file = await createExport(format, range, account);
+
+    return new NextResponse(new Uint8Array(file.body), {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Content-Length': String(file.body.length),
+      },
+    });
+  } catch (error) {
+    console.error('[API /export] Error generating export:', error);
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to generate export',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
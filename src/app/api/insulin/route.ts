@@ -0,0 +1,72 @@
+/**
+ * GET /api/insulin?account=<id>
+ * Returns per-day insulin summaries: total daily dose, basal/bolus split,
+ * carbs, automatic versus user boluses and time in Sleep/Exercise modes
+ *
+ * Query parameters (all optional):
+ * - from, to: YYYY-MM-DD, inclusive, at most 90 days (default: the 7 days ending with the newest stored day)
+ *
+ * Without ?account= the first configured account is used
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccount, requireApiKey } from '@/lib/auth';
+import { getInsulinSummary, INSULIN_DEFAULT_DAYS, INSULIN_MAX_DAYS } from '@/lib/insulin-stats';
+import { resolveTimelineRange } from '@/lib/timeline';
+import type { ApiResponse, DateRange, InsulinSummary } from '@/lib/types';
+
+export async function GET(request: NextRequest) {
+  // Validate API key
+  const authError = requireApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const account = requireAccount(request);
+  if (account instanceof NextResponse) {
+    return account;
+  }
+
+  const params = request.nextUrl.searchParams;
+
+  let range: DateRange;
+  try {
+    range = await resolveTimelineRange(
+      { from: params.get('from') || undefined, to: params.get('to') || undefined },
+      { defaultDays: INSULIN_DEFAULT_DAYS, maxDays: INSULIN_MAX_DAYS },
+      account.id
+    );
+  } catch (error) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid query',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const summary = await getInsulinSummary(range, account.id);
+
+    return NextResponse.json<ApiResponse<InsulinSummary & { account: string }>>({
+      success: true,
+      data: {
+        account: account.id,
+        ...summary,
+      },
+    });
+  } catch (error) {
+    console.error('[API /insulin] Error computing insulin summary:', error);
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to compute insulin summary',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,72 @@
+/**
+ * GET /api/readings?account=<id>
+ * Returns parsed CGM readings, boluses, basal rates and events from the
+ * account's timeline as JSON, sorted by UTC time
+ *
+ * Query parameters (all optional):
+ * - from, to: YYYY-MM-DD (start of the day in the home time zone) or an ISO 8601
+ *   time with Z or a UTC offset, at most 31 days apart
+ *   (default: a 24 hour range, ending with the newest stored day)
+ * - types: comma-separated kinds, e.g. cgm,boluses (default: all)
+ * - limit: entries per page (default: 1000, max: 5000)
+ * - cursor: nextCursor from the previous page
+ * - downsample: average CGM readings into buckets of this many minutes
+ *
+ * Without ?account= the first configured account is used
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccount, requireApiKey } from '@/lib/auth';
+import { parseReadingsQuery, queryReadings } from '@/lib/readings';
+import type { ApiResponse, ReadingsPage, ReadingsQuery } from '@/lib/types';
+
+export async function GET(request: NextRequest) {
+  // Validate API key
+  const authError = requireApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const account = requireAccount(request);
+  if (account instanceof NextResponse) {
+    return account;
+  }
+
+  let query: ReadingsQuery;
+  try {
+    query = parseReadingsQuery(request.nextUrl.searchParams, account.timeZone);
+  } catch (error) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid query',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const page = await queryReadings(query, account);
+
+    return NextResponse.json<ApiResponse<ReadingsPage & { account: string; count: number }>>({
+      success: true,
+      data: {
+        account: account.id,
+        ...page,
+        count: page.entries.length,
+      },
+    });
+  } catch (error) {
+    console.error('[API /readings] Error querying readings:', error);
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to query readings',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
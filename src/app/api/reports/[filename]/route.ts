@@ -1,11 +1,14 @@
 /**
- * GET /api/reports/[filename]
- * Downloads a specific CSV report
+ * GET /api/reports/[filename]?account=<id>
+ * Downloads a specific CSV report of an account, decrypted from storage
+ *
+ * Accepts the API key or a signed link from the dashboard (?expires=&signature=)
+ * Without ?account= the first configured account is used
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { requireApiKey } from '@/lib/auth';
-import { listReports } from '@/lib/blob-storage';
+import { requireAccount, requireApiKeyOrSignedUrl } from '@/lib/auth';
+import { getReportContent } from '@/lib/blob-storage';
 
 interface RouteParams {
   params: Promise<{
@@ -17,12 +20,17 @@ export async function GET(
   request: NextRequest,
   { params }: RouteParams
 ) {
-  // Validate API key
-  const authError = requireApiKey(request);
+  // Validate API key or signed link
+  const authError = requireApiKeyOrSignedUrl(request);
   if (authError) {
     return authError;
   }
 
+  const account = requireAccount(request);
+  if (account instanceof NextResponse) {
+    return account;
+  }
+
   try {
     const { filename } = await params;
 
@@ -37,11 +45,9 @@ export async function GET(
       );
     }
 
-    // Verify the file exists by checking our report list
-    const reports = await listReports();
-    const report = reports.find(r => r.filename === filename);
+    const csvContent = await getReportContent(filename, account.id);
 
-    if (!report) {
+    if (!csvContent) {
       return NextResponse.json(
         {
           success: false,
@@ -51,22 +57,14 @@ export async function GET(
       );
     }
 
-    // Fetch the file from blob storage
-    const response = await fetch(report.url);
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch report from storage');
-    }
-
-    const csvContent = await response.text();
-
     // Return the CSV file with appropriate headers
-    return new NextResponse(csvContent, {
+    return new NextResponse(new Uint8Array(csvContent), {
       status: 200,
       headers: {
         'Content-Type': 'text/csv',
         'Content-Disposition': `attachment; filename="${filename}"`,
         'Content-Length': String(csvContent.length),
+        'Cache-Control': 'private, no-store',
       },
     });
   } catch (error) {
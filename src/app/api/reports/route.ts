@@ -1,10 +1,11 @@
 /**
- * GET /api/reports
- * Lists all available CSV reports with metadata
+ * GET /api/reports?account=<id>
+ * Lists all available CSV reports of an account with metadata
+ * Without ?account= the first configured account is used
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { requireApiKey } from '@/lib/auth';
+import { requireAccount, requireApiKey } from '@/lib/auth';
 import { listReports } from '@/lib/blob-storage';
 
 export async function GET(request: NextRequest) {
@@ -14,12 +15,18 @@ export async function GET(request: NextRequest) {
     return authError;
   }
 
+  const account = requireAccount(request);
+  if (account instanceof NextResponse) {
+    return account;
+  }
+
   try {
-    const reports = await listReports();
+    const reports = await listReports(account.id);
 
     return NextResponse.json({
       success: true,
       data: {
+        account: account.id,
         reports,
         count: reports.length,
       },
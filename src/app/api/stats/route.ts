@@ -0,0 +1,80 @@
+/**
+ * GET /api/stats?account=<id>
+ * Returns glycemic statistics for a range of days: time in range, mean
+ * glucose, GMI, coefficient of variation, sensor wear and hourly AGP percentiles
+ *
+ * Query parameters (all optional):
+ * - from, to: YYYY-MM-DD, inclusive, at most 90 days (default: the 14 days ending with the newest stored day)
+ * - veryLow, low, high, veryHigh: glucose thresholds in mg/dL (default: 54, 70, 180, 250)
+ *
+ * Without ?account= the first configured account is used
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccount, requireApiKey } from '@/lib/auth';
+import { getGlucoseStats, getGlucoseThresholds, STATS_DEFAULT_DAYS, STATS_MAX_DAYS } from '@/lib/glucose-stats';
+import { resolveTimelineRange } from '@/lib/timeline';
+import type { ApiResponse, DateRange, GlucoseStats, GlucoseThresholds } from '@/lib/types';
+
+export async function GET(request: NextRequest) {
+  // Validate API key
+  const authError = requireApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const account = requireAccount(request);
+  if (account instanceof NextResponse) {
+    return account;
+  }
+
+  const params = request.nextUrl.searchParams;
+
+  let range: DateRange;
+  let thresholds: GlucoseThresholds;
+  try {
+    range = await resolveTimelineRange(
+      { from: params.get('from') || undefined, to: params.get('to') || undefined },
+      { defaultDays: STATS_DEFAULT_DAYS, maxDays: STATS_MAX_DAYS },
+      account.id
+    );
+    thresholds = getGlucoseThresholds({
+      veryLow: params.get('veryLow'),
+      low: params.get('low'),
+      high: params.get('high'),
+      veryHigh: params.get('veryHigh'),
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid query',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const stats = await getGlucoseStats(range, thresholds, account);
+
+    return NextResponse.json<ApiResponse<GlucoseStats & { account: string }>>({
+      success: true,
+      data: {
+        account: account.id,
+        ...stats,
+      },
+    });
+  } catch (error) {
+    console.error('[API /stats] Error computing glucose stats:', error);
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to compute glucose stats',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
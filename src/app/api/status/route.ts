@@ -1,10 +1,12 @@
 /**
- * GET /api/status
- * Returns service status information
+ * GET /api/status?account=<id>
+ * Returns service status information for an account
+ * Without ?account= the first configured account is used
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { requireApiKey } from '@/lib/auth';
+import { getAccount, getNextScheduledSync, toAccountSummary } from '@/lib/accounts';
 import { getSyncStatus, listReports } from '@/lib/blob-storage';
 import { validateScraperConfig } from '@/lib/tandem-scraper';
 import type { ServiceStatus } from '@/lib/types';
@@ -16,31 +18,43 @@ export async function GET(request: NextRequest) {
     return authError;
   }
 
+  // Unlike the other routes, an unconfigured service still has a status
+  const accountId = request.nextUrl.searchParams.get('account');
+  const account = getAccount(accountId);
+  if (accountId && !account) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Unknown account: ${accountId}`,
+      },
+      { status: 404 }
+    );
+  }
+
   try {
     // Get last sync status
-    const lastSync = await getSyncStatus();
+    const lastSync = await getSyncStatus(account?.id);
 
     // Get report count
-    const reports = await listReports();
+    const reports = await listReports(account?.id);
 
     // Check if service is properly configured
     const configValidation = validateScraperConfig();
     const isConfigured = configValidation.valid && !!process.env.API_KEY;
 
-    // Calculate next scheduled sync (every 12 hours based on vercel.json)
-    // This is approximate - actual scheduling is handled by Vercel
-    let nextScheduledSync: string | null = null;
-    if (lastSync?.timestamp) {
-      const lastSyncDate = new Date(lastSync.timestamp);
-      const nextSync = new Date(lastSyncDate.getTime() + 12 * 60 * 60 * 1000);
-      nextScheduledSync = nextSync.toISOString();
-    }
+    // Approximate - the hourly cron job picks the account up once it's due
+    const nextScheduledSync = account ? getNextScheduledSync(account, lastSync) : null;
 
     const status: ServiceStatus = {
       configured: isConfigured,
+      account: account ? toAccountSummary(account) : null,
       lastSyncTime: lastSync?.timestamp || null,
       lastSyncSuccess: lastSync?.success ?? null,
       lastSyncError: lastSync?.error || null,
+      lastSyncErrorCode: lastSync?.errorCode || null,
+      lastSyncErrorDetails: lastSync?.errorDetails || null,
+      lastSyncCaptureId: lastSync?.captureId || null,
+      lastSyncNightscout: lastSync?.nightscout || null,
       reportCount: reports.length,
       nextScheduledSync,
     };
@@ -1,15 +1,15 @@
 /**
- * POST /api/sync
- * Triggers an immediate sync operation
+ * POST /api/sync?account=<id>
+ * Triggers an immediate sync operation for an account
+ * Returns 409 while the account is already syncing or backfilling
+ * Without ?account= the first configured account is synced
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { requireApiKey } from '@/lib/auth';
+import { AccountBusyError } from '@/lib/account-lock';
+import { requireAccount, requireApiKey } from '@/lib/auth';
 import { performSync } from '@/lib/sync-handler';
 
-// Prevent multiple simultaneous syncs
-let syncInProgress = false;
-
 export async function POST(request: NextRequest) {
   // Validate API key
   const authError = requireApiKey(request);
@@ -17,22 +17,15 @@ export async function POST(request: NextRequest) {
     return authError;
   }
 
-  // Check if sync is already in progress
-  if (syncInProgress) {
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Sync already in progress',
-      },
-      { status: 409 }
-    );
+  const account = requireAccount(request);
+  if (account instanceof NextResponse) {
+    return account;
   }
 
   try {
-    syncInProgress = true;
-    console.log('[API /sync] Manual sync triggered');
+    console.log(`[API /sync] Manual sync triggered for account ${account.id}`);
 
-    const result = await performSync();
+    const [result] = await performSync({ accountId: account.id });
 
     return NextResponse.json({
       success: result.success,
@@ -41,6 +34,17 @@ export async function POST(request: NextRequest) {
       status: result.success ? 200 : 500,
     });
   } catch (error) {
+    // The account is already syncing or backfilling
+    if (error instanceof AccountBusyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 409 }
+      );
+    }
+
     console.error('[API /sync] Error during sync:', error);
 
     return NextResponse.json(
@@ -50,8 +54,6 @@ export async function POST(request: NextRequest) {
       },
       { status: 500 }
     );
-  } finally {
-    syncInProgress = false;
   }
 }
 
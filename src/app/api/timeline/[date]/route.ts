@@ -0,0 +1,75 @@
+/**
+ * GET /api/timeline/[date]?account=<id>
+ * Returns one pump-local day (YYYY-MM-DD) of an account's canonical timeline
+ * Without ?account= the first configured account is used
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccount, requireApiKey } from '@/lib/auth';
+import { getTimelineDay } from '@/lib/blob-storage';
+import { isValidDateString } from '@/lib/date-range';
+
+interface RouteParams {
+  params: Promise<{
+    date: string;
+  }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  // Validate API key
+  const authError = requireApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const account = requireAccount(request);
+  if (account instanceof NextResponse) {
+    return account;
+  }
+
+  try {
+    const { date } = await params;
+
+    if (!isValidDateString(date)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid date, expected YYYY-MM-DD',
+        },
+        { status: 400 }
+      );
+    }
+
+    const day = await getTimelineDay(date, account.id);
+
+    if (!day) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No data for this day',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: day,
+    });
+  } catch (error) {
+    console.error('[API /timeline/[date]] Error reading timeline day:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to read timeline day',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
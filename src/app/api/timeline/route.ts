@@ -0,0 +1,47 @@
+/**
+ * GET /api/timeline?account=<id>
+ * Lists the days in an account's canonical timeline, with record counts
+ * Without ?account= the first configured account is used
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccount, requireApiKey } from '@/lib/auth';
+import { getTimelineIndex } from '@/lib/blob-storage';
+
+export async function GET(request: NextRequest) {
+  // Validate API key
+  const authError = requireApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const account = requireAccount(request);
+  if (account instanceof NextResponse) {
+    return account;
+  }
+
+  try {
+    const days = await getTimelineIndex(account.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        account: account.id,
+        days,
+        count: days.length,
+      },
+    });
+  } catch (error) {
+    console.error('[API /timeline] Error listing timeline days:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list timeline days',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
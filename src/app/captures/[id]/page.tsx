@@ -0,0 +1,161 @@
+/**
+ * Failure capture viewer - shows the page a scraper step failed on,
+ * with the steps leading up to it
+ * Captures are looked up in the account given by ?account= (default: the first one)
+ * Includes authentication check if DASHBOARD_PASSWORD is set
+ */
+
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { validateSession, isDashboardAuthRequired } from '@/lib/dashboard-auth';
+import { getAccount } from '@/lib/accounts';
+import { getFailureCapture, getFailureCaptureFile } from '@/lib/blob-storage';
+import { isCaptureExpired } from '@/lib/failure-captures';
+
+export default async function CapturePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ account?: string }>;
+}) {
+  // Check authentication if required
+  if (isDashboardAuthRequired()) {
+    const isValid = await validateSession();
+    if (!isValid) {
+      redirect('/login');
+    }
+  }
+
+  const { id } = await params;
+  const { account: accountId } = await searchParams;
+  const account = getAccount(accountId);
+  const capture = account && await getFailureCapture(id, account.id);
+
+  if (!account || !capture || isCaptureExpired(capture)) {
+    notFound();
+  }
+
+  const [screenshot, html] = await Promise.all([
+    getFailureCaptureFile(capture, 'screenshot'),
+    getFailureCaptureFile(capture, 'html'),
+  ]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href={`/?account=${account.id}`} className="text-sm text-blue-600 hover:text-blue-800">
+            ← Back to dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2 mb-2">
+            Failed at <span className="font-mono">{capture.step}</span>
+          </h1>
+          <p className="text-gray-600">
+            {capture.source} run on {formatDate(capture.createdAt)} · kept until {formatDate(capture.expiresAt)}
+          </p>
+        </div>
+
+        {/* Error */}
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Error</h2>
+
+          <div className="space-y-3">
+            <div className="flex justify-between items-center gap-4">
+              <span className="text-sm text-gray-600">Code</span>
+              <span className="text-sm font-mono text-gray-900">{capture.errorCode || 'UNKNOWN'}</span>
+            </div>
+            <div className="flex justify-between items-center gap-4">
+              <span className="text-sm text-gray-600">Message</span>
+              <span className="text-sm text-gray-900 text-right">{capture.message}</span>
+            </div>
+            <div className="flex justify-between items-center gap-4">
+              <span className="text-sm text-gray-600">Page</span>
+              <span className="text-sm text-gray-900 text-right break-all">
+                {capture.title && <>{capture.title}<br /></>}
+                <span className="font-mono">{capture.url}</span>
+              </span>
+            </div>
+            <div className="flex justify-between items-center gap-4">
+              <span className="text-sm text-gray-600">Run</span>
+              <span className="text-sm font-mono text-gray-900">{capture.runId}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Step Trail */}
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Steps</h2>
+
+          <ol className="divide-y divide-gray-100">
+            {capture.trail.map((entry, index) => {
+              const failed = index === capture.trail.length - 1;
+              return (
+                <li key={`${entry.step}-${index}`} className="py-2 flex justify-between items-center">
+                  <span className="text-sm">
+                    {failed ? (
+                      <span className="text-red-600">✗</span>
+                    ) : (
+                      <span className="text-green-600">✓</span>
+                    )}{' '}
+                    <span className="font-mono text-gray-900">{entry.step}</span>
+                  </span>
+                  <span className="text-sm text-gray-500">{formatDate(entry.startedAt)}</span>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+
+        {/* Screenshot */}
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Screenshot</h2>
+
+          {screenshot ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={`data:image/png;base64,${screenshot.toString('base64')}`}
+              alt={`Page at ${capture.step}`}
+              className="w-full border border-gray-200 rounded"
+            />
+          ) : (
+            <p className="text-sm text-gray-600">The screenshot is no longer available.</p>
+          )}
+        </div>
+
+        {/* HTML */}
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">HTML</h2>
+
+          {html ? (
+            <>
+              {/* Sandboxed, so Tandem's scripts never run on our origin */}
+              <iframe
+                sandbox=""
+                srcDoc={html.toString('utf-8')}
+                title="Captured page"
+                className="w-full h-[600px] border border-gray-200 rounded mb-4"
+              />
+              <details>
+                <summary className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">Source</summary>
+                <pre className="mt-2 bg-gray-50 text-xs text-gray-800 p-3 rounded overflow-x-auto max-h-[600px]">
+                  {html.toString('utf-8')}
+                </pre>
+              </details>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">The HTML is no longer available.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Disable static optimization to check the session on each request
+export const dynamic = 'force-dynamic';
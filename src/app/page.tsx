@@ -10,14 +10,35 @@ import SetupWizard from '@/components/SetupWizard';
 import Dashboard from '@/components/Dashboard';
 import { validateScraperConfig } from '@/lib/tandem-scraper';
 import { validateSession, isDashboardAuthRequired } from '@/lib/dashboard-auth';
-import { getSyncStatus, listReports } from '@/lib/blob-storage';
-import type { ServiceStatus, ReportMetadata } from '@/lib/types';
+import { getAccount, getAccounts, getNextScheduledSync, toAccountSummary } from '@/lib/accounts';
+import {
+  getBackfillState,
+  getCanaryStatus,
+  getSyncStatus,
+  listFailureCaptures,
+  listReports,
+} from '@/lib/blob-storage';
+import { signDownloadUrl } from '@/lib/download-links';
+import { getGlucoseStats, getGlucoseThresholds, STATS_DEFAULT_DAYS, STATS_MAX_DAYS } from '@/lib/glucose-stats';
+import { getInsulinSummary, INSULIN_DEFAULT_DAYS, INSULIN_MAX_DAYS } from '@/lib/insulin-stats';
+import { resolveTimelineRange } from '@/lib/timeline';
+import type {
+  AccountSummary,
+  BackfillState,
+  CanaryReport,
+  FailureCaptureRecord,
+  GlucoseStats,
+  InsulinSummary,
+  ServiceStatus,
+  ReportMetadata,
+} from '@/lib/types';
 
-export default async function Home() {
+export default async function Home({ searchParams }: { searchParams: Promise<{ account?: string }> }) {
   // Check if the service is configured
   const apiKey = process.env.API_KEY;
   const configValidation = validateScraperConfig();
-  const isConfigured = !!apiKey && configValidation.valid;
+  const account = getAccount();
+  const isConfigured = !!apiKey && configValidation.valid && !!account;
 
   // Show setup wizard if not configured
   if (!isConfigured) {
@@ -32,28 +53,66 @@ export default async function Home() {
     }
   }
 
+  // The selected account, falling back to the first one
+  const { account: accountId } = await searchParams;
+  const selected = getAccount(accountId) ?? account;
+  const accounts: AccountSummary[] = getAccounts().map(toAccountSummary);
+
   // Fetch real data for the dashboard
   let status: ServiceStatus | null = null;
   let reports: ReportMetadata[] = [];
+  let backfill: BackfillState | null = null;
+  let canary: CanaryReport | null = null;
+  let captures: FailureCaptureRecord[] = [];
+  let glucoseStats: GlucoseStats | null = null;
+  let insulinSummary: InsulinSummary | null = null;
   let error: string | null = null;
 
   try {
     // Get sync status
-    const lastSync = await getSyncStatus();
+    const lastSync = await getSyncStatus(selected.id);
+
+    // Get reports, linking to them with short-lived signed URLs
+    reports = (await listReports(selected.id)).map(report => ({ ...report, url: signDownloadUrl(report.url) }));
+
+    // Get backfill progress
+    backfill = await getBackfillState(selected.id);
+
+    // Get the last page structure check
+    canary = await getCanaryStatus(selected.id);
+
+    // Get failure captures that haven't expired yet
+    captures = await listFailureCaptures(selected.id);
+
+    // Get glucose stats for the most recent days in the timeline
+    const statsRange = await resolveTimelineRange(
+      {},
+      { defaultDays: STATS_DEFAULT_DAYS, maxDays: STATS_MAX_DAYS },
+      selected.id
+    );
+    glucoseStats = await getGlucoseStats(statsRange, getGlucoseThresholds(), selected);
 
-    // Get reports
-    reports = await listReports();
+    // Get insulin summaries for the most recent week
+    const insulinRange = await resolveTimelineRange(
+      {},
+      { defaultDays: INSULIN_DEFAULT_DAYS, maxDays: INSULIN_MAX_DAYS },
+      selected.id
+    );
+    insulinSummary = await getInsulinSummary(insulinRange, selected.id);
 
     // Build status object
     status = {
       configured: isConfigured,
+      account: toAccountSummary(selected),
       lastSyncTime: lastSync?.timestamp || null,
       lastSyncSuccess: lastSync?.success ?? null,
       lastSyncError: lastSync?.error || null,
+      lastSyncErrorCode: lastSync?.errorCode || null,
+      lastSyncErrorDetails: lastSync?.errorDetails || null,
+      lastSyncCaptureId: lastSync?.captureId || null,
+      lastSyncNightscout: lastSync?.nightscout || null,
       reportCount: reports.length,
-      nextScheduledSync: lastSync?.timestamp
-        ? new Date(new Date(lastSync.timestamp).getTime() + 12 * 60 * 60 * 1000).toISOString()
-        : null,
+      nextScheduledSync: getNextScheduledSync(selected, lastSync),
     };
   } catch (err) {
     console.error('[Home] Error fetching dashboard data:', err);
@@ -67,7 +126,21 @@ export default async function Home() {
   const baseUrl = `${protocol}://${host}`;
 
   // Show dashboard with real data
-  return <Dashboard status={status} reports={reports} error={error} baseUrl={baseUrl} />;
+  return (
+    <Dashboard
+      account={toAccountSummary(selected)}
+      accounts={accounts}
+      status={status}
+      reports={reports}
+      backfill={backfill}
+      canary={canary}
+      captures={captures}
+      glucoseStats={glucoseStats}
+      insulinSummary={insulinSummary}
+      error={error}
+      baseUrl={baseUrl}
+    />
+  );
 }
 
 // Disable static optimization to check env vars and session on each request
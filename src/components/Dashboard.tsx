@@ -6,22 +6,62 @@
 
 import { useState, useTransition } from 'react';
 import { useRouter } from 'next/navigation';
-import type { ServiceStatus, ReportMetadata } from '@/lib/types';
-import { triggerSyncAction, logoutAction } from '@/app/actions';
+import type {
+  AccountSummary,
+  ServiceStatus,
+  ReportMetadata,
+  BackfillState,
+  CanaryReport,
+  FailureCaptureRecord,
+  GlucoseStats,
+  InsulinSummary,
+  ExportFormat,
+} from '@/lib/types';
+import { triggerSyncAction, triggerBackfillAction, triggerCanaryAction, logoutAction, signExportUrlAction } from '@/app/actions';
 
 interface DashboardProps {
+  account: AccountSummary; // The account shown
+  accounts: AccountSummary[];
   status: ServiceStatus | null;
   reports: ReportMetadata[];
+  backfill: BackfillState | null;
+  canary: CanaryReport | null;
+  captures: FailureCaptureRecord[];
+  glucoseStats: GlucoseStats | null;
+  insulinSummary: InsulinSummary | null;
   error: string | null;
   baseUrl?: string;
 }
 
-export default function Dashboard({ status, reports, error: initialError, baseUrl }: DashboardProps) {
+export default function Dashboard({
+  account,
+  accounts,
+  status,
+  reports,
+  backfill,
+  canary,
+  captures,
+  glucoseStats,
+  insulinSummary,
+  error: initialError,
+  baseUrl,
+}: DashboardProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [syncing, setSyncing] = useState(false);
   const [syncError, setSyncError] = useState<string | null>(null);
   const [syncSuccess, setSyncSuccess] = useState(false);
+  const [backfilling, setBackfilling] = useState(false);
+  const [backfillError, setBackfillError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [checkError, setCheckError] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const backfillCompletedCount = backfill?.windows.filter(w => w.status === 'completed').length ?? 0;
+  const canResumeBackfill = !!backfill && !backfill.completed;
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
@@ -33,13 +73,36 @@ export default function Dashboard({ status, reports, error: initialError, baseUr
     return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
   };
 
+  const formatMinutes = (minutes: number) => {
+    if (minutes === 0) return '—';
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  };
+
+  // The export route takes no dashboard session, so downloads go through a signed link
+  const downloadExport = async () => {
+    setExportError(null);
+
+    try {
+      const result = await signExportUrlAction(account.id, exportFormat, exportFrom, exportTo);
+
+      if (result.success && result.data) {
+        window.location.assign(result.data);
+      } else {
+        setExportError(result.error || 'Export failed');
+      }
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Failed to start export');
+    }
+  };
+
   const triggerSync = async () => {
     setSyncing(true);
     setSyncError(null);
     setSyncSuccess(false);
 
     try {
-      const result = await triggerSyncAction();
+      const result = await triggerSyncAction(account.id);
 
       if (result.success) {
         setSyncSuccess(true);
@@ -57,6 +120,50 @@ export default function Dashboard({ status, reports, error: initialError, baseUr
     }
   };
 
+  const triggerBackfill = async (resume: boolean) => {
+    setBackfilling(true);
+    setBackfillError(null);
+
+    try {
+      const result = await triggerBackfillAction(account.id, resume);
+
+      if (!result.success) {
+        setBackfillError(result.error || 'Backfill failed');
+      }
+
+      // Refresh even on failure - completed windows are kept
+      startTransition(() => {
+        router.refresh();
+      });
+    } catch (err) {
+      setBackfillError(err instanceof Error ? err.message : 'Failed to trigger backfill');
+    } finally {
+      setBackfilling(false);
+    }
+  };
+
+  const triggerCanary = async () => {
+    setChecking(true);
+    setCheckError(null);
+
+    try {
+      const result = await triggerCanaryAction(account.id);
+
+      if (!result.success && !result.data) {
+        setCheckError(result.error || 'Check failed');
+      }
+
+      // The stored report shows which step failed
+      startTransition(() => {
+        router.refresh();
+      });
+    } catch (err) {
+      setCheckError(err instanceof Error ? err.message : 'Failed to run check');
+    } finally {
+      setChecking(false);
+    }
+  };
+
   const handleLogout = async () => {
     await logoutAction();
   };
@@ -82,6 +189,23 @@ export default function Dashboard({ status, reports, error: initialError, baseUr
           </button>
         </div>
 
+        {/* Account Switcher */}
+        {accounts.length > 1 && (
+          <div className="mb-6 flex gap-2">
+            {accounts.map((option) => (
+              <a
+                key={option.id}
+                href={`/?account=${option.id}`}
+                className={option.id === account.id
+                  ? 'bg-blue-600 text-white font-medium py-2 px-4 rounded-lg'
+                  : 'bg-white hover:bg-gray-100 text-gray-700 font-medium py-2 px-4 rounded-lg shadow'}
+              >
+                {option.name}
+              </a>
+            ))}
+          </div>
+        )}
+
         {/* Global Error */}
         {initialError && (
           <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
@@ -92,7 +216,9 @@ export default function Dashboard({ status, reports, error: initialError, baseUr
 
         {/* Status Card */}
         <div className="bg-white shadow rounded-lg p-6 mb-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Service Status</h2>
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">
+            Service Status{accounts.length > 1 && ` — ${account.name}`}
+          </h2>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
@@ -136,12 +262,76 @@ export default function Dashboard({ status, reports, error: initialError, baseUr
                 )}
               </p>
             </div>
+
+            {status?.lastSyncNightscout && (
+              <div className="md:col-span-2">
+                <p className="text-sm text-gray-600 mb-1">Last Nightscout Upload</p>
+                <p className="text-lg font-medium">
+                  {status.lastSyncNightscout.success ? (
+                    <span className="text-green-600">✓ Uploaded</span>
+                  ) : (
+                    <span className="text-red-600">✗ Failed</span>
+                  )}
+                  <span className="text-sm text-gray-600 ml-2">
+                    {status.lastSyncNightscout.entries} entries, {status.lastSyncNightscout.treatments} treatments
+                    {status.lastSyncNightscout.retries > 0 && `, ${status.lastSyncNightscout.retries} retries`}
+                    {status.lastSyncNightscout.hasMore && ' (more with the next sync)'}
+                  </span>
+                </p>
+                {status.lastSyncNightscout.error && (
+                  <p className="text-sm text-red-700 mt-1">{status.lastSyncNightscout.error}</p>
+                )}
+              </div>
+            )}
           </div>
 
           {status?.lastSyncError && (
             <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-4">
               <p className="text-sm font-medium text-red-900">Last Error:</p>
               <p className="text-sm text-red-700 mt-1">{status.lastSyncError}</p>
+              {status.lastSyncErrorDetails && (
+                <div className="text-sm text-red-700 mt-2 space-y-1">
+                  <p>
+                    <span className="font-mono">{status.lastSyncErrorDetails.code}</span>
+                    {' '}during <span className="font-mono">{status.lastSyncErrorDetails.step}</span>
+                    {status.lastSyncErrorDetails.retryable ? ' (a retry may help)' : ' (retrying will not help)'}
+                  </p>
+                  <p>What to do: {status.lastSyncErrorDetails.action}</p>
+                  {status.lastSyncErrorDetails.formatDiff && (
+                    <div className="pt-2">
+                      <p className="font-medium text-red-900">
+                        Changes from schema version {status.lastSyncErrorDetails.formatDiff.expectedVersion}:
+                      </p>
+                      <ul className="mt-1 font-mono text-xs space-y-1">
+                        {status.lastSyncErrorDetails.formatDiff.addedSections.map((title) => (
+                          <li key={`added-${title}`} className="text-green-700">+ section &quot;{title}&quot;</li>
+                        ))}
+                        {status.lastSyncErrorDetails.formatDiff.missingSections.map((title) => (
+                          <li key={`missing-${title}`} className="text-red-700">− section &quot;{title}&quot;</li>
+                        ))}
+                        {status.lastSyncErrorDetails.formatDiff.changedSections.map((section) => (
+                          <li key={`changed-${section.title}`} className="text-gray-800">
+                            section &quot;{section.title}&quot;
+                            <ul className="ml-4">
+                              {section.addedColumns.map((column) => (
+                                <li key={`added-${column}`} className="text-green-700">+ {column}</li>
+                              ))}
+                              {section.missingColumns.map((column) => (
+                                <li key={`missing-${column}`} className="text-red-700">− {column}</li>
+                              ))}
+                            </ul>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+              {status.lastSyncCaptureId && (
+                <a href={`/captures/${status.lastSyncCaptureId}?account=${account.id}`} className="inline-block text-sm text-blue-600 hover:text-blue-800 mt-2">
+                  View the failing page
+                </a>
+              )}
             </div>
           )}
 
@@ -167,11 +357,132 @@ export default function Dashboard({ status, reports, error: initialError, baseUr
               {syncing ? 'Syncing...' : isPending ? 'Refreshing...' : 'Trigger Sync Now'}
             </button>
             <p className="text-sm text-gray-600 mt-2">
-              Scheduled sync runs every 12 hours automatically
+              Scheduled sync runs every {account.syncIntervalHours} hours automatically
             </p>
           </div>
         </div>
 
+        {/* Glucose Summary */}
+        {glucoseStats && (
+          <div className="bg-white shadow rounded-lg p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-1">Glucose</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              {glucoseStats.range.startDate} to {glucoseStats.range.endDate}
+              {' '}· target {glucoseStats.thresholds.low}–{glucoseStats.thresholds.high} mg/dL
+            </p>
+
+            {glucoseStats.timeInRange ? (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  { label: 'Time in Range', value: `${glucoseStats.timeInRange.inRange}%`, className: 'text-green-600' },
+                  {
+                    label: 'Time Below Range',
+                    value: `${glucoseStats.timeInRange.below}%`,
+                    detail: `${glucoseStats.timeInRange.veryLow}% very low`,
+                    className: 'text-red-600',
+                  },
+                  {
+                    label: 'Time Above Range',
+                    value: `${glucoseStats.timeInRange.above}%`,
+                    detail: `${glucoseStats.timeInRange.veryHigh}% very high`,
+                    className: 'text-yellow-600',
+                  },
+                  { label: 'Mean Glucose', value: `${glucoseStats.meanGlucose} mg/dL`, className: 'text-gray-900' },
+                  { label: 'GMI', value: `${glucoseStats.gmi}%`, className: 'text-gray-900' },
+                  { label: 'Coefficient of Variation', value: `${glucoseStats.coefficientOfVariation}%`, className: 'text-gray-900' },
+                  { label: 'Sensor Wear', value: `${glucoseStats.sensorWearPercent}%`, className: 'text-gray-900' },
+                ].map((card) => (
+                  <div key={card.label} className="bg-gray-50 rounded-lg p-4">
+                    <p className="text-sm text-gray-600 mb-1">{card.label}</p>
+                    <p className={`text-2xl font-semibold ${card.className}`}>{card.value}</p>
+                    {card.detail && <p className="text-xs text-gray-500 mt-1">{card.detail}</p>}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">No CGM readings in this period yet.</p>
+            )}
+          </div>
+        )}
+
+        {/* Insulin Summary */}
+        {insulinSummary && (
+          <div className="bg-white shadow rounded-lg p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-1">Insulin</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              {insulinSummary.range.startDate} to {insulinSummary.range.endDate}
+              {insulinSummary.average && (
+                <>
+                  {' '}· average TDD {insulinSummary.average.totalInsulin} U
+                  {' '}({insulinSummary.average.basalInsulin} U basal, {insulinSummary.average.bolusInsulin} U bolus),
+                  {' '}{insulinSummary.average.carbs} g carbs
+                </>
+              )}
+            </p>
+
+            {insulinSummary.days.length === 0 ? (
+              <p className="text-sm text-gray-600">No insulin data in this period yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Date
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        TDD
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Basal
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Bolus
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Carbs
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Boluses
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Sleep
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Exercise
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {[...insulinSummary.days].reverse().map((day) => (
+                      <tr key={day.date} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                          {day.date}
+                          {!day.complete && <span className="ml-2 text-xs text-gray-400">(in progress)</span>}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900">{day.totalInsulin} U</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {day.basalInsulin} U{day.basalPercent !== null && ` (${day.basalPercent}%)`}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {day.bolusInsulin} U{day.bolusPercent !== null && ` (${day.bolusPercent}%)`}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{day.carbs} g</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {day.userBoluses} user, {day.automaticBoluses} auto
+                          {day.automaticBoluses > 0 && ` (${day.automaticBolusInsulin} U)`}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{formatMinutes(day.sleepMinutes)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{formatMinutes(day.exerciseMinutes)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Configuration Summary */}
         <div className="bg-white shadow rounded-lg p-6 mb-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Configuration</h2>
@@ -180,16 +491,254 @@ export default function Dashboard({ status, reports, error: initialError, baseUr
             <div className="flex justify-between items-center">
               <span className="text-sm text-gray-600">Report Days</span>
               <span className="text-sm font-medium text-gray-900">
-                2 days
+                {account.reportDays} days
               </span>
             </div>
             <div className="flex justify-between items-center">
               <span className="text-sm text-gray-600">Sync Schedule</span>
-              <span className="text-sm font-medium text-gray-900">Every 12 hours</span>
+              <span className="text-sm font-medium text-gray-900">Every {account.syncIntervalHours} hours</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">Time Zone</span>
+              <span className="text-sm font-medium text-gray-900">{account.timeZone}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Historical Backfill */}
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Historical Backfill</h2>
+
+          {backfill ? (
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-600">Period</span>
+                <span className="text-sm font-medium text-gray-900">
+                  {backfill.startDate} to {backfill.endDate}
+                </span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-600">Progress</span>
+                <span className="text-sm font-medium text-gray-900">
+                  {backfillCompletedCount} of {backfill.windows.length} windows
+                  {backfill.completed && <span className="text-green-600"> ✓ Complete</span>}
+                </span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-600">Last Updated</span>
+                <span className="text-sm font-medium text-gray-900">{formatDate(backfill.updatedAt)}</span>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              No backfill has run yet. A backfill downloads the past 12 months in 14-day windows.
+            </p>
+          )}
+
+          {backfill?.lastError && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm font-medium text-red-900">Last Backfill Error:</p>
+              <p className="text-sm text-red-700 mt-1">{backfill.lastError}</p>
+              {backfill.lastCaptureId && (
+                <a href={`/captures/${backfill.lastCaptureId}?account=${account.id}`} className="inline-block text-sm text-blue-600 hover:text-blue-800 mt-2">
+                  View the failing page
+                </a>
+              )}
+            </div>
+          )}
+
+          {backfillError && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm font-medium text-red-900">Backfill Error:</p>
+              <p className="text-sm text-red-700 mt-1">{backfillError}</p>
             </div>
+          )}
+
+          <div className="mt-6 pt-6 border-t border-gray-200 flex gap-3">
+            {canResumeBackfill && (
+              <button
+                onClick={() => triggerBackfill(true)}
+                disabled={backfilling || syncing || isPending}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                {backfilling ? 'Backfilling...' : 'Resume Backfill'}
+              </button>
+            )}
+            <button
+              onClick={() => triggerBackfill(false)}
+              disabled={backfilling || syncing || isPending}
+              className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+            >
+              {backfilling ? 'Backfilling...' : backfill ? 'Start New Backfill' : 'Start Backfill'}
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mt-2">
+            Each run stops after about 4 minutes; resume to continue where it stopped
+          </p>
+        </div>
+
+        {/* Page Structure Check */}
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Page Structure Check</h2>
+
+          {canary ? (
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-600">Last Check</span>
+                <span className="text-sm font-medium text-gray-900">
+                  {formatDate(canary.checkedAt)}{' '}
+                  {canary.success ? (
+                    <span className="text-green-600">✓ Passed</span>
+                  ) : (
+                    <span className="text-red-600">✗ Failed</span>
+                  )}
+                </span>
+              </div>
+
+              <ul className="divide-y divide-gray-100">
+                {canary.steps.map((step, index) => (
+                  <li key={`${step.step}-${index}`} className="py-2">
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm">
+                        {step.passed ? (
+                          <span className="text-green-600">✓</span>
+                        ) : (
+                          <span className="text-red-600">✗</span>
+                        )}{' '}
+                        <span className="font-mono text-gray-900">{step.step}</span>
+                      </span>
+                      <span className="text-sm text-gray-500">{(step.durationMs / 1000).toFixed(1)}s</span>
+                    </div>
+                    {step.error && (
+                      <p className="text-sm text-red-700 mt-1">{step.error}</p>
+                    )}
+                    {step.captureId && (
+                      <a href={`/captures/${step.captureId}?account=${account.id}`} className="inline-block text-sm text-blue-600 hover:text-blue-800 mt-1">
+                        View the failing page
+                      </a>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {canary.errorDetails && (
+                <p className="text-sm text-red-700">What to do: {canary.errorDetails.action}</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              No check has run yet. The check logs in and walks to the export button without downloading,
+              so changes to Tandem Source show up before a sync fails.
+            </p>
+          )}
+
+          {checkError && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm font-medium text-red-900">Check Error:</p>
+              <p className="text-sm text-red-700 mt-1">{checkError}</p>
+            </div>
+          )}
+
+          <div className="mt-6 pt-6 border-t border-gray-200">
+            <button
+              onClick={triggerCanary}
+              disabled={checking || syncing || backfilling || isPending}
+              className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+            >
+              {checking ? 'Checking...' : 'Run Check Now'}
+            </button>
           </div>
         </div>
 
+        {/* Recent Failures */}
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Recent Failures</h2>
+
+          {captures.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No failures captured. When a sync, backfill or check fails, the page it failed on is kept here for a few days.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {captures.map((capture) => (
+                <li key={capture.id} className="py-2 flex justify-between items-center gap-4">
+                  <div className="text-sm min-w-0">
+                    <p className="text-gray-900">
+                      <span className="font-mono">{capture.errorCode || 'UNKNOWN'}</span>
+                      {' '}during <span className="font-mono">{capture.step}</span>
+                      <span className="text-gray-500">
+                        {' '}({capture.source})
+                      </span>
+                    </p>
+                    <p className="text-gray-600 truncate">{capture.message}</p>
+                    <p className="text-gray-500">
+                      {formatDate(capture.createdAt)} · expires {formatDate(capture.expiresAt)}
+                    </p>
+                  </div>
+                  <a href={`/captures/${capture.id}?account=${account.id}`} className="text-sm text-blue-600 hover:text-blue-700 font-medium shrink-0">
+                    View
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Export */}
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-1">Export</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Download the stored timeline for a date range as one file, each record once. Leave the dates empty for the
+            newest 30 days; a range can be up to 366 days.
+          </p>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm text-gray-600">
+              From
+              <input
+                type="date"
+                value={exportFrom}
+                onChange={(event) => setExportFrom(event.target.value)}
+                className="block mt-1 border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              To
+              <input
+                type="date"
+                value={exportTo}
+                onChange={(event) => setExportTo(event.target.value)}
+                className="block mt-1 border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              Format
+              <select
+                value={exportFormat}
+                onChange={(event) => setExportFormat(event.target.value as ExportFormat)}
+                className="block mt-1 border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+              >
+                <option value="csv">CSV</option>
+                <option value="ndjson">NDJSON</option>
+                <option value="sqlite">SQLite</option>
+              </select>
+            </label>
+            <button
+              onClick={downloadExport}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+            >
+              Download
+            </button>
+          </div>
+
+          {exportError && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm font-medium text-red-900">Export Error:</p>
+              <p className="text-sm text-red-700 mt-1">{exportError}</p>
+            </div>
+          )}
+        </div>
+
         {/* Recent Reports */}
         <div className="bg-white shadow rounded-lg p-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Recent Reports</h2>
@@ -209,6 +758,9 @@ export default function Dashboard({ status, reports, error: initialError, baseUr
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Date
                     </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Coverage
+                    </th>
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Size
                     </th>
@@ -222,10 +774,22 @@ export default function Dashboard({ status, reports, error: initialError, baseUr
                     <tr key={report.filename} className="hover:bg-gray-50">
                       <td className="px-4 py-3 text-sm font-medium text-gray-900">
                         {report.filename}
+                        {report.parseError && (
+                          <p className="text-xs font-normal text-red-600">
+                            Rejected, not in the timeline: {report.parseError.message}
+                          </p>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-600">
                         {formatDate(report.uploadedAt)}
                       </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {report.coverage ? (
+                          `${report.coverage.startDate} to ${report.coverage.endDate}`
+                        ) : (
+                          <span className="text-gray-400">Unknown</span>
+                        )}
+                      </td>
                       <td className="px-4 py-3 text-sm text-gray-600">
                         {formatFileSize(report.size)}
                       </td>
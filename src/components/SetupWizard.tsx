@@ -119,6 +119,10 @@ export default function SetupWizard() {
                   <span className="inline-block w-48 font-semibold text-gray-700">REPORT_DAYS</span>
                   <span className="text-gray-600">2</span>
                 </li>
+                <li className="flex items-start">
+                  <span className="inline-block w-48 font-semibold text-gray-700">TIME_ZONE</span>
+                  <span className="text-gray-600">your time zone, e.g. America/New_York</span>
+                </li>
                 <li className="flex items-start">
                   <span className="inline-block w-48 font-semibold text-gray-700">CRON_SECRET</span>
                   <span className="text-gray-600">(optional - any random string)</span>
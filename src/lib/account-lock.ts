@@ -0,0 +1,164 @@
+/**
+ * Per-account locks held in storage, so runs on different serverless
+ * instances (the hourly cron, a manual sync, a backfill) can't overwrite each
+ * other's timeline days
+ *
+ * A lock is a document that is only created if it doesn't exist yet. It
+ * carries an expiry, so a lock left behind by a run that was killed is taken
+ * over once it has expired
+ */
+
+import { randomUUID } from 'crypto';
+import { createLock, deleteLock, getLock } from './blob-storage';
+import type { AccountLease } from './types';
+
+// How often a waiting caller checks the lock again
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * A lock and how it is held
+ */
+export interface AccountLock {
+  name: string;
+  ttlMs: number; // Longer than the holder can run, so only a killed holder's lock expires
+  waitMs: number; // How long to wait for the lock before giving up
+}
+
+// Syncs and backfills of an account, one at a time. Outlives the 5 minute
+// function limit; a busy account is skipped rather than waited for
+export const RUN_LOCK: AccountLock = { name: 'run', ttlMs: 6 * 60 * 1000, waitMs: 0 };
+
+// Merges into an account's timeline, one at a time. Merges are quick, so
+// callers wait for each other
+export const TIMELINE_LOCK: AccountLock = { name: 'timeline', ttlMs: 2 * 60 * 1000, waitMs: 60 * 1000 };
+
+/**
+ * Thrown when an account's lock is still held after waiting for it
+ */
+export class AccountBusyError extends Error {
+  readonly lease: AccountLease | null;
+
+  constructor(accountId: string | undefined, lease: AccountLease | null) {
+    super(`A ${lease?.operation ?? 'sync'} is already in progress${accountId ? ` for account ${accountId}` : ''}`);
+    this.name = 'AccountBusyError';
+    this.lease = lease;
+  }
+}
+
+/**
+ * Waits for a number of milliseconds
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Deletes an expired lock, unless another caller is already taking it over
+ * Callers that find the same expired lock race to create a marker lock named
+ * after its owner. Only the one that creates the marker deletes the lock, and
+ * only if it still holds the expired lease, so a lock taken in the meantime
+ * is never deleted. A marker left by a killed caller expires like any lock
+ * @param expired - The lease the caller found, which may since have been replaced
+ * @param lease - The caller's own lease, used for the marker
+ * @returns true if the expired lock is gone
+ */
+export async function removeExpiredLock(
+  name: string,
+  expired: AccountLease,
+  lease: AccountLease,
+  accountId?: string
+): Promise<boolean> {
+  const marker = `${name}.${expired.owner}`;
+
+  if (!await createLock(marker, lease, accountId)) {
+    const taker = await getLock(marker, accountId);
+    if (taker && Date.parse(taker.expiresAt) <= Date.now()) {
+      await removeExpiredLock(marker, taker, lease, accountId);
+    }
+    return false;
+  }
+
+  try {
+    if ((await getLock(name, accountId))?.owner === expired.owner) {
+      console.warn(`[Lock] Taking over the expired ${name} lock of a ${expired.operation} (since ${expired.acquiredAt})`);
+      await deleteLock(name, accountId);
+    }
+    return true;
+  } finally {
+    await deleteLock(marker, accountId);
+  }
+}
+
+/**
+ * Takes an account's lock, taking over an expired one
+ * @returns The owner id to release it with
+ * @throws AccountBusyError if it is still held after lock.waitMs
+ */
+async function acquireLock(lock: AccountLock, operation: string, accountId?: string): Promise<string> {
+  const owner = randomUUID();
+  const deadline = Date.now() + lock.waitMs;
+
+  for (;;) {
+    const now = new Date();
+    const lease: AccountLease = {
+      owner,
+      operation,
+      acquiredAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + lock.ttlMs).toISOString(),
+    };
+
+    if (await createLock(lock.name, lease, accountId)) {
+      return owner;
+    }
+
+    const held = await getLock(lock.name, accountId);
+
+    // Released in the meantime
+    if (!held) continue;
+
+    if (Date.parse(held.expiresAt) <= Date.now() && await removeExpiredLock(lock.name, held, lease, accountId)) {
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new AccountBusyError(accountId, held);
+    }
+
+    await delay(POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * Releases a lock taken by acquireLock, unless it has since been taken over
+ * Never throws - an unreleased lock expires by itself
+ */
+async function releaseLock(lock: AccountLock, owner: string, accountId?: string): Promise<void> {
+  try {
+    const held = await getLock(lock.name, accountId);
+    if (held?.owner === owner) {
+      await deleteLock(lock.name, accountId);
+    }
+  } catch (error) {
+    console.warn(`[Lock] Could not release the ${lock.name} lock, it expires by itself:`, error);
+  }
+}
+
+/**
+ * Runs a function while holding one of an account's locks
+ * @param operation - What holds the lock, shown to callers that find it busy
+ * @throws AccountBusyError if the lock is still held after lock.waitMs
+ */
+export async function withAccountLock<T>(
+  accountId: string | undefined,
+  lock: AccountLock,
+  operation: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const owner = await acquireLock(lock, operation, accountId);
+
+  try {
+    return await fn();
+  } finally {
+    await releaseLock(lock, owner, accountId);
+  }
+}
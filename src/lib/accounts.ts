@@ -0,0 +1,206 @@
+/**
+ * Tandem Source accounts synced by this service
+ *
+ * A single account comes from TANDEM_USERNAME / TANDEM_PASSWORD. For several,
+ * list their ids in TANDEM_ACCOUNTS (e.g. "alex,sam") and set per-account
+ * variables named after the id, e.g. TANDEM_ALEX_USERNAME and TANDEM_ALEX_PASSWORD
+ * Region settings (TANDEM_ALEX_COUNTRY etc.) fall back to the global ones
+ */
+
+import { createMfaCodeProvider } from './mfa';
+import { getRegionFromEnv } from './region';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from './time-zone';
+import type { AccountSummary, MfaCodeProvider, NightscoutConfig, SyncResult, TandemAccount } from './types';
+
+// Id of the account configured by TANDEM_USERNAME / TANDEM_PASSWORD
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+const DEFAULT_REPORT_DAYS = 2;
+const DEFAULT_SYNC_INTERVAL_HOURS = 12;
+
+// Scheduled syncs run hourly, so allow for a cron run starting a little early
+const SCHEDULE_SLACK_MS = 10 * 60 * 1000;
+
+const ACCOUNT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+/**
+ * Lists the account ids in TANDEM_ACCOUNTS, or null if it isn't set
+ */
+function getAccountIds(): string[] | null {
+  const ids = process.env.TANDEM_ACCOUNTS?.split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  return ids && ids.length > 0 ? ids : null;
+}
+
+/**
+ * Prefix of an account's environment variables, e.g. TANDEM_ALEX_
+ */
+function envPrefix(id: string): string {
+  return `TANDEM_${id.toUpperCase().replace(/-/g, '_')}_`;
+}
+
+/**
+ * Parses a positive integer setting, falling back to a default
+ */
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Reads a time zone setting, falling back to UTC if it's missing or unknown
+ */
+function parseTimeZone(value: string | undefined): string {
+  if (!value) return DEFAULT_TIME_ZONE;
+
+  if (!isValidTimeZone(value)) {
+    console.warn(`[Accounts] Unknown time zone "${value}", using ${DEFAULT_TIME_ZONE}`);
+    return DEFAULT_TIME_ZONE;
+  }
+  return value;
+}
+
+/**
+ * Reads a Nightscout site setting, or undefined unless both the URL and API secret are set
+ */
+function parseNightscout(url: string | undefined, apiSecret: string | undefined): NightscoutConfig | undefined {
+  if (!url || !apiSecret) return undefined;
+  return { url: url.replace(/\/+$/, ''), apiSecret };
+}
+
+/**
+ * Lists the environment variables that must be set for the configured accounts
+ * @param accountId - Only list the variables of this account
+ */
+export function getRequiredAccountEnvVars(accountId?: string): string[] {
+  const ids = getAccountIds();
+  if (!ids) {
+    return ['TANDEM_USERNAME', 'TANDEM_PASSWORD'];
+  }
+
+  return ids
+    .filter(id => !accountId || id === accountId)
+    .flatMap(id => [`${envPrefix(id)}USERNAME`, `${envPrefix(id)}PASSWORD`]);
+}
+
+/**
+ * Reads the configured accounts
+ * Accounts with an invalid id, or missing a username or password, are left out
+ */
+export function getAccounts(): TandemAccount[] {
+  const ids = getAccountIds();
+
+  if (!ids) {
+    if (!process.env.TANDEM_USERNAME || !process.env.TANDEM_PASSWORD) {
+      return [];
+    }
+
+    return [{
+      id: DEFAULT_ACCOUNT_ID,
+      name: 'Default',
+      username: process.env.TANDEM_USERNAME,
+      password: process.env.TANDEM_PASSWORD,
+      reportDays: parsePositiveInt(process.env.REPORT_DAYS, DEFAULT_REPORT_DAYS),
+      syncIntervalHours: parsePositiveInt(process.env.SYNC_INTERVAL_HOURS, DEFAULT_SYNC_INTERVAL_HOURS),
+      timeZone: parseTimeZone(process.env.TIME_ZONE?.trim()),
+      region: getRegionFromEnv(),
+      nightscout: parseNightscout(process.env.NIGHTSCOUT_URL?.trim(), process.env.NIGHTSCOUT_API_SECRET),
+      totpSecret: process.env.TANDEM_TOTP_SECRET,
+      mfaMaildir: process.env.TANDEM_MFA_MAILDIR,
+    }];
+  }
+
+  const accounts: TandemAccount[] = [];
+
+  for (const id of ids) {
+    const env = (name: string) => process.env[`${envPrefix(id)}${name}`]?.trim() || undefined;
+    const username = env('USERNAME');
+    const password = process.env[`${envPrefix(id)}PASSWORD`];
+
+    if (!ACCOUNT_ID_PATTERN.test(id) || !username || !password) {
+      console.warn(`[Accounts] Skipping account "${id}" - invalid id or missing credentials`);
+      continue;
+    }
+
+    accounts.push({
+      id,
+      name: env('NAME') || id,
+      username,
+      password,
+      reportDays: parsePositiveInt(env('REPORT_DAYS') || process.env.REPORT_DAYS, DEFAULT_REPORT_DAYS),
+      syncIntervalHours: parsePositiveInt(env('SYNC_HOURS'), DEFAULT_SYNC_INTERVAL_HOURS),
+      timeZone: parseTimeZone(env('TIME_ZONE') || process.env.TIME_ZONE?.trim()),
+      region: getRegionFromEnv({
+        country: env('COUNTRY'),
+        language: env('LANGUAGE'),
+        locale: env('LOCALE'),
+        sourceBaseUrl: env('SOURCE_URL'),
+        ssoBaseUrl: env('SSO_URL'),
+      }),
+      nightscout: parseNightscout(env('NIGHTSCOUT_URL'), env('NIGHTSCOUT_API_SECRET')),
+      totpSecret: env('TOTP_SECRET'),
+      mfaMaildir: env('MFA_MAILDIR'),
+    });
+  }
+
+  return accounts;
+}
+
+/**
+ * Finds an account by id
+ * @param id - Account id, or null/undefined for the first account
+ * @returns The account, or null if there's no such account
+ */
+export function getAccount(id?: string | null): TandemAccount | null {
+  const accounts = getAccounts();
+
+  if (!id) {
+    return accounts[0] || null;
+  }
+
+  return accounts.find(account => account.id === id.toLowerCase()) || null;
+}
+
+/**
+ * The parts of an account that are safe to show (no credentials)
+ */
+export function toAccountSummary(account: TandemAccount): AccountSummary {
+  return {
+    id: account.id,
+    name: account.name,
+    reportDays: account.reportDays,
+    syncIntervalHours: account.syncIntervalHours,
+    timeZone: account.timeZone,
+  };
+}
+
+/**
+ * Creates the MFA code provider for an account
+ * @returns The provider, or undefined if MFA isn't configured for it
+ */
+export function createAccountMfaCodeProvider(account: TandemAccount): MfaCodeProvider | undefined {
+  return createMfaCodeProvider({ totpSecret: account.totpSecret, maildir: account.mfaMaildir });
+}
+
+/**
+ * When the next scheduled sync of an account is due
+ * @returns ISO 8601 timestamp, or null if it has never synced
+ */
+export function getNextScheduledSync(account: TandemAccount, lastSync: SyncResult | null): string | null {
+  if (!lastSync?.timestamp) {
+    return null;
+  }
+
+  const next = new Date(lastSync.timestamp).getTime() + account.syncIntervalHours * 60 * 60 * 1000;
+  return new Date(next).toISOString();
+}
+
+/**
+ * Whether a scheduled run should sync an account now
+ */
+export function isSyncDue(account: TandemAccount, lastSync: SyncResult | null, now: Date = new Date()): boolean {
+  const next = getNextScheduledSync(account, lastSync);
+  return !next || new Date(next).getTime() - SCHEDULE_SLACK_MS <= now.getTime();
+}
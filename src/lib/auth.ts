@@ -3,6 +3,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getAccount } from './accounts';
+import { verifyDownloadUrl } from './download-links';
+import type { TandemAccount } from './types';
 
 /**
  * Validates the API key from the request headers
@@ -58,6 +61,41 @@ export function requireApiKey(request: NextRequest): NextResponse | null {
   return null;
 }
 
+/**
+ * Like requireApiKey, but also accepts a link signed by signDownloadUrl, which
+ * is how the dashboard links to report downloads and exports
+ * @param request - The incoming request
+ * @returns null if allowed, error response if not
+ */
+export function requireApiKeyOrSignedUrl(request: NextRequest): NextResponse | null {
+  if (validateApiKey(request) || verifyDownloadUrl(request.nextUrl)) {
+    return null;
+  }
+  return unauthorizedResponse();
+}
+
+/**
+ * Resolves the ?account= query parameter to a configured account
+ * @param request - The incoming request
+ * @returns The account (the first one if no account is given), or an error response
+ */
+export function requireAccount(request: NextRequest): TandemAccount | NextResponse {
+  const accountId = request.nextUrl.searchParams.get('account');
+  const account = getAccount(accountId);
+
+  if (!account) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: accountId ? `Unknown account: ${accountId}` : 'No Tandem account is configured',
+      },
+      { status: 404 }
+    );
+  }
+
+  return account;
+}
+
 /**
  * Generates a secure random API key
  * @param length - Length of the key (default: 32)
@@ -0,0 +1,333 @@
+/**
+ * Historical backfill - downloads a long period as a series of date windows
+ * in one logged-in browser session, storing each window as its own report
+ */
+
+import { randomUUID } from 'crypto';
+import { RUN_LOCK, withAccountLock } from './account-lock';
+import {
+  getScraperModeFromEnv,
+  scrapeTandemSourceWindows,
+  validateScraperConfig,
+} from './tandem-scraper';
+import {
+  generateDataFilename,
+  generateReportFilename,
+  getBackfillState,
+  getBrowserSession,
+  storeBackfillState,
+  storeBrowserSession,
+  storeCapturedData,
+  storeReport,
+} from './blob-storage';
+import { parseTandemCsv } from './csv-parser';
+import { detectCsvSchema } from './csv-schema';
+import { addDays, toDateString } from './date-range';
+import { ScraperError } from './errors';
+import { createAccountMfaCodeProvider, getAccount } from './accounts';
+import { isFailureCaptureEnabled, recordFailureCapture } from './failure-captures';
+import { normalizeReportTimes } from './pump-time';
+import { mergeIntoTimeline } from './timeline';
+import type { BackfillState, BackfillWindow, DateRange, ParsedReport, TandemAccount } from './types';
+
+const DEFAULT_BACKFILL_DAYS = 365;
+const DEFAULT_WINDOW_DAYS = 14;
+const MAX_WINDOW_DAYS = 30; // Larger exports get slow and risk timing out
+const DEFAULT_TIME_BUDGET_MS = 240000; // 4 minutes, leaves headroom under the 5 minute function limit
+
+export interface BackfillOptions {
+  days?: number;
+  windowDays?: number;
+  resume?: boolean;
+  timeBudgetMs?: number;
+  accountId?: string; // Defaults to the first account
+}
+
+/**
+ * Splits a period ending at `endDate` into windows, newest first
+ * Working backwards means recent history becomes available first
+ */
+export function planBackfillWindows(
+  endDate: string,
+  days: number,
+  windowDays: number
+): DateRange[] {
+  const windows: DateRange[] = [];
+  const firstDay = addDays(endDate, -(days - 1));
+
+  let windowEnd = endDate;
+  while (windowEnd >= firstDay) {
+    const candidateStart = addDays(windowEnd, -(windowDays - 1));
+    const windowStart = candidateStart < firstDay ? firstDay : candidateStart;
+
+    windows.push({ startDate: windowStart, endDate: windowEnd });
+    windowEnd = addDays(windowStart, -1);
+  }
+
+  return windows;
+}
+
+/**
+ * Checks the length of a backfill and of its windows
+ * @throws Error if either isn't a whole number of days in range
+ */
+function checkBackfillSize(days: number, windowDays: number): void {
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error('Backfill days must be a positive integer');
+  }
+
+  if (!Number.isInteger(windowDays) || windowDays < 1 || windowDays > MAX_WINDOW_DAYS) {
+    throw new Error(`Backfill window must be between 1 and ${MAX_WINDOW_DAYS} days`);
+  }
+}
+
+/**
+ * Reads the options of POST /api/backfill from its JSON body
+ * @param body - The parsed body, or undefined if it was empty
+ * @throws Error if a field has the wrong type or is out of range
+ */
+export function parseBackfillOptions(body: unknown): Pick<BackfillOptions, 'days' | 'windowDays' | 'resume'> {
+  if (body === undefined) {
+    return {};
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new Error('The body must be a JSON object');
+  }
+
+  const { days, windowDays, resume } = body as Record<string, unknown>;
+
+  if (days !== undefined && typeof days !== 'number') {
+    throw new Error('Backfill days must be a positive integer');
+  }
+
+  if (windowDays !== undefined && typeof windowDays !== 'number') {
+    throw new Error(`Backfill window must be between 1 and ${MAX_WINDOW_DAYS} days`);
+  }
+
+  if (resume !== undefined && typeof resume !== 'boolean') {
+    throw new Error('resume must be true or false');
+  }
+
+  checkBackfillSize(days ?? DEFAULT_BACKFILL_DAYS, windowDays ?? DEFAULT_WINDOW_DAYS);
+
+  return { days, windowDays, resume };
+}
+
+/**
+ * Creates a fresh backfill plan ending yesterday
+ * Today (in the account's time zone) is left to the regular sync since its data is still incomplete
+ */
+function createBackfillState(days: number, windowDays: number, timeZone: string): BackfillState {
+  const endDate = addDays(toDateString(new Date(), timeZone), -1);
+  const now = new Date().toISOString();
+
+  const windows: BackfillWindow[] = planBackfillWindows(endDate, days, windowDays)
+    .map(window => ({ ...window, status: 'pending' }));
+
+  return {
+    startDate: windows[windows.length - 1].startDate,
+    endDate,
+    windowDays,
+    windows,
+    startedAt: now,
+    updatedAt: now,
+    completed: false,
+  };
+}
+
+/**
+ * Runs the windows of a backfill, with the options already checked
+ */
+async function runBackfill(
+  account: TandemAccount,
+  options: Required<Omit<BackfillOptions, 'accountId'>>
+): Promise<BackfillState> {
+  const { days, windowDays, resume, timeBudgetMs } = options;
+
+  let state = resume ? await getBackfillState(account.id) : null;
+
+  if (!state) {
+    state = createBackfillState(days, windowDays, account.timeZone);
+    console.log(`[Backfill] Starting new backfill ${state.startDate} to ${state.endDate} (${state.windows.length} windows)`);
+  } else {
+    console.log(`[Backfill] Resuming backfill ${state.startDate} to ${state.endDate}`);
+  }
+
+  // Failed windows are retried on resume
+  const remaining = state.windows.filter(window => window.status !== 'completed');
+
+  if (remaining.length === 0) {
+    state.completed = true;
+    state.updatedAt = new Date().toISOString();
+    await storeBackfillState(state, account.id);
+    return state;
+  }
+
+  await storeBackfillState(state, account.id);
+
+  const runStartedAt = Date.now();
+  const backfill = state;
+  const savedSession = await getBrowserSession(account.id);
+
+  const result = await scrapeTandemSourceWindows(
+    {
+      username: account.username,
+      password: account.password,
+      reportDays: windowDays,
+      timeZone: account.timeZone,
+      timeout: 180000, // 3 minutes
+      session: savedSession ?? undefined,
+      mfaCodeProvider: createAccountMfaCodeProvider(account),
+      region: account.region,
+      mode: getScraperModeFromEnv(),
+      captureOnFailure: isFailureCaptureEnabled(),
+    },
+    remaining.map(({ startDate, endDate }) => ({ startDate, endDate })),
+    async (window, scraperResult) => {
+      const entry = backfill.windows.find(w =>
+        w.startDate === window.startDate && w.endDate === window.endDate
+      )!;
+
+      const coverage = {
+        startDate: scraperResult.metadata!.startDate,
+        endDate: scraperResult.metadata!.endDate,
+      };
+
+      const storedAt = new Date();
+
+      // A changed or malformed export stops the backfill like a failed download
+      let schemaVersion: string | undefined;
+      let parsed: ParsedReport | undefined;
+      if (scraperResult.csvBuffer) {
+        try {
+          schemaVersion = detectCsvSchema(scraperResult.csvBuffer);
+          parsed = parseTandemCsv(scraperResult.csvBuffer);
+        } catch (error) {
+          if (!(error instanceof ScraperError) || (error.code !== 'FORMAT_CHANGED' && error.code !== 'DOWNLOAD_INVALID')) {
+            throw error;
+          }
+
+          // Keep the raw file and the reason for inspection, like a sync does
+          const { filename } = await storeReport(scraperResult.csvBuffer, generateReportFilename(storedAt), {
+            coverage,
+            source: 'backfill',
+            schemaVersion,
+            parseError: error.toInfo(),
+          }, account.id);
+          console.log(`[Backfill] Rejected report kept as ${filename}`);
+
+          throw new ScraperError(error.code, error.step, `${error.message} (the report was kept as ${filename})`, {
+            formatDiff: error.formatDiff,
+          });
+        }
+      }
+
+      const filename = scraperResult.csvBuffer
+        ? (await storeReport(scraperResult.csvBuffer, generateReportFilename(storedAt), {
+          coverage,
+          source: 'backfill',
+          schemaVersion,
+        }, account.id)).filename
+        : undefined;
+
+      const dataFilename = scraperResult.jsonData
+        ? (await storeCapturedData(scraperResult.jsonData, generateDataFilename(storedAt), account.id)).filename
+        : undefined;
+
+      if (parsed) {
+        await mergeIntoTimeline(await normalizeReportTimes(parsed, account.timeZone, account.id), {
+          filename,
+          coverage,
+          downloadedAt: scraperResult.metadata!.downloadedAt,
+        }, account.id);
+      }
+
+      entry.status = 'completed';
+      entry.filename = filename;
+      entry.dataFilename = dataFilename;
+      entry.coverage = coverage;
+      entry.error = undefined;
+      entry.completedAt = new Date().toISOString();
+      backfill.updatedAt = entry.completedAt;
+
+      // Persist after every window so an interrupted run can resume
+      await storeBackfillState(backfill, account.id);
+
+      console.log(`[Backfill] Stored window ${coverage.startDate} to ${coverage.endDate}: ${filename || dataFilename}`);
+
+      return Date.now() - runStartedAt < timeBudgetMs;
+    }
+  );
+
+  if (result.session) {
+    await storeBrowserSession(result.session, account.id);
+  }
+
+  if (!result.success) {
+    console.error('[Backfill] Scraper failed:', result.error);
+
+    const failed = result.failedWindow && backfill.windows.find(w =>
+      w.startDate === result.failedWindow!.startDate && w.endDate === result.failedWindow!.endDate
+    );
+    if (failed) {
+      failed.status = 'failed';
+      failed.error = result.error;
+    }
+
+    backfill.lastError = result.error;
+    backfill.lastCaptureId = result.failureCapture && await recordFailureCapture({
+      runId: randomUUID(),
+      source: 'backfill',
+      accountId: account.id,
+      failure: result.failureCapture,
+      errorCode: result.errorCode,
+      message: result.error || 'Backfill failed',
+    });
+  } else {
+    backfill.lastError = undefined;
+    backfill.lastCaptureId = undefined;
+  }
+
+  backfill.completed = backfill.windows.every(window => window.status === 'completed');
+  backfill.updatedAt = new Date().toISOString();
+  await storeBackfillState(backfill, account.id);
+
+  const completedCount = backfill.windows.filter(window => window.status === 'completed').length;
+  console.log(`[Backfill] ${completedCount}/${backfill.windows.length} windows completed`);
+
+  return backfill;
+}
+
+/**
+ * Runs (or resumes) a historical backfill
+ * Stops after the time budget is used up; call again with `resume` to continue
+ * Holds the account's run lock, shared with syncs
+ * @returns The backfill state after this run
+ * @throws AccountBusyError if the account is already syncing or backfilling
+ */
+export async function performBackfill(options: BackfillOptions = {}): Promise<BackfillState> {
+  const {
+    days = DEFAULT_BACKFILL_DAYS,
+    windowDays = DEFAULT_WINDOW_DAYS,
+    resume = false,
+    timeBudgetMs = DEFAULT_TIME_BUDGET_MS,
+    accountId,
+  } = options;
+
+  const account = getAccount(accountId);
+  if (!account) {
+    throw new Error(`Unknown account: ${accountId}`);
+  }
+
+  const configValidation = validateScraperConfig(account);
+  if (!configValidation.valid) {
+    throw new Error(`Missing required configuration: ${configValidation.missing.join(', ')}`);
+  }
+
+  checkBackfillSize(days, windowDays);
+
+  return withAccountLock(account.id, RUN_LOCK, 'backfill', () =>
+    runBackfill(account, { days, windowDays, resume, timeBudgetMs })
+  );
+}
@@ -1,17 +1,93 @@
 /**
  * Storage utilities for managing CSV reports
  * Supports both Vercel Blob (production) and local filesystem (development)
+ *
+ * Blobs can be fetched by anyone with their URL, so everything uploaded is
+ * encrypted first and blob URLs never leave the server: reports are
+ * downloaded through GET /api/reports/[filename]
  */
 
-import { put, list, del } from '@vercel/blob';
+import { put, list, del, BlobError } from '@vercel/blob';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import type { ReportMetadata, SyncResult } from './types';
+import { DEFAULT_ACCOUNT_ID } from './accounts';
+import {
+  decryptJson,
+  decryptStoredFile,
+  encryptJson,
+  encryptStoredFile,
+  getEncryptionKey,
+  getStorageEncryptionKeys,
+  isEncryptedStoredFile,
+} from './encryption';
+import type { EncryptedPayload } from './encryption';
+import type {
+  AccountLease,
+  BackfillState,
+  BrowserSession,
+  CanaryReport,
+  CapturedData,
+  ChangeLogIndex,
+  FailureCaptureRecord,
+  NightscoutState,
+  PageCapture,
+  PendingTimelineChanges,
+  ReportMetadata,
+  ReportTags,
+  SyncResult,
+  TimelineChange,
+  TimelineDay,
+  TimelineDaySummary,
+} from './types';
 
 // Local storage directory
 const LOCAL_STORAGE_DIR = path.join(process.cwd(), 'local-storage');
-const LOCAL_REPORTS_DIR = path.join(LOCAL_STORAGE_DIR, 'reports');
-const LOCAL_SYNC_STATUS_FILE = path.join(LOCAL_STORAGE_DIR, 'sync-status.json');
+
+// JSON documents (stored at the root of the local directory / blob store,
+// or under the account's prefix - see accountPath)
+const SYNC_STATUS_DOCUMENT = 'sync-status.json';
+const REPORT_INDEX_DOCUMENT = 'report-index.json';
+const BACKFILL_STATE_DOCUMENT = 'backfill-state.json';
+const BROWSER_SESSION_DOCUMENT = 'browser-session.json';
+const CANARY_STATUS_DOCUMENT = 'canary-status.json';
+const FAILURE_CAPTURE_INDEX_DOCUMENT = 'failure-captures.json';
+const TIMELINE_INDEX_DOCUMENT = 'timeline-index.json';
+const CHANGE_LOG_INDEX_DOCUMENT = 'changes-index.json';
+const PENDING_CHANGES_DOCUMENT = 'changes-pending.json';
+const NIGHTSCOUT_STATE_DOCUMENT = 'nightscout-state.json';
+
+// Screenshots and HTML of failing scraper steps, named by capture id
+const FAILURE_CAPTURE_DIR = 'captures';
+
+// Account locks, one JSON document per lock (<name>.json)
+const LOCK_DIR = 'locks';
+
+// Canonical timeline, one JSON document per pump-local day (YYYY-MM-DD.json)
+const TIMELINE_DIR = 'timeline';
+
+// Timeline change log, in numbered segments (<id>.json)
+const CHANGE_LOG_DIR = 'changes';
+
+/**
+ * Tags for each stored report, keyed by filename
+ */
+type ReportIndex = Record<string, ReportTags>;
+
+/**
+ * Storage path of an account's report or document
+ * The default account keeps the original unprefixed layout, other accounts
+ * live under accounts/<id>/
+ */
+function accountPath(name: string, accountId?: string): string {
+  return accountId && accountId !== DEFAULT_ACCOUNT_ID ? `accounts/${accountId}/${name}` : name;
+}
+
+/**
+ * Local directory holding an account's reports
+ */
+function localReportsDir(accountId?: string): string {
+  return path.join(LOCAL_STORAGE_DIR, accountPath('reports', accountId));
+}
 
 /**
  * Determines if we should use local filesystem storage
@@ -23,20 +99,30 @@ function isLocalMode(): boolean {
 
 /**
  * Generates a filename for a CSV report based on timestamp
- * @param timestamp - ISO timestamp
- * @returns Filename in format: tandem-report-YYYY-MM-DD-HHmmss.csv
+ * @param timestamp - When the report was stored
+ * @returns Filename in format: tandem-report-YYYY-MM-DD-HHmmss.csv (UTC, like every other stored timestamp)
  */
 export function generateReportFilename(timestamp: Date = new Date()): string {
-  const year = timestamp.getFullYear();
-  const month = String(timestamp.getMonth() + 1).padStart(2, '0');
-  const day = String(timestamp.getDate()).padStart(2, '0');
-  const hours = String(timestamp.getHours()).padStart(2, '0');
-  const minutes = String(timestamp.getMinutes()).padStart(2, '0');
-  const seconds = String(timestamp.getSeconds()).padStart(2, '0');
+  const year = timestamp.getUTCFullYear();
+  const month = String(timestamp.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(timestamp.getUTCDate()).padStart(2, '0');
+  const hours = String(timestamp.getUTCHours()).padStart(2, '0');
+  const minutes = String(timestamp.getUTCMinutes()).padStart(2, '0');
+  const seconds = String(timestamp.getUTCSeconds()).padStart(2, '0');
 
   return `tandem-report-${year}-${month}-${day}-${hours}${minutes}${seconds}.csv`;
 }
 
+/**
+ * Generates the filename for captured JSON data, matching the report filename
+ * @returns Filename in format: tandem-data-YYYY-MM-DD-HHmmss.json
+ */
+export function generateDataFilename(timestamp: Date = new Date()): string {
+  return generateReportFilename(timestamp)
+    .replace(/^tandem-report-/, 'tandem-data-')
+    .replace(/\.csv$/, '.json');
+}
+
 // ============================================================================
 // LOCAL FILESYSTEM IMPLEMENTATIONS
 // ============================================================================
@@ -46,16 +132,18 @@ export function generateReportFilename(timestamp: Date = new Date()): string {
  */
 async function storeReportLocal(
   csvBuffer: Buffer,
-  filename: string
+  filename: string,
+  accountId?: string
 ): Promise<{ url: string; filename: string }> {
-  await fs.mkdir(LOCAL_REPORTS_DIR, { recursive: true });
-  const filePath = path.join(LOCAL_REPORTS_DIR, filename);
+  const reportsDir = localReportsDir(accountId);
+  await fs.mkdir(reportsDir, { recursive: true });
+  const filePath = path.join(reportsDir, filename);
   await fs.writeFile(filePath, csvBuffer);
 
   console.log(`[Local Storage] Report stored: ${filename}`);
 
   return {
-    url: `file://${filePath}`,
+    url: reportDownloadPath(filename, accountId),
     filename,
   };
 }
@@ -63,21 +151,22 @@ async function storeReportLocal(
 /**
  * Lists reports from local filesystem
  */
-async function listReportsLocal(): Promise<ReportMetadata[]> {
+async function listReportsLocal(accountId?: string): Promise<ReportMetadata[]> {
   try {
-    await fs.mkdir(LOCAL_REPORTS_DIR, { recursive: true });
-    const files = await fs.readdir(LOCAL_REPORTS_DIR);
+    const reportsDir = localReportsDir(accountId);
+    await fs.mkdir(reportsDir, { recursive: true });
+    const files = await fs.readdir(reportsDir);
 
     const reports: ReportMetadata[] = [];
 
     for (const filename of files) {
       if (filename.startsWith('tandem-report-') && filename.endsWith('.csv')) {
-        const filePath = path.join(LOCAL_REPORTS_DIR, filename);
+        const filePath = path.join(reportsDir, filename);
         const stats = await fs.stat(filePath);
 
         reports.push({
           filename,
-          url: `file://${filePath}`,
+          url: reportDownloadPath(filename, accountId),
           size: stats.size,
           uploadedAt: stats.mtime.toISOString(),
           downloadedAt: stats.mtime.toISOString(),
@@ -99,32 +188,139 @@ async function listReportsLocal(): Promise<ReportMetadata[]> {
 }
 
 /**
- * Stores sync status to local filesystem
+ * Stores a JSON document to local filesystem
+ */
+async function storeJsonLocal(name: string, data: unknown): Promise<void> {
+  const filePath = path.join(LOCAL_STORAGE_DIR, name);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const json = JSON.stringify(data, null, 2);
+  await fs.writeFile(filePath, json, 'utf-8');
+}
+
+/**
+ * Retrieves a JSON document from local filesystem
  */
-async function storeSyncStatusLocal(syncResult: SyncResult): Promise<void> {
+async function getJsonLocal<T>(name: string): Promise<T | null> {
   try {
-    await fs.mkdir(LOCAL_STORAGE_DIR, { recursive: true });
-    const statusJson = JSON.stringify(syncResult, null, 2);
-    await fs.writeFile(LOCAL_SYNC_STATUS_FILE, statusJson, 'utf-8');
-    console.log('[Local Storage] Sync status stored');
-  } catch (error) {
-    console.error('[Local Storage] Error storing sync status:', error);
+    const data = await fs.readFile(path.join(LOCAL_STORAGE_DIR, name), 'utf-8');
+    return JSON.parse(data) as T;
+  } catch {
+    // File doesn't exist yet
+    return null;
+  }
+}
+
+// ============================================================================
+// BLOB STORE (encrypted at rest)
+// ============================================================================
+
+/**
+ * Uploads a file to the blob store, encrypted with the storage key
+ * @returns The blob URL, for server-side use only
+ * @throws Error if neither STORAGE_ENCRYPTION_KEY nor API_KEY is set
+ */
+async function putBlob(pathname: string, content: Buffer | string, allowOverwrite = false): Promise<string> {
+  const [key] = getStorageEncryptionKeys();
+  if (!key) {
+    throw new Error('STORAGE_ENCRYPTION_KEY or API_KEY must be set to encrypt stored data');
+  }
+
+  const plaintext = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+  const blob = await put(pathname, encryptStoredFile(plaintext, key), {
+    access: 'public',
+    contentType: 'application/octet-stream',
+    allowOverwrite,
+  });
+
+  return blob.url;
+}
+
+/**
+ * Downloads a blob and decrypts it
+ * Files uploaded before encryption was added are returned as they are
+ */
+async function fetchBlob(url: string, pathname: string): Promise<Buffer> {
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${pathname}: ${response.status}`);
   }
+
+  const contents = Buffer.from(await response.arrayBuffer());
+  return isEncryptedStoredFile(contents) ? decryptStoredFile(contents, getStorageEncryptionKeys()) : contents;
+}
+
+/**
+ * Path of the authenticated route that downloads a report
+ */
+function reportDownloadPath(filename: string, accountId?: string): string {
+  return `/api/reports/${encodeURIComponent(filename)}?account=${accountId ?? DEFAULT_ACCOUNT_ID}`;
+}
+
+// ============================================================================
+// JSON DOCUMENTS (routes to local or production)
+// ============================================================================
+
+/**
+ * Stores a small JSON document, overwriting any previous version
+ */
+async function storeJson(name: string, data: unknown): Promise<void> {
+  if (isLocalMode()) {
+    return storeJsonLocal(name, data);
+  }
+
+  await putBlob(name, JSON.stringify(data, null, 2), true);
+}
+
+/**
+ * Retrieves a JSON document
+ * @returns The parsed document, or null if it doesn't exist
+ */
+async function getJson<T>(name: string): Promise<T | null> {
+  if (isLocalMode()) {
+    return getJsonLocal<T>(name);
+  }
+
+  const { blobs } = await list({
+    prefix: name,
+    limit: 1,
+  });
+
+  if (blobs.length === 0 || blobs[0].pathname !== name) {
+    return null;
+  }
+
+  const contents = await fetchBlob(blobs[0].url, name);
+  return JSON.parse(contents.toString('utf-8')) as T;
 }
 
 /**
- * Retrieves sync status from local filesystem
+ * Reads the report index, treating a missing or unreadable index as empty
  */
-async function getSyncStatusLocal(): Promise<SyncResult | null> {
+async function getReportIndex(accountId?: string): Promise<ReportIndex> {
   try {
-    const data = await fs.readFile(LOCAL_SYNC_STATUS_FILE, 'utf-8');
-    return JSON.parse(data) as SyncResult;
+    return await getJson<ReportIndex>(accountPath(REPORT_INDEX_DOCUMENT, accountId)) || {};
   } catch (error) {
-    // File doesn't exist yet
-    return null;
+    console.error('[Storage] Error reading report index:', error);
+    return {};
   }
 }
 
+/**
+ * Records tags for a stored report in the report index
+ */
+async function tagReport(filename: string, tags: ReportTags, accountId?: string): Promise<void> {
+  const index = await getReportIndex(accountId);
+  index[filename] = tags;
+  await storeJson(accountPath(REPORT_INDEX_DOCUMENT, accountId), index);
+}
+
+/**
+ * Adds index tags (coverage, source) to listed reports
+ */
+function applyReportTags(reports: ReportMetadata[], index: ReportIndex): ReportMetadata[] {
+  return reports.map(report => ({ ...report, ...index[report.filename] }));
+}
+
 // ============================================================================
 // PUBLIC API (routes to local or production)
 // ============================================================================
@@ -133,53 +329,104 @@ async function getSyncStatusLocal(): Promise<SyncResult | null> {
  * Stores a CSV report
  * @param csvBuffer - The CSV file content as a Buffer
  * @param filename - Optional custom filename (will be auto-generated if not provided)
+ * @param tags - Optional coverage/source tags for the report index
+ * @param accountId - Account the report belongs to (default: the default account)
  * @returns The blob URL and metadata
  */
 export async function storeReport(
   csvBuffer: Buffer,
-  filename?: string
+  filename?: string,
+  tags?: ReportTags,
+  accountId?: string
 ): Promise<{ url: string; filename: string }> {
   const reportFilename = filename || generateReportFilename();
 
+  let stored: { url: string; filename: string };
+
   if (isLocalMode()) {
-    return storeReportLocal(csvBuffer, reportFilename);
+    stored = await storeReportLocal(csvBuffer, reportFilename, accountId);
+  } else {
+    try {
+      await putBlob(accountPath(reportFilename, accountId), csvBuffer);
+
+      console.log(`[Blob Storage] Report stored successfully: ${reportFilename}`);
+
+      stored = {
+        url: reportDownloadPath(reportFilename, accountId),
+        filename: reportFilename,
+      };
+    } catch (error) {
+      console.error('[Blob Storage] Error storing report:', error);
+      throw new Error(`Failed to store report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
-  try {
-    const blob = await put(reportFilename, csvBuffer, {
-      access: 'public',
-      contentType: 'text/csv',
-    });
+  if (tags) {
+    try {
+      await tagReport(reportFilename, tags, accountId);
+    } catch (error) {
+      // The report itself is stored; a missing tag only loses coverage info
+      console.error('[Storage] Error tagging report:', error);
+    }
+  }
 
-    console.log(`[Blob Storage] Report stored successfully: ${reportFilename}`);
+  return stored;
+}
 
-    return {
-      url: blob.url,
-      filename: reportFilename,
-    };
+/**
+ * Stores JSON data captured from the Source web app, next to the CSV reports
+ * @param data - The captured responses
+ * @param filename - Optional custom filename (will be auto-generated if not provided)
+ * @param accountId - Account the data belongs to (default: the default account)
+ */
+export async function storeCapturedData(
+  data: CapturedData,
+  filename?: string,
+  accountId?: string
+): Promise<{ url: string; filename: string }> {
+  const dataFilename = filename || generateDataFilename();
+  const json = JSON.stringify(data);
+
+  if (isLocalMode()) {
+    const reportsDir = localReportsDir(accountId);
+    await fs.mkdir(reportsDir, { recursive: true });
+    const filePath = path.join(reportsDir, dataFilename);
+    await fs.writeFile(filePath, json, 'utf-8');
+
+    console.log(`[Local Storage] Captured data stored: ${dataFilename}`);
+    return { url: `file://${filePath}`, filename: dataFilename };
+  }
+
+  try {
+    const url = await putBlob(accountPath(dataFilename, accountId), json);
+
+    console.log(`[Blob Storage] Captured data stored successfully: ${dataFilename}`);
+    return { url, filename: dataFilename };
   } catch (error) {
-    console.error('[Blob Storage] Error storing report:', error);
-    throw new Error(`Failed to store report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.error('[Blob Storage] Error storing captured data:', error);
+    throw new Error(`Failed to store captured data: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Lists all stored reports with metadata
+ * Lists all stored reports of an account with metadata
+ * @param accountId - Account to list (default: the default account)
  * @returns Array of report metadata objects
  */
-export async function listReports(): Promise<ReportMetadata[]> {
+export async function listReports(accountId?: string): Promise<ReportMetadata[]> {
   if (isLocalMode()) {
-    return listReportsLocal();
+    return applyReportTags(await listReportsLocal(accountId), await getReportIndex(accountId));
   }
 
   try {
+    const prefix = accountPath('', accountId);
     const { blobs } = await list({
-      prefix: 'tandem-report-',
+      prefix: `${prefix}tandem-report-`,
     });
 
     const reports: ReportMetadata[] = blobs.map((blob) => ({
-      filename: blob.pathname,
-      url: blob.url,
+      filename: blob.pathname.slice(prefix.length),
+      url: reportDownloadPath(blob.pathname.slice(prefix.length), accountId),
       size: blob.size,
       uploadedAt: blob.uploadedAt.toISOString(),
       downloadedAt: blob.uploadedAt.toISOString(), // Using upload time as proxy for download time
@@ -190,21 +437,51 @@ export async function listReports(): Promise<ReportMetadata[]> {
       new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime()
     );
 
-    return reports;
+    return applyReportTags(reports, await getReportIndex(accountId));
   } catch (error) {
     console.error('[Blob Storage] Error listing reports:', error);
     throw new Error(`Failed to list reports: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * Reads a stored report, decrypted
+ * @param filename - The report's filename, as listed by listReports
+ * @param accountId - Account the report belongs to (default: the default account)
+ * @returns The report contents, or null if it doesn't exist or isn't a report
+ */
+export async function getReportContent(filename: string, accountId?: string): Promise<Buffer | null> {
+  // Only reports: other documents share the account's storage prefix
+  if (!filename.startsWith('tandem-report-') || !filename.endsWith('.csv')) {
+    return null;
+  }
+
+  if (isLocalMode()) {
+    try {
+      return await fs.readFile(path.join(localReportsDir(accountId), filename));
+    } catch {
+      return null;
+    }
+  }
+
+  return getFile(accountPath(filename, accountId));
+}
+
 /**
  * Deletes a report from blob storage
  * @param filename - The filename to delete
+ * @param accountId - Account the report belongs to (default: the default account)
  */
-export async function deleteReport(filename: string): Promise<void> {
+export async function deleteReport(filename: string, accountId?: string): Promise<void> {
   try {
-    await del(filename);
+    await del(accountPath(filename, accountId));
     console.log(`[Blob Storage] Report deleted: ${filename}`);
+
+    const index = await getReportIndex(accountId);
+    if (index[filename]) {
+      delete index[filename];
+      await storeJson(accountPath(REPORT_INDEX_DOCUMENT, accountId), index);
+    }
   } catch (error) {
     console.error('[Blob Storage] Error deleting report:', error);
     throw new Error(`Failed to delete report: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -215,62 +492,482 @@ export async function deleteReport(filename: string): Promise<void> {
  * Stores sync status information
  * This is a simple JSON file to track the last sync operation
  * @param syncResult - The sync result to store
+ * @param accountId - Account that was synced (default: the default account)
  */
-export async function storeSyncStatus(syncResult: SyncResult): Promise<void> {
-  if (isLocalMode()) {
-    return storeSyncStatusLocal(syncResult);
+export async function storeSyncStatus(syncResult: SyncResult, accountId?: string): Promise<void> {
+  try {
+    await storeJson(accountPath(SYNC_STATUS_DOCUMENT, accountId), syncResult);
+    console.log('[Storage] Sync status stored successfully');
+  } catch (error) {
+    console.error('[Storage] Error storing sync status:', error);
+    // Don't throw - this is non-critical
   }
+}
 
+/**
+ * Retrieves the last sync status
+ * @returns The last sync result, or null if not found
+ */
+export async function getSyncStatus(accountId?: string): Promise<SyncResult | null> {
   try {
-    const statusJson = JSON.stringify(syncResult, null, 2);
-    await put('sync-status.json', statusJson, {
-      access: 'public',
-      contentType: 'application/json',
-    });
+    return await getJson<SyncResult>(accountPath(SYNC_STATUS_DOCUMENT, accountId));
+  } catch (error) {
+    console.error('[Storage] Error retrieving sync status:', error);
+    return null;
+  }
+}
+
+/**
+ * Stores the progress of a historical backfill
+ * @param state - The backfill state to store
+ * @param accountId - Account being backfilled (default: the default account)
+ */
+export async function storeBackfillState(state: BackfillState, accountId?: string): Promise<void> {
+  try {
+    await storeJson(accountPath(BACKFILL_STATE_DOCUMENT, accountId), state);
+  } catch (error) {
+    console.error('[Storage] Error storing backfill state:', error);
+    throw new Error(`Failed to store backfill state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Retrieves the progress of the last historical backfill
+ * @returns The backfill state, or null if no backfill has run
+ */
+export async function getBackfillState(accountId?: string): Promise<BackfillState | null> {
+  try {
+    return await getJson<BackfillState>(accountPath(BACKFILL_STATE_DOCUMENT, accountId));
+  } catch (error) {
+    console.error('[Storage] Error retrieving backfill state:', error);
+    return null;
+  }
+}
+
+/**
+ * Stores the browser session from a successful login, encrypted
+ * Skipped (with a warning) if no encryption key is configured
+ * @param session - Cookies and local storage to reuse on the next run
+ * @param accountId - Account the session is logged in to (default: the default account)
+ */
+export async function storeBrowserSession(session: BrowserSession, accountId?: string): Promise<void> {
+  const key = getEncryptionKey();
+  if (!key) {
+    console.warn('[Storage] No SESSION_ENCRYPTION_KEY or API_KEY configured, not saving browser session');
+    return;
+  }
+
+  try {
+    await storeJson(accountPath(BROWSER_SESSION_DOCUMENT, accountId), encryptJson(session, key));
+    console.log('[Storage] Browser session stored');
+  } catch (error) {
+    console.error('[Storage] Error storing browser session:', error);
+    // Don't throw - the next run will just log in again
+  }
+}
 
-    console.log('[Blob Storage] Sync status stored successfully');
+/**
+ * Retrieves and decrypts the saved browser session
+ * @returns The session, or null if none is saved or it can't be decrypted
+ */
+export async function getBrowserSession(accountId?: string): Promise<BrowserSession | null> {
+  const key = getEncryptionKey();
+  if (!key) {
+    return null;
+  }
+
+  try {
+    const payload = await getJson<EncryptedPayload>(accountPath(BROWSER_SESSION_DOCUMENT, accountId));
+    return payload ? decryptJson<BrowserSession>(payload, key) : null;
   } catch (error) {
-    console.error('[Blob Storage] Error storing sync status:', error);
+    // Most likely the encryption key changed
+    console.error('[Storage] Error retrieving browser session:', error);
+    return null;
+  }
+}
+
+/**
+ * Stores the result of an account's last canary (check mode) run
+ * @param report - The canary report to store
+ */
+export async function storeCanaryStatus(report: CanaryReport, accountId?: string): Promise<void> {
+  try {
+    await storeJson(accountPath(CANARY_STATUS_DOCUMENT, accountId), report);
+    console.log('[Storage] Canary status stored successfully');
+  } catch (error) {
+    console.error('[Storage] Error storing canary status:', error);
     // Don't throw - this is non-critical
   }
 }
 
 /**
- * Retrieves the last sync status
- * @returns The last sync result, or null if not found
+ * Retrieves the result of an account's last canary run
+ * @returns The canary report, or null if the canary hasn't run for the account yet
+ */
+export async function getCanaryStatus(accountId?: string): Promise<CanaryReport | null> {
+  try {
+    return await getJson<CanaryReport>(accountPath(CANARY_STATUS_DOCUMENT, accountId));
+  } catch (error) {
+    console.error('[Storage] Error retrieving canary status:', error);
+    return null;
+  }
+}
+
+/**
+ * Stores a file (local filesystem or blob), overwriting any previous version
  */
-export async function getSyncStatus(): Promise<SyncResult | null> {
+async function storeFile(pathname: string, content: Buffer | string): Promise<void> {
   if (isLocalMode()) {
-    return getSyncStatusLocal();
+    const filepath = path.join(LOCAL_STORAGE_DIR, pathname);
+    await fs.mkdir(path.dirname(filepath), { recursive: true });
+    await fs.writeFile(filepath, content);
+    return;
   }
 
-  try {
-    const { blobs } = await list({
-      prefix: 'sync-status.json',
-      limit: 1,
-    });
+  await putBlob(pathname, content, true);
+}
 
-    if (blobs.length === 0) {
+/**
+ * Reads a file stored with storeFile
+ * @returns The file contents, or null if it doesn't exist
+ */
+async function getFile(pathname: string): Promise<Buffer | null> {
+  if (isLocalMode()) {
+    try {
+      return await fs.readFile(path.join(LOCAL_STORAGE_DIR, pathname));
+    } catch {
       return null;
     }
+  }
+
+  const { blobs } = await list({ prefix: pathname, limit: 1 });
+  if (blobs.length === 0 || blobs[0].pathname !== pathname) {
+    return null;
+  }
+
+  return fetchBlob(blobs[0].url, pathname);
+}
+
+/**
+ * Deletes files stored with storeFile, ignoring ones that are already gone
+ */
+async function deleteFiles(pathnames: string[]): Promise<void> {
+  if (pathnames.length === 0) return;
+
+  if (isLocalMode()) {
+    await Promise.all(pathnames.map(pathname =>
+      fs.rm(path.join(LOCAL_STORAGE_DIR, pathname), { force: true })
+    ));
+    return;
+  }
+
+  // List each directory the files are in, e.g. every account's captures/
+  const prefixes = [...new Set(pathnames.map(pathname => pathname.slice(0, pathname.lastIndexOf('/') + 1)))];
+  const listed = await Promise.all(prefixes.map(prefix => list({ prefix })));
+  const urls = listed
+    .flatMap(({ blobs }) => blobs)
+    .filter(blob => pathnames.includes(blob.pathname))
+    .map(blob => blob.url);
 
-    const response = await fetch(blobs[0].url);
-    const syncResult = await response.json() as SyncResult;
+  if (urls.length > 0) {
+    await del(urls);
+  }
+}
+
+/**
+ * Reads an account's failure capture index, newest first
+ * Captures stored before they were kept per account are all in the default
+ * account's index, with their accountId
+ */
+async function getFailureCaptureIndex(accountId?: string): Promise<FailureCaptureRecord[]> {
+  const records = await getJson<FailureCaptureRecord[]>(accountPath(FAILURE_CAPTURE_INDEX_DOCUMENT, accountId)) || [];
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Whether a failure capture belongs to an account
+ */
+function isAccountCapture(record: FailureCaptureRecord, accountId?: string): boolean {
+  return (record.accountId ?? DEFAULT_ACCOUNT_ID) === (accountId ?? DEFAULT_ACCOUNT_ID);
+}
+
+/**
+ * Lists an account's failure captures, newest first, deleting expired ones first
+ * @param now - Time to check expiry against (default: now)
+ */
+export async function listFailureCaptures(accountId?: string, now: Date = new Date()): Promise<FailureCaptureRecord[]> {
+  await deleteExpiredFailureCaptures(accountId, now);
+
+  try {
+    const records = await getFailureCaptureIndex(accountId);
+    return records.filter(record => isAccountCapture(record, accountId));
+  } catch (error) {
+    console.error('[Storage] Error reading failure captures:', error);
+    return [];
+  }
+}
 
-    return syncResult;
+/**
+ * Retrieves one of an account's failure captures
+ * Expired captures are included until pruned, so callers should check expiresAt
+ * @returns The record, or null if the account has no capture with this id
+ */
+export async function getFailureCapture(id: string, accountId?: string): Promise<FailureCaptureRecord | null> {
+  try {
+    const records = await getFailureCaptureIndex(accountId);
+    return records.find(record => record.id === id && isAccountCapture(record, accountId)) || null;
   } catch (error) {
-    console.error('[Blob Storage] Error retrieving sync status:', error);
+    console.error('[Storage] Error reading failure captures:', error);
     return null;
   }
 }
 
+/**
+ * Reads the screenshot or HTML of a failure capture
+ * @returns The file contents, or null if it has been deleted
+ */
+export async function getFailureCaptureFile(
+  record: FailureCaptureRecord,
+  file: 'screenshot' | 'html'
+): Promise<Buffer | null> {
+  return getFile(file === 'screenshot' ? record.screenshotPath : record.htmlPath);
+}
+
+/**
+ * Stores the screenshot and HTML of a failing step and adds it to its
+ * account's capture index
+ * @param record - The capture's record, without the file paths
+ * @param capture - The captured page
+ * @returns The stored record
+ */
+export async function storeFailureCapture(
+  record: Omit<FailureCaptureRecord, 'screenshotPath' | 'htmlPath'>,
+  capture: PageCapture
+): Promise<FailureCaptureRecord> {
+  const stored: FailureCaptureRecord = {
+    ...record,
+    screenshotPath: accountPath(`${FAILURE_CAPTURE_DIR}/${record.id}.png`, record.accountId),
+    htmlPath: accountPath(`${FAILURE_CAPTURE_DIR}/${record.id}.html`, record.accountId),
+  };
+
+  await Promise.all([
+    storeFile(stored.screenshotPath, capture.screenshot),
+    storeFile(stored.htmlPath, capture.html),
+  ]);
+
+  const records = await getFailureCaptureIndex(record.accountId);
+  await storeJson(accountPath(FAILURE_CAPTURE_INDEX_DOCUMENT, record.accountId), [stored, ...records]);
+
+  console.log(`[Storage] Failure capture ${stored.id} stored successfully`);
+  return stored;
+}
+
+/**
+ * Deletes an account's failure captures that expired before the given time
+ * Never throws
+ * @returns Number of captures deleted
+ */
+export async function deleteExpiredFailureCaptures(accountId?: string, now: Date = new Date()): Promise<number> {
+  try {
+    const records = await getFailureCaptureIndex(accountId);
+    const expired = records.filter(record => new Date(record.expiresAt) <= now);
+
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    await deleteFiles(expired.flatMap(record => [record.screenshotPath, record.htmlPath]));
+    await storeJson(
+      accountPath(FAILURE_CAPTURE_INDEX_DOCUMENT, accountId),
+      records.filter(record => !expired.includes(record))
+    );
+
+    console.log(`[Storage] Deleted ${expired.length} expired failure captures`);
+    return expired.length;
+  } catch (error) {
+    console.error('[Storage] Error deleting expired failure captures:', error);
+    return 0;
+  }
+}
+
+/**
+ * Lists the stored timeline days of an account, oldest first
+ */
+export async function getTimelineIndex(accountId?: string): Promise<TimelineDaySummary[]> {
+  try {
+    const days = await getJson<TimelineDaySummary[]>(accountPath(TIMELINE_INDEX_DOCUMENT, accountId)) || [];
+    return days.sort((a, b) => a.date.localeCompare(b.date));
+  } catch (error) {
+    console.error('[Storage] Error reading timeline index:', error);
+    return [];
+  }
+}
+
+/**
+ * Retrieves one day of an account's timeline
+ * @param date - YYYY-MM-DD, pump-local
+ * @returns The day, or null if no report has covered it
+ */
+export async function getTimelineDay(date: string, accountId?: string): Promise<TimelineDay | null> {
+  return getJson<TimelineDay>(accountPath(`${TIMELINE_DIR}/${date}.json`, accountId));
+}
+
+/**
+ * Stores timeline days, overwriting earlier versions, and updates the index
+ * @param days - The merged days, with their index entries
+ */
+export async function storeTimelineDays(
+  days: { day: TimelineDay; summary: TimelineDaySummary }[],
+  accountId?: string
+): Promise<void> {
+  if (days.length === 0) return;
+
+  await Promise.all(days.map(({ day }) =>
+    storeJson(accountPath(`${TIMELINE_DIR}/${day.date}.json`, accountId), day)
+  ));
+
+  // Read errors are thrown rather than treated as an empty index, which would drop other days
+  const updated = new Map(days.map(({ summary }) => [summary.date, summary]));
+  const index = (await getJson<TimelineDaySummary[]>(accountPath(TIMELINE_INDEX_DOCUMENT, accountId)) || [])
+    .filter(summary => !updated.has(summary.date));
+
+  await storeJson(
+    accountPath(TIMELINE_INDEX_DOCUMENT, accountId),
+    [...index, ...updated.values()].sort((a, b) => a.date.localeCompare(b.date))
+  );
+
+  console.log(`[Storage] Stored ${days.length} timeline days`);
+}
+
+/**
+ * Retrieves the index of an account's change log
+ * @returns The index, or null if no changes have been recorded
+ */
+export async function getChangeLogIndex(accountId?: string): Promise<ChangeLogIndex | null> {
+  return getJson<ChangeLogIndex>(accountPath(CHANGE_LOG_INDEX_DOCUMENT, accountId));
+}
+
+/**
+ * Retrieves one segment of an account's change log
+ * @returns The segment's changes, oldest first (empty if it doesn't exist)
+ */
+export async function getChangeLogSegment(id: number, accountId?: string): Promise<TimelineChange[]> {
+  return await getJson<TimelineChange[]>(accountPath(`${CHANGE_LOG_DIR}/${id}.json`, accountId)) || [];
+}
+
+/**
+ * Stores change log segments, then the index that refers to them
+ * Segments are written first, so a reader never sees an index entry
+ * for changes that aren't stored yet
+ */
+export async function storeChangeLog(
+  index: ChangeLogIndex,
+  segments: { id: number; changes: TimelineChange[] }[],
+  accountId?: string
+): Promise<void> {
+  await Promise.all(segments.map(({ id, changes }) =>
+    storeJson(accountPath(`${CHANGE_LOG_DIR}/${id}.json`, accountId), changes)
+  ));
+
+  await storeJson(accountPath(CHANGE_LOG_INDEX_DOCUMENT, accountId), index);
+}
+
+/**
+ * Stores the changes of a timeline merge before its days are stored
+ */
+export async function storePendingTimelineChanges(pending: PendingTimelineChanges, accountId?: string): Promise<void> {
+  await storeJson(accountPath(PENDING_CHANGES_DOCUMENT, accountId), pending);
+}
+
+/**
+ * Retrieves the changes of a timeline merge that didn't finish
+ * @returns The changes, or null if every merge got its changes into the change log
+ */
+export async function getPendingTimelineChanges(accountId?: string): Promise<PendingTimelineChanges | null> {
+  return getJson<PendingTimelineChanges>(accountPath(PENDING_CHANGES_DOCUMENT, accountId));
+}
+
+/**
+ * Deletes a merge's pending changes once they are in the change log
+ */
+export async function deletePendingTimelineChanges(accountId?: string): Promise<void> {
+  await deleteFiles([accountPath(PENDING_CHANGES_DOCUMENT, accountId)]);
+}
+
+/**
+ * Creates an account lock document, unless it already exists
+ * @returns true if the lock was created, false if it is already held
+ */
+export async function createLock(name: string, lease: AccountLease, accountId?: string): Promise<boolean> {
+  const pathname = accountPath(`${LOCK_DIR}/${name}.json`, accountId);
+
+  if (isLocalMode()) {
+    const filePath = path.join(LOCAL_STORAGE_DIR, pathname);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    try {
+      await fs.writeFile(filePath, JSON.stringify(lease, null, 2), { encoding: 'utf-8', flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+      throw error;
+    }
+  }
+
+  try {
+    // Without allowOverwrite the upload fails if the blob exists
+    await putBlob(pathname, JSON.stringify(lease, null, 2));
+    return true;
+  } catch (error) {
+    if (error instanceof BlobError && /already exists/i.test(error.message)) return false;
+    throw error;
+  }
+}
+
+/**
+ * Retrieves an account lock
+ * @returns The lease, or null if the lock isn't held
+ */
+export async function getLock(name: string, accountId?: string): Promise<AccountLease | null> {
+  return getJson<AccountLease>(accountPath(`${LOCK_DIR}/${name}.json`, accountId));
+}
+
+/**
+ * Deletes an account lock, releasing it
+ */
+export async function deleteLock(name: string, accountId?: string): Promise<void> {
+  const pathname = accountPath(`${LOCK_DIR}/${name}.json`, accountId);
+
+  if (isLocalMode()) {
+    await fs.rm(path.join(LOCAL_STORAGE_DIR, pathname), { force: true });
+    return;
+  }
+
+  await del(pathname);
+}
+
+/**
+ * Stores how far an account's changes have been uploaded to Nightscout
+ */
+export async function storeNightscoutState(state: NightscoutState, accountId?: string): Promise<void> {
+  await storeJson(accountPath(NIGHTSCOUT_STATE_DOCUMENT, accountId), state);
+}
+
+/**
+ * Retrieves how far an account's changes have been uploaded to Nightscout
+ * @returns The state, or null if nothing has been uploaded
+ */
+export async function getNightscoutState(accountId?: string): Promise<NightscoutState | null> {
+  return getJson<NightscoutState>(accountPath(NIGHTSCOUT_STATE_DOCUMENT, accountId));
+}
+
 /**
  * Cleans up old reports, keeping only the most recent N reports
  * @param keepCount - Number of reports to keep (default: 30)
+ * @param accountId - Account to clean up (default: the default account)
  */
-export async function cleanupOldReports(keepCount: number = 30): Promise<number> {
+export async function cleanupOldReports(keepCount: number = 30, accountId?: string): Promise<number> {
   try {
-    const reports = await listReports();
+    const reports = await listReports(accountId);
 
     if (reports.length <= keepCount) {
       return 0;
@@ -281,7 +978,7 @@ export async function cleanupOldReports(keepCount: number = 30): Promise<number>
 
     for (const report of reportsToDelete) {
       try {
-        await deleteReport(report.filename);
+        await deleteReport(report.filename, accountId);
         deletedCount++;
       } catch (error) {
         console.error(`[Blob Storage] Failed to delete ${report.filename}:`, error);
@@ -295,3 +992,44 @@ export async function cleanupOldReports(keepCount: number = 30): Promise<number>
     return 0;
   }
 }
+
+/**
+ * Encrypts blobs uploaded before encryption was added, in place
+ * Their old plaintext URLs stop working once overwritten
+ * @returns How many blobs were encrypted, out of how many were checked
+ */
+export async function encryptStoredBlobs(): Promise<{ encrypted: number; checked: number }> {
+  if (isLocalMode()) {
+    console.log('[Blob Storage] Local mode - nothing to encrypt');
+    return { encrypted: 0, checked: 0 };
+  }
+
+  let encrypted = 0;
+  let checked = 0;
+  let cursor: string | undefined;
+
+  do {
+    const page = await list({ cursor });
+
+    for (const blob of page.blobs) {
+      checked++;
+
+      const response = await fetch(blob.url, { cache: 'no-store' });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${blob.pathname}: ${response.status}`);
+      }
+
+      const contents = Buffer.from(await response.arrayBuffer());
+      if (!isEncryptedStoredFile(contents)) {
+        await putBlob(blob.pathname, contents, true);
+        encrypted++;
+        console.log(`[Blob Storage] Encrypted ${blob.pathname}`);
+      }
+    }
+
+    cursor = page.hasMore ? page.cursor : undefined;
+  } while (cursor);
+
+  console.log(`[Blob Storage] Encrypted ${encrypted} of ${checked} blobs`);
+  return { encrypted, checked };
+}
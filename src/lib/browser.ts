@@ -0,0 +1,228 @@
+/**
+ * Browser backends for the scraper
+ * serverless - puppeteer-core with @sparticuz/chromium-min, downloaded on cold start
+ * local - full puppeteer with its bundled Chromium
+ * remote - an already-running Chromium (e.g. a sidecar container), over CDP
+ */
+
+import * as os from 'os';
+import puppeteerCore from 'puppeteer-core';
+import puppeteer from 'puppeteer';
+import chromium from '@sparticuz/chromium-min';
+import { ScraperError } from './errors';
+import type { BrowserBackend, BrowserConfig } from './types';
+import type { Browser, Page } from 'puppeteer-core';
+
+// Remote tar file URL - must match chromium version and architecture
+const CHROMIUM_PACK_URL = 'https://github.com/Sparticuz/chromium/releases/download/v141.0.0/chromium-v141.0.0-pack.x64.tar';
+
+const BROWSER_BACKENDS: BrowserBackend[] = ['serverless', 'local', 'remote'];
+
+const VIEWPORT = { width: 1280, height: 720 };
+
+/**
+ * A browser for one scraper run
+ * Always call release() when done - it closes a launched browser, but only
+ * disconnects from a remote one
+ */
+export interface BrowserHandle {
+  backend: BrowserBackend;
+  downloadDir: string; // Parent directory for CSV downloads
+  newPage(): Promise<Page>;
+  release(): Promise<void>;
+}
+
+/**
+ * Picks the backend when BROWSER_BACKEND isn't set, as earlier versions did:
+ * serverless on Vercel production and Lambda, local otherwise
+ */
+function detectBrowserBackend(): BrowserBackend {
+  const isServerless = process.env.VERCEL_ENV === 'production' ||
+                       !!process.env.AWS_LAMBDA_FUNCTION_NAME ||
+                       process.env.USE_SERVERLESS_CHROMIUM === 'true';
+
+  return isServerless ? 'serverless' : 'local';
+}
+
+/**
+ * Checks a browser configuration
+ * @throws ScraperError (CONFIGURATION_ERROR) if it can't work
+ */
+export function validateBrowserConfig(config: BrowserConfig): BrowserConfig {
+  if (!BROWSER_BACKENDS.includes(config.backend)) {
+    throw new ScraperError(
+      'CONFIGURATION_ERROR',
+      'configuration',
+      `Unknown browser backend "${config.backend}"`,
+      { action: `Set BROWSER_BACKEND to one of: ${BROWSER_BACKENDS.join(', ')}` }
+    );
+  }
+
+  if (config.backend === 'remote') {
+    if (!config.endpoint) {
+      throw new ScraperError(
+        'CONFIGURATION_ERROR',
+        'configuration',
+        'The remote browser backend needs an endpoint',
+        { action: 'Set BROWSER_WS_ENDPOINT to the browser\'s ws:// DevTools URL' }
+      );
+    }
+
+    if (!/^(wss?|https?):\/\//i.test(config.endpoint)) {
+      throw new ScraperError(
+        'CONFIGURATION_ERROR',
+        'configuration',
+        `Invalid browser endpoint "${config.endpoint}"`,
+        { action: 'Set BROWSER_WS_ENDPOINT to a ws://, wss://, http:// or https:// URL' }
+      );
+    }
+  } else if (config.endpoint) {
+    // Most likely BROWSER_BACKEND was forgotten - don't silently launch a browser instead
+    throw new ScraperError(
+      'CONFIGURATION_ERROR',
+      'configuration',
+      `A browser endpoint is set but the backend is "${config.backend}"`,
+      { action: 'Set BROWSER_BACKEND=remote, or remove BROWSER_WS_ENDPOINT' }
+    );
+  }
+
+  return config;
+}
+
+/**
+ * Reads the browser configuration from BROWSER_BACKEND, BROWSER_WS_ENDPOINT
+ * and BROWSER_DOWNLOAD_DIR
+ * @throws ScraperError (CONFIGURATION_ERROR) if it is invalid
+ */
+export function getBrowserConfigFromEnv(): BrowserConfig {
+  const backend = process.env.BROWSER_BACKEND?.trim().toLowerCase() || detectBrowserBackend();
+
+  return validateBrowserConfig({
+    backend: backend as BrowserBackend,
+    endpoint: process.env.BROWSER_WS_ENDPOINT?.trim() || undefined,
+    downloadDir: process.env.BROWSER_DOWNLOAD_DIR?.trim() || undefined,
+  });
+}
+
+/**
+ * Handle for a browser this process launched
+ */
+function launchedBrowser(backend: BrowserBackend, browser: Browser, downloadDir: string): BrowserHandle {
+  return {
+    backend,
+    downloadDir,
+    newPage: () => browser.newPage(),
+    release: () => browser.close(),
+  };
+}
+
+/**
+ * Launches Chromium from @sparticuz/chromium-min
+ */
+async function launchServerlessBrowser(): Promise<Browser> {
+  // Set font configuration paths for Lambda environment
+  process.env.FONTCONFIG_PATH = '/tmp';
+  process.env.HOME = '/tmp';
+
+  const executablePath = await chromium.executablePath(CHROMIUM_PACK_URL);
+
+  console.log('[Browser] Using @sparticuz/chromium-min with remote tar');
+  console.log('[Browser] Chromium pack URL:', CHROMIUM_PACK_URL);
+  console.log('[Browser] Chromium executable path:', executablePath);
+  console.log('[Browser] Working directory:', process.cwd());
+
+  return await puppeteerCore.launch({
+    args: [
+      ...chromium.args,
+      '--disable-gpu',
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--single-process',
+    ],
+    defaultViewport: VIEWPORT,
+    executablePath,
+    headless: true, // Must be explicitly true for chromium v141+
+  });
+}
+
+/**
+ * Launches the Chromium bundled with puppeteer
+ * DEBUG_BROWSER=true shows visible browser for debugging
+ */
+async function launchLocalBrowser(): Promise<Browser> {
+  const headless = process.env.DEBUG_BROWSER !== 'true';
+
+  console.log('[Browser] Using local Chromium (puppeteer)');
+  console.log('[Browser] Headless mode:', headless);
+
+  return await puppeteer.launch({
+    headless,
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-gpu',
+    ],
+    defaultViewport: VIEWPORT,
+  });
+}
+
+/**
+ * Connects to a running Chromium
+ * Each run gets its own browser context, so runs sharing the browser never
+ * see each other's cookies
+ */
+async function connectRemoteBrowser(endpoint: string, downloadDir: string): Promise<BrowserHandle> {
+  console.log('[Browser] Connecting to remote Chromium:', endpoint.replace(/\?.*$/, ''));
+
+  const browser = await puppeteerCore.connect({
+    ...(/^wss?:/i.test(endpoint) ? { browserWSEndpoint: endpoint } : { browserURL: endpoint }),
+    defaultViewport: VIEWPORT,
+  });
+
+  try {
+    const context = await browser.createBrowserContext();
+
+    return {
+      backend: 'remote',
+      downloadDir,
+      newPage: () => context.newPage(),
+      release: async () => {
+        try {
+          await context.close();
+        } finally {
+          await browser.disconnect();
+        }
+      },
+    };
+  } catch (error) {
+    await browser.disconnect();
+    throw error;
+  }
+}
+
+/**
+ * Starts or connects to a browser for one scraper run
+ * @param config - Backend to use (see getBrowserConfigFromEnv)
+ */
+export async function createBrowser(config: BrowserConfig): Promise<BrowserHandle> {
+  const { backend, endpoint } = validateBrowserConfig(config);
+  const downloadDir = config.downloadDir || os.tmpdir();
+
+  console.log('[Browser] Starting browser...', { backend });
+
+  // Enable debug mode logging
+  if (process.env.DEBUG_BROWSER === 'true') {
+    console.log('[Debug] Debug mode enabled - captures will be saved to debug-captures/');
+  }
+
+  switch (backend) {
+    case 'serverless':
+      return launchedBrowser(backend, await launchServerlessBrowser(), downloadDir);
+    case 'local':
+      return launchedBrowser(backend, await launchLocalBrowser(), downloadDir);
+    case 'remote':
+      return connectRemoteBrowser(endpoint!, downloadDir);
+  }
+}
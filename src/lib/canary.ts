@@ -0,0 +1,79 @@
+/**
+ * Selector drift canary - a scheduled check-mode run that walks the login and
+ * export flow without downloading, so Tandem Source UI changes show up before
+ * the next real sync fails
+ */
+
+import { randomUUID } from 'crypto';
+import { createAccountMfaCodeProvider, getAccount } from './accounts';
+import { checkTandemSource, validateScraperConfig } from './tandem-scraper';
+import { storeCanaryStatus } from './blob-storage';
+import { ScraperError } from './errors';
+import { recordFailureCapture } from './failure-captures';
+import type { CanaryReport } from './types';
+
+/**
+ * Runs the canary for an account and stores its report (and the failing page, if any)
+ * The pages are the same for every account, so the scheduled check only runs
+ * for the first one
+ * @param accountId - Account to log in with (default: the first account)
+ * @returns The canary report
+ */
+export async function performCanaryCheck(accountId?: string): Promise<CanaryReport> {
+  const account = getAccount(accountId);
+  const configValidation = validateScraperConfig(account);
+  if (!account || !configValidation.valid) {
+    const error = new ScraperError(
+      'CONFIGURATION_ERROR',
+      'configuration',
+      `Missing required configuration: ${configValidation.missing.join(', ')}`
+    );
+
+    const report: CanaryReport = {
+      success: false,
+      checkedAt: new Date().toISOString(),
+      durationMs: 0,
+      steps: [{ step: 'configuration', passed: false, durationMs: 0, error: error.message }],
+      errorCode: error.code,
+      errorDetails: error.toInfo(),
+    };
+
+    await storeCanaryStatus(report, account?.id ?? accountId);
+    return report;
+  }
+
+  console.log('[Canary] Starting check run...');
+
+  const { report, failureCapture } = await checkTandemSource({
+    username: account.username,
+    password: account.password,
+    reportDays: account.reportDays,
+    timeout: 120000, // 2 minutes
+    mfaCodeProvider: createAccountMfaCodeProvider(account),
+    region: account.region,
+  });
+
+  const failedStep = report.steps.find(step => !step.passed);
+
+  // The report is still useful if the capture can't be stored
+  if (failedStep && failureCapture) {
+    failedStep.captureId = await recordFailureCapture({
+      runId: randomUUID(),
+      source: 'canary',
+      accountId: account.id,
+      failure: failureCapture,
+      errorCode: report.errorCode,
+      message: failedStep.error || 'Check failed',
+    });
+  }
+
+  await storeCanaryStatus(report, account.id);
+
+  console.log('[Canary] Check run completed', {
+    success: report.success,
+    failedStep: failedStep?.step,
+    durationMs: report.durationMs,
+  });
+
+  return report;
+}
@@ -0,0 +1,147 @@
+/**
+ * Change feed - an append-only log of timeline changes per account, read by
+ * clients with a cursor (GET /api/changes?since=<cursor>)
+ *
+ * Cursors hold the log's epoch and a sequence number, both stored with the
+ * log itself, so they survive redeployments and don't depend on the storage
+ * backend. A cursor from another log (e.g. after storage was reset) makes the
+ * feed start over with reset: true
+ */
+
+import { randomUUID } from 'crypto';
+import { getChangeLogIndex, getChangeLogSegment, storeChangeLog } from './blob-storage';
+import type { ChangeLogIndex, ChangesPage, TimelineChange } from './types';
+
+// Changes per stored segment, keeps each document around a megabyte
+const SEGMENT_SIZE = 5000;
+
+const DEFAULT_LIMIT = 1000;
+export const MAX_CHANGES_LIMIT = 5000;
+
+/**
+ * A change before it has a place in the log
+ */
+export type PendingChange = Omit<TimelineChange, 'seq' | 'changedAt'>;
+
+/**
+ * Position in a change log
+ */
+interface Cursor {
+  epoch: string;
+  seq: number;
+}
+
+/**
+ * Encodes a cursor for clients
+ */
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify({ v: 1, e: cursor.epoch, s: cursor.seq })).toString('base64url');
+}
+
+/**
+ * Decodes a cursor from encodeCursor
+ * @throws Error if it isn't a cursor this API issued
+ */
+export function decodeChangesCursor(value: string): Cursor {
+  try {
+    const { v, e, s } = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+    if (v === 1 && typeof e === 'string' && Number.isInteger(s) && s >= 0) {
+      return { epoch: e, seq: s };
+    }
+  } catch {
+    // Fall through
+  }
+  throw new Error('Invalid cursor');
+}
+
+/**
+ * Appends changes to an account's change log, creating the log if needed
+ * Reads the last seq and writes it back, so callers must hold the account's
+ * timeline lock (TIMELINE_LOCK) - mergeIntoTimeline does
+ * @returns The log's index after the append, or null if there was nothing to append
+ */
+export async function appendChanges(pending: PendingChange[], accountId?: string): Promise<ChangeLogIndex | null> {
+  if (pending.length === 0) return null;
+
+  const changedAt = new Date().toISOString();
+  const index: ChangeLogIndex = await getChangeLogIndex(accountId) ?? {
+    epoch: randomUUID(),
+    lastSeq: 0,
+    createdAt: changedAt,
+    segments: [],
+  };
+
+  // Fill up the last segment before starting a new one
+  const last = index.segments[index.segments.length - 1];
+  let segment = last && last.lastSeq - last.firstSeq + 1 < SEGMENT_SIZE
+    ? { id: last.id, changes: await getChangeLogSegment(last.id, accountId) }
+    : null;
+  const written: { id: number; changes: TimelineChange[] }[] = [];
+
+  let seq = index.lastSeq;
+  for (const change of pending) {
+    if (!segment || segment.changes.length >= SEGMENT_SIZE) {
+      segment = { id: (written[written.length - 1]?.id ?? last?.id ?? 0) + 1, changes: [] };
+    }
+    if (!written.includes(segment)) written.push(segment);
+
+    segment.changes.push({ ...change, seq: ++seq, changedAt });
+  }
+
+  const segments = new Map(index.segments.map(entry => [entry.id, entry]));
+  for (const { id, changes } of written) {
+    segments.set(id, { id, firstSeq: changes[0].seq, lastSeq: changes[changes.length - 1].seq });
+  }
+
+  const updated: ChangeLogIndex = {
+    ...index,
+    lastSeq: seq,
+    segments: [...segments.values()].sort((a, b) => a.id - b.id),
+  };
+
+  await storeChangeLog(updated, written, accountId);
+
+  console.log(`[Changes] Recorded ${pending.length} changes (up to #${seq})`);
+  return updated;
+}
+
+/**
+ * Reads the changes after a cursor
+ * @param since - Cursor from the last page, or undefined to read from the start
+ * @param limit - Maximum number of changes to return
+ */
+export async function readChanges(
+  since: string | undefined,
+  limit: number = DEFAULT_LIMIT,
+  accountId?: string
+): Promise<ChangesPage> {
+  const cursor = since ? decodeChangesCursor(since) : null;
+  const index = await getChangeLogIndex(accountId);
+
+  if (!index) {
+    return { changes: [], cursor: null, hasMore: false, reset: false };
+  }
+
+  // A cursor from another log, or from ahead of this one, can't be resumed
+  const reset = !!cursor && (cursor.epoch !== index.epoch || cursor.seq > index.lastSeq);
+  const after = cursor && !reset ? cursor.seq : 0;
+
+  const changes: TimelineChange[] = [];
+  for (const segment of index.segments) {
+    if (segment.lastSeq <= after) continue;
+    if (changes.length >= limit) break;
+
+    const segmentChanges = await getChangeLogSegment(segment.id, accountId);
+    changes.push(...segmentChanges.filter(change => change.seq > after && change.seq <= index.lastSeq));
+  }
+
+  const page = changes.slice(0, limit);
+  const lastSeq = page.length > 0 ? page[page.length - 1].seq : after;
+
+  return {
+    changes: page,
+    cursor: encodeCursor({ epoch: index.epoch, seq: lastSeq }),
+    hasMore: lastSeq < index.lastSeq,
+    reset,
+  };
+}
@@ -0,0 +1,589 @@
+/**
+ * Parser for Tandem Source Daily Timeline CSV exports
+ *
+ * An export starts with a few title lines (e.g. "Report Range,01/10/2024,01/12/2024"),
+ * followed by sections separated by blank lines. Each section is a title line,
+ * a header row and data rows. Columns are found by header name, so reordered
+ * or extra columns don't break parsing
+ */
+
+import { ScraperError } from './errors';
+import type {
+  ActivityMode,
+  AlarmEvent,
+  BasalRateChange,
+  BolusDelivery,
+  CgmReading,
+  ControlIqEvent,
+  DeviceEvent,
+  ParsedReport,
+  TimelineRecordBase,
+  TimelineRecordCounts,
+  TimelineRecords,
+} from './types';
+
+const MMOL_TO_MG_DL = 18.016;
+
+export type SectionKind = 'cgm' | 'boluses' | 'basal' | 'controlIq' | 'alarms' | 'deviceEvents';
+
+// Section titles (lowercased) and the records they hold
+const SECTION_TITLES: Record<string, SectionKind> = {
+  'cgm readings': 'cgm',
+  'cgm': 'cgm',
+  'bolus': 'boluses',
+  'boluses': 'boluses',
+  'basal': 'basal',
+  'basal rates': 'basal',
+  'control-iq events': 'controlIq',
+  'control-iq': 'controlIq',
+  'alarms': 'alarms',
+  'alarms and alerts': 'alarms',
+  'alerts and alarms': 'alarms',
+  'device events': 'deviceEvents',
+};
+
+// Accepted header names for each column, normalized (see normalizeHeader)
+const COLUMNS = {
+  time: ['eventdatetime', 'completiondatetime', 'datetime', 'timestamp'],
+  serialNumber: ['serialnumber'],
+  recordId: ['recordid', 'eventid'],
+  deviceType: ['devicetype'],
+  glucose: ['readings', 'reading', 'glucose'],
+  insulin: ['insulindelivered', 'insulin'],
+  carbs: ['carbsize', 'carbs'],
+  bg: ['bg', 'bginput'],
+  description: ['description'],
+  bolusType: ['bolustype'],
+  rate: ['basalrate', 'rate'],
+  duration: ['duration'],
+  eventType: ['eventtype', 'alarmtype', 'alerttype', 'event', 'type'],
+  activityMode: ['activitymode', 'mode'],
+  previousTime: ['previoustime', 'oldtime'],
+  newTime: ['newtime'],
+};
+
+/**
+ * A line of the export, split into fields
+ */
+interface CsvLine {
+  number: number; // 1-based line number, for error messages
+  fields: string[];
+}
+
+/**
+ * A section of the export: title line, header row and data rows
+ */
+interface Section {
+  title: string;
+  lines: CsvLine[]; // Header row first
+}
+
+/**
+ * A section's data rows, with cells looked up by column name
+ */
+interface SectionTable {
+  title: string;
+  columns: Map<string, number>; // Normalized header -> index
+  headers: string[]; // As exported, including units
+  rows: CsvLine[];
+}
+
+/**
+ * Error for a malformed export, attributed to the parse step
+ */
+function parseError(message: string, line?: number): ScraperError {
+  return new ScraperError('DOWNLOAD_INVALID', 'parse', line ? `Line ${line}: ${message}` : message);
+}
+
+/**
+ * Splits a CSV line into fields, handling quoted fields and "" escapes
+ */
+function splitCsvLine(line: string, number: number): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw parseError('Unterminated quoted field', number);
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Lowercases a header and strips units and punctuation,
+ * e.g. "Readings (mg/dL)" -> "readings"
+ */
+export function normalizeHeader(header: string): string {
+  return header.replace(/\(.*?\)/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Splits the export into blocks of lines separated by blank lines
+ */
+function splitBlocks(csv: string): CsvLine[][] {
+  const blocks: CsvLine[][] = [];
+  let block: CsvLine[] = [];
+
+  csv.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, index) => {
+    const fields = splitCsvLine(line, index + 1);
+
+    if (fields.every(field => field === '')) {
+      if (block.length > 0) blocks.push(block);
+      block = [];
+    } else {
+      block.push({ number: index + 1, fields });
+    }
+  });
+
+  if (block.length > 0) blocks.push(block);
+
+  return blocks;
+}
+
+/**
+ * The section kind for a section title, including the alternative titles the
+ * parser accepts, or null if it isn't a known section title
+ */
+export function getSectionKind(title: string): SectionKind | null {
+  return SECTION_TITLES[title.toLowerCase()] ?? null;
+}
+
+/**
+ * The column a header stands for: the same for every name the parser accepts
+ * for that column, or the normalized header for a column it doesn't read
+ */
+export function getColumnKey(header: string): string {
+  const name = normalizeHeader(header);
+  return Object.entries(COLUMNS).find(([, names]) => names.includes(name))?.[0] ?? name;
+}
+
+/**
+ * The section kind for a block's first line, or null if it isn't a known section title
+ */
+function sectionKindOf(line: CsvLine): SectionKind | null {
+  const [title, ...rest] = line.fields;
+  if (rest.some(field => field !== '')) return null;
+
+  return getSectionKind(title);
+}
+
+/**
+ * Builds the column lookup for a section
+ */
+function toTable(section: Section): SectionTable {
+  const [header, ...rows] = section.lines;
+  if (!header) {
+    throw parseError(`The "${section.title}" section has no header row`);
+  }
+
+  const columns = new Map<string, number>();
+  header.fields.forEach((name, index) => columns.set(normalizeHeader(name), index));
+
+  for (const row of rows) {
+    if (row.fields.length !== header.fields.length) {
+      throw parseError(
+        `Expected ${header.fields.length} fields in the "${section.title}" section, found ${row.fields.length}`,
+        row.number
+      );
+    }
+  }
+
+  return { title: section.title, columns, headers: header.fields, rows };
+}
+
+/**
+ * Index of the first matching column, or undefined if the section has none
+ */
+function findColumn(table: SectionTable, names: string[]): number | undefined {
+  for (const name of names) {
+    const index = table.columns.get(name);
+    if (index !== undefined) return index;
+  }
+  return undefined;
+}
+
+/**
+ * Index of a column the section must have
+ */
+function requireColumn(table: SectionTable, names: string[], label: string): number {
+  const index = findColumn(table, names);
+  if (index === undefined) {
+    throw parseError(`The "${table.title}" section has no ${label} column`);
+  }
+  return index;
+}
+
+/**
+ * A cell's text, or undefined if the column is absent or the cell is empty
+ */
+function cell(row: CsvLine, index: number | undefined): string | undefined {
+  return index === undefined ? undefined : row.fields[index] || undefined;
+}
+
+/**
+ * Parses a number cell
+ */
+function parseNumber(row: CsvLine, index: number | undefined, label: string): number | undefined {
+  const text = cell(row, index);
+  if (text === undefined) return undefined;
+
+  const value = Number(text);
+  if (!Number.isFinite(value)) {
+    throw parseError(`Invalid ${label} "${text}"`, row.number);
+  }
+  return value;
+}
+
+/**
+ * Parses a number cell that must not be empty
+ */
+function requireNumber(row: CsvLine, index: number, label: string): number {
+  const value = parseNumber(row, index, label);
+  if (value === undefined) {
+    throw parseError(`Missing ${label}`, row.number);
+  }
+  return value;
+}
+
+/**
+ * Normalizes an exported date/time to YYYY-MM-DDTHH:mm:ss (still pump-local)
+ * Accepts ISO-style "2024-01-10T08:00:00" and US-style "01/10/2024 8:00 AM"
+ * @returns The normalized time, or null if the text isn't a date/time
+ */
+export function parseTandemDateTime(text: string): string | null {
+  let year: number, month: number, day: number;
+  let hour: number, minute: number, second: number;
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/);
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4}) (\d{1,2}):(\d{2})(?::(\d{2}))?(?: ?([AP]M))?$/i);
+
+  if (iso) {
+    [year, month, day, hour, minute] = iso.slice(1, 6).map(Number);
+    second = Number(iso[6] || 0);
+  } else if (us) {
+    [month, day, year, hour, minute] = us.slice(1, 6).map(Number);
+    second = Number(us[6] || 0);
+
+    const meridiem = us[7]?.toUpperCase();
+    if (meridiem) {
+      if (hour < 1 || hour > 12) return null;
+      hour = (hour % 12) + (meridiem === 'PM' ? 12 : 0);
+    }
+  } else {
+    return null;
+  }
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth || hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}`;
+}
+
+/**
+ * Parses a date/time cell
+ */
+function parseTime(row: CsvLine, index: number | undefined, label: string): string | undefined {
+  const text = cell(row, index);
+  if (text === undefined) return undefined;
+
+  const time = parseTandemDateTime(text);
+  if (!time) {
+    throw parseError(`Invalid ${label} "${text}"`, row.number);
+  }
+  return time;
+}
+
+/**
+ * Parses the fields every record has
+ */
+function parseBase(table: SectionTable, row: CsvLine): TimelineRecordBase {
+  const time = parseTime(row, requireColumn(table, COLUMNS.time, 'date/time'), 'date/time');
+  if (!time) {
+    throw parseError('Missing date/time', row.number);
+  }
+
+  return {
+    time,
+    serialNumber: cell(row, findColumn(table, COLUMNS.serialNumber)),
+    recordId: parseNumber(row, findColumn(table, COLUMNS.recordId), 'record id'),
+  };
+}
+
+/**
+ * Drops undefined properties, so records serialize compactly
+ */
+function compact<T extends object>(record: T): T {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as T;
+}
+
+/**
+ * Parses a CGM readings section
+ */
+function parseCgm(table: SectionTable): CgmReading[] {
+  const valueIndex = requireColumn(table, COLUMNS.glucose, 'glucose reading');
+  const deviceTypeIndex = findColumn(table, COLUMNS.deviceType);
+  const isMmol = /mmol/i.test(table.headers[valueIndex]);
+
+  return table.rows.map(row => {
+    const value = requireNumber(row, valueIndex, 'glucose reading');
+
+    return compact({
+      ...parseBase(table, row),
+      value: isMmol ? Math.round(value * MMOL_TO_MG_DL) : value,
+      deviceType: cell(row, deviceTypeIndex),
+    });
+  });
+}
+
+/**
+ * Parses a bolus section
+ */
+function parseBoluses(table: SectionTable): BolusDelivery[] {
+  const insulinIndex = requireColumn(table, COLUMNS.insulin, 'insulin delivered');
+  const carbsIndex = findColumn(table, COLUMNS.carbs);
+  const bgIndex = findColumn(table, COLUMNS.bg);
+  const descriptionIndex = findColumn(table, COLUMNS.description);
+  const typeIndex = findColumn(table, COLUMNS.bolusType);
+  const bgIsMmol = bgIndex !== undefined && /mmol/i.test(table.headers[bgIndex]);
+
+  return table.rows.map(row => {
+    const bg = parseNumber(row, bgIndex, 'BG');
+    const description = cell(row, descriptionIndex);
+
+    // Control-IQ correction boluses are labelled in the type column when the
+    // export has one, otherwise in the description
+    const automatic = /auto/i.test(cell(row, typeIndex) ?? description ?? '');
+
+    return compact({
+      ...parseBase(table, row),
+      insulin: requireNumber(row, insulinIndex, 'insulin delivered'),
+      carbs: parseNumber(row, carbsIndex, 'carb size'),
+      bg: bg !== undefined && bgIsMmol ? Math.round(bg * MMOL_TO_MG_DL) : bg,
+      description,
+      automatic,
+    });
+  });
+}
+
+/**
+ * Parses a basal section
+ */
+function parseBasal(table: SectionTable): BasalRateChange[] {
+  const rateIndex = requireColumn(table, COLUMNS.rate, 'basal rate');
+  const durationIndex = findColumn(table, COLUMNS.duration);
+
+  return table.rows.map(row => compact({
+    ...parseBase(table, row),
+    rate: requireNumber(row, rateIndex, 'basal rate'),
+    durationMinutes: parseNumber(row, durationIndex, 'duration'),
+  }));
+}
+
+/**
+ * Reads the activity mode from the mode column, or failing that the event name
+ */
+function toActivityMode(mode: string | undefined, type: string): ActivityMode | undefined {
+  const text = (mode ?? type).toLowerCase();
+
+  if (text.includes('sleep')) return 'sleep';
+  if (text.includes('exercise')) return 'exercise';
+  if (mode && /^(none|off|normal|standard)$/.test(text)) return 'none';
+
+  return undefined;
+}
+
+/**
+ * Parses a Control-IQ events section
+ */
+function parseControlIq(table: SectionTable): ControlIqEvent[] {
+  const typeIndex = requireColumn(table, COLUMNS.eventType, 'event type');
+  const modeIndex = findColumn(table, COLUMNS.activityMode);
+  const durationIndex = findColumn(table, COLUMNS.duration);
+
+  return table.rows.map(row => {
+    const type = cell(row, typeIndex) ?? '';
+
+    return compact({
+      ...parseBase(table, row),
+      type,
+      activityMode: toActivityMode(cell(row, modeIndex), type),
+      durationMinutes: parseNumber(row, durationIndex, 'duration'),
+    });
+  });
+}
+
+/**
+ * Parses an alarms section
+ */
+function parseAlarms(table: SectionTable): AlarmEvent[] {
+  const typeIndex = requireColumn(table, COLUMNS.eventType, 'alarm type');
+  const descriptionIndex = findColumn(table, COLUMNS.description);
+
+  return table.rows.map(row => compact({
+    ...parseBase(table, row),
+    type: cell(row, typeIndex) ?? '',
+    description: cell(row, descriptionIndex),
+  }));
+}
+
+/**
+ * Parses a device events section
+ */
+function parseDeviceEvents(table: SectionTable): DeviceEvent[] {
+  const typeIndex = requireColumn(table, COLUMNS.eventType, 'event type');
+  const descriptionIndex = findColumn(table, COLUMNS.description);
+  const previousTimeIndex = findColumn(table, COLUMNS.previousTime);
+  const newTimeIndex = findColumn(table, COLUMNS.newTime);
+
+  return table.rows.map(row => compact({
+    ...parseBase(table, row),
+    type: cell(row, typeIndex) ?? '',
+    description: cell(row, descriptionIndex),
+    previousTime: parseTime(row, previousTimeIndex, 'previous time'),
+    newTime: parseTime(row, newTimeIndex, 'new time'),
+  }));
+}
+
+/**
+ * Reads the report range and pump serial number from the title lines
+ */
+function parsePreamble(lines: CsvLine[], report: ParsedReport): void {
+  for (const line of lines) {
+    const [label, ...values] = line.fields;
+
+    switch (label.toLowerCase()) {
+      case 'report range': {
+        const [startDate, endDate] = values.map(value => parseTandemDateTime(`${value} 00:00`)?.slice(0, 10));
+        if (!startDate || !endDate) {
+          throw parseError(`Invalid report range "${values.join(',')}"`, line.number);
+        }
+        report.reportRange = { startDate, endDate };
+        break;
+      }
+      case 'pump serial number':
+        report.pumpSerialNumber = values[0] || undefined;
+        break;
+    }
+  }
+}
+
+/**
+ * Reads the title and header row of every section, without parsing the rows
+ * The title lines at the start of the export aren't a section and are left out
+ * @throws ScraperError (DOWNLOAD_INVALID, step 'parse') if the export can't be split into lines
+ */
+export function readCsvSections(csv: string | Buffer): { title: string; headers: string[] }[] {
+  const blocks = splitBlocks(typeof csv === 'string' ? csv : csv.toString('utf-8'));
+
+  return blocks
+    .filter(([first], index) => index > 0 || sectionKindOf(first))
+    .map(([first, header]) => ({ title: first.fields[0], headers: header?.fields ?? [] }));
+}
+
+/**
+ * Parses a Tandem Source Daily Timeline CSV export into typed records
+ * Sections the parser doesn't know are skipped and listed in unknownSections
+ * @param csv - The export, as text or as the downloaded buffer
+ * @throws ScraperError (DOWNLOAD_INVALID, step 'parse') if the export is malformed
+ */
+export function parseTandemCsv(csv: string | Buffer): ParsedReport {
+  const blocks = splitBlocks(typeof csv === 'string' ? csv : csv.toString('utf-8'));
+
+  const report: ParsedReport = {
+    cgm: [],
+    boluses: [],
+    basal: [],
+    controlIq: [],
+    alarms: [],
+    deviceEvents: [],
+    unknownSections: [],
+  };
+
+  let knownSections = 0;
+
+  blocks.forEach((block, index) => {
+    const [first, ...lines] = block;
+    const kind = sectionKindOf(first);
+
+    if (!kind) {
+      // The first block holds the title lines
+      if (index === 0) {
+        parsePreamble(block, report);
+      } else {
+        report.unknownSections.push(first.fields[0]);
+      }
+      return;
+    }
+
+    knownSections++;
+    const table = toTable({ title: first.fields[0], lines });
+
+    switch (kind) {
+      case 'cgm':
+        report.cgm.push(...parseCgm(table));
+        break;
+      case 'boluses':
+        report.boluses.push(...parseBoluses(table));
+        break;
+      case 'basal':
+        report.basal.push(...parseBasal(table));
+        break;
+      case 'controlIq':
+        report.controlIq.push(...parseControlIq(table));
+        break;
+      case 'alarms':
+        report.alarms.push(...parseAlarms(table));
+        break;
+      case 'deviceEvents':
+        report.deviceEvents.push(...parseDeviceEvents(table));
+        break;
+    }
+  });
+
+  if (knownSections === 0) {
+    throw parseError('The export has no CGM, bolus, basal or event sections');
+  }
+
+  return report;
+}
+
+/**
+ * Counts the records of each kind in a parsed report or timeline day
+ */
+export function countRecords(report: TimelineRecords): TimelineRecordCounts {
+  return {
+    cgm: report.cgm.length,
+    boluses: report.boluses.length,
+    basal: report.basal.length,
+    controlIq: report.controlIq.length,
+    alarms: report.alarms.length,
+    deviceEvents: report.deviceEvents.length,
+  };
+}
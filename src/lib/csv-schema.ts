@@ -0,0 +1,141 @@
+/**
+ * Registry of known Tandem Source CSV export layouts
+ *
+ * Every downloaded report is checked against it before it is stored. An
+ * export with a section or column no known layout has fails the sync with
+ * FORMAT_CHANGED, instead of being archived for a parser that can't read it.
+ * When Tandem changes the export, update the parser and then add the new
+ * layout here as the next version
+ *
+ * Sections and columns are matched the way the parser reads them, so the
+ * alternative titles and column names it accepts (e.g. "Boluses" for "Bolus")
+ * don't count as a change
+ */
+
+import { ScraperError } from './errors';
+import { getColumnKey, getSectionKind, readCsvSections } from './csv-parser';
+import type { CsvSchemaDiff } from './types';
+
+/**
+ * One version of the export layout: its sections and their columns
+ * Columns are compared by name without units, in any order
+ * Every section title must be one the parser knows
+ */
+interface CsvSchema {
+  version: string;
+  sections: { title: string; columns: string[] }[];
+}
+
+// Oldest first; the last entry is the layout exports are expected to have
+const CSV_SCHEMAS: CsvSchema[] = [
+  {
+    version: '1',
+    sections: [
+      { title: 'CGM Readings', columns: ['DeviceType', 'SerialNumber', 'EventDateTime', 'Readings (mg/dL)', 'RecordId'] },
+      {
+        title: 'Bolus',
+        columns: ['SerialNumber', 'CompletionDateTime', 'InsulinDelivered (U)', 'CarbSize (g)', 'BG (mg/dL)', 'Description', 'RecordId'],
+      },
+      { title: 'Basal', columns: ['SerialNumber', 'EventDateTime', 'BasalRate (U/hr)', 'Duration (min)', 'RecordId'] },
+      {
+        title: 'Control-IQ Events',
+        columns: ['SerialNumber', 'EventDateTime', 'EventType', 'ActivityMode', 'Duration (min)', 'RecordId'],
+      },
+      { title: 'Alarms', columns: ['SerialNumber', 'EventDateTime', 'AlarmType', 'Description', 'RecordId'] },
+      {
+        title: 'Device Events',
+        columns: ['SerialNumber', 'EventDateTime', 'EventType', 'Description', 'PreviousTime', 'NewTime', 'RecordId'],
+      },
+    ],
+  },
+];
+
+export const CURRENT_CSV_SCHEMA_VERSION = CSV_SCHEMAS[CSV_SCHEMAS.length - 1].version;
+
+/**
+ * Compares an export's sections with a schema
+ * Sections the export leaves out aren't a change by themselves, as an export
+ * can skip a section it has no rows for
+ */
+function diffSchema(sections: { title: string; headers: string[] }[], schema: CsvSchema): CsvSchemaDiff {
+  const expected = new Map(schema.sections.map(section => [getSectionKind(section.title), section]));
+  const diff: CsvSchemaDiff = {
+    expectedVersion: schema.version,
+    addedSections: [],
+    missingSections: [],
+    changedSections: [],
+  };
+
+  for (const { title, headers } of sections) {
+    const kind = getSectionKind(title);
+    const section = kind && expected.get(kind);
+    if (!section) {
+      diff.addedSections.push(title);
+      continue;
+    }
+    expected.delete(kind);
+
+    const exported = new Set(headers.map(getColumnKey));
+    const known = new Set(section.columns.map(getColumnKey));
+    const addedColumns = headers.filter(header => !known.has(getColumnKey(header)));
+    const missingColumns = section.columns.filter(column => !exported.has(getColumnKey(column)));
+
+    if (addedColumns.length > 0 || missingColumns.length > 0) {
+      diff.changedSections.push({ title, addedColumns, missingColumns });
+    }
+  }
+
+  diff.missingSections = [...expected.values()].map(section => section.title);
+  return diff;
+}
+
+/**
+ * Whether a diff has changes that make the export a new layout
+ */
+function isFormatChange(diff: CsvSchemaDiff): boolean {
+  return diff.addedSections.length > 0 || diff.changedSections.length > 0;
+}
+
+/**
+ * Describes a diff in one line, for error messages
+ */
+export function describeSchemaDiff(diff: CsvSchemaDiff): string {
+  const quote = (names: string[]) => names.map(name => `"${name}"`).join(', ');
+  const parts: string[] = [];
+
+  if (diff.addedSections.length > 0) parts.push(`new sections ${quote(diff.addedSections)}`);
+  if (diff.missingSections.length > 0) parts.push(`missing sections ${quote(diff.missingSections)}`);
+  for (const section of diff.changedSections) {
+    const changes = [
+      section.addedColumns.length > 0 && `new columns ${quote(section.addedColumns)}`,
+      section.missingColumns.length > 0 && `missing columns ${quote(section.missingColumns)}`,
+    ].filter(Boolean);
+    parts.push(`"${section.title}" has ${changes.join(' and ')}`);
+  }
+
+  return parts.join('; ');
+}
+
+/**
+ * Finds the schema version a CSV export matches
+ * @returns The newest matching version
+ * @throws ScraperError (FORMAT_CHANGED, step 'parse') with a diff against the
+ *         current schema if no version matches
+ */
+export function detectCsvSchema(csv: string | Buffer): string {
+  const sections = readCsvSections(csv);
+
+  for (const schema of [...CSV_SCHEMAS].reverse()) {
+    if (!isFormatChange(diffSchema(sections, schema))) {
+      return schema.version;
+    }
+  }
+
+  const diff = diffSchema(sections, CSV_SCHEMAS[CSV_SCHEMAS.length - 1]);
+  throw new ScraperError(
+    'FORMAT_CHANGED',
+    'parse',
+    `The CSV export no longer matches schema version ${diff.expectedVersion}: ${describeSchemaDiff(diff)}`,
+    { formatDiff: diff }
+  );
+}
@@ -0,0 +1,100 @@
+/**
+ * Calendar date helpers for report date ranges
+ * Dates are plain calendar days in YYYY-MM-DD format, matching what the
+ * Tandem Source date picker works with
+ */
+
+import { DEFAULT_TIME_ZONE, toWallTime } from './time-zone';
+import type { DateRange } from './types';
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Formats a Date as a YYYY-MM-DD calendar date in a time zone (default UTC),
+ * never in the server's own zone
+ */
+export function toDateString(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  return toWallTime(date, timeZone).slice(0, 10);
+}
+
+/**
+ * Checks that a string is a valid YYYY-MM-DD calendar date
+ */
+export function isValidDateString(value: string): boolean {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return false;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  return date.getUTCFullYear() === year &&
+         date.getUTCMonth() === month - 1 &&
+         date.getUTCDate() === day;
+}
+
+/**
+ * Adds (or subtracts) a number of days to a YYYY-MM-DD date
+ */
+export function addDays(dateString: string, days: number): string {
+  const [year, month, day] = dateString.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day) + days * MS_PER_DAY);
+
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Number of calendar days covered by a range, inclusive of both ends
+ */
+export function countDays(range: DateRange): number {
+  const start = Date.parse(`${range.startDate}T00:00:00Z`);
+  const end = Date.parse(`${range.endDate}T00:00:00Z`);
+
+  return Math.round((end - start) / MS_PER_DAY) + 1;
+}
+
+/**
+ * Builds the range for the last N days, ending today
+ * A 2-day range is yesterday and today, so yesterday's complete data is included
+ */
+export function lastNDays(days: number, today: Date = new Date(), timeZone?: string): DateRange {
+  const endDate = toDateString(today, timeZone);
+
+  return {
+    startDate: addDays(endDate, -(Math.max(days, 1) - 1)),
+    endDate,
+  };
+}
+
+/**
+ * Resolves the range a scrape should request
+ * Explicit start/end dates win; otherwise the last `reportDays` days are used,
+ * ending today in `timeZone` (default UTC)
+ */
+export function resolveDateRange(options: {
+  reportDays: number;
+  startDate?: string;
+  endDate?: string;
+  timeZone?: string;
+}): DateRange {
+  const { reportDays, startDate, endDate, timeZone } = options;
+
+  if (!startDate && !endDate) {
+    return lastNDays(reportDays, new Date(), timeZone);
+  }
+
+  const range: DateRange = {
+    startDate: startDate || addDays(endDate!, -(Math.max(reportDays, 1) - 1)),
+    endDate: endDate || toDateString(new Date(), timeZone),
+  };
+
+  if (!isValidDateString(range.startDate) || !isValidDateString(range.endDate)) {
+    throw new Error(`Invalid date range: ${range.startDate} to ${range.endDate} (expected YYYY-MM-DD)`);
+  }
+
+  if (range.startDate > range.endDate) {
+    throw new Error(`Invalid date range: start ${range.startDate} is after end ${range.endDate}`);
+  }
+
+  return range;
+}
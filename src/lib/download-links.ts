@@ -0,0 +1,74 @@
+/**
+ * Short-lived signed download links
+ * The dashboard can't send the API key with a plain link, so it gets report
+ * URLs carrying an expiry and an HMAC-SHA256 signature over the path and
+ * query instead. The signing key is derived from SESSION_ENCRYPTION_KEY
+ * (falls back to API_KEY), so changing either invalidates issued links
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getEncryptionKey } from './encryption';
+
+// How long a signed link works, in seconds
+export const DOWNLOAD_LINK_TTL_SECONDS = 15 * 60;
+
+// Any origin works: only the path and query are signed
+const BASE_URL = 'http://localhost';
+
+/**
+ * Derives the signing key, separate from the encryption key it comes from
+ * @returns The key, or null if no secret is configured
+ */
+function getSigningKey(): Buffer | null {
+  const key = getEncryptionKey();
+  return key ? createHmac('sha256', key).update('download-links').digest() : null;
+}
+
+/**
+ * Signature of a URL's path and query, without its signature parameter
+ */
+function sign(url: URL, key: Buffer): string {
+  const params = new URLSearchParams(url.searchParams);
+  params.delete('signature');
+
+  return createHmac('sha256', key).update(`${url.pathname}?${params.toString()}`).digest('base64url');
+}
+
+/**
+ * Adds an expiry and a signature to a same-origin path, e.g. /api/reports/x.csv?account=default
+ * @param now - Signing time (default: now)
+ * @returns The signed path and query
+ * @throws Error if neither SESSION_ENCRYPTION_KEY nor API_KEY is set
+ */
+export function signDownloadUrl(pathWithQuery: string, now: Date = new Date()): string {
+  const key = getSigningKey();
+  if (!key) {
+    throw new Error('SESSION_ENCRYPTION_KEY or API_KEY must be set to sign download links');
+  }
+
+  const url = new URL(pathWithQuery, BASE_URL);
+  url.searchParams.set('expires', String(Math.floor(now.getTime() / 1000) + DOWNLOAD_LINK_TTL_SECONDS));
+  url.searchParams.set('signature', sign(url, key));
+
+  return `${url.pathname}${url.search}`;
+}
+
+/**
+ * Checks a request URL signed by signDownloadUrl
+ * @param now - Check time (default: now)
+ * @returns true if the signature matches and the link hasn't expired
+ */
+export function verifyDownloadUrl(url: URL, now: Date = new Date()): boolean {
+  const key = getSigningKey();
+  const signature = url.searchParams.get('signature');
+  const expires = Number(url.searchParams.get('expires'));
+
+  if (!key || !signature || !Number.isSafeInteger(expires) || expires * 1000 < now.getTime()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(url, key));
+  const actual = Buffer.from(signature);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,140 @@
+/**
+ * Symmetric encryption for sensitive data kept in storage
+ * AES-256-GCM. The saved login session uses a key derived from
+ * SESSION_ENCRYPTION_KEY (falls back to API_KEY); everything written to the
+ * blob store uses one derived from STORAGE_ENCRYPTION_KEY (same fallback)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Marks a stored file as encrypted: magic bytes, then IV, auth tag and ciphertext
+const STORED_FILE_MAGIC = Buffer.from('TSSENC1\n', 'latin1');
+
+/**
+ * Encrypted data as stored (all fields base64)
+ */
+export interface EncryptedPayload {
+  version: 1;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Derives the 256-bit encryption key from configuration
+ * @returns The key, or null if no secret is configured
+ */
+export function getEncryptionKey(): Buffer | null {
+  const secret = process.env.SESSION_ENCRYPTION_KEY || process.env.API_KEY;
+
+  if (!secret) {
+    return null;
+  }
+
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypts a buffer
+ */
+export function encryptBuffer(plaintext: Buffer, key: Buffer): EncryptedPayload {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return {
+    version: 1,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Decrypts a payload produced by encryptBuffer
+ * Throws if the key is wrong or the data was tampered with
+ */
+export function decryptBuffer(payload: EncryptedPayload, key: Buffer): Buffer {
+  if (payload.version !== 1) {
+    throw new Error(`Unsupported encrypted payload version: ${payload.version}`);
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(payload.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(payload.data, 'base64')),
+    decipher.final(),
+  ]);
+}
+
+/**
+ * Encrypts a JSON-serializable value
+ */
+export function encryptJson(value: unknown, key: Buffer): EncryptedPayload {
+  return encryptBuffer(Buffer.from(JSON.stringify(value), 'utf-8'), key);
+}
+
+/**
+ * Decrypts a payload produced by encryptJson
+ */
+export function decryptJson<T>(payload: EncryptedPayload, key: Buffer): T {
+  return JSON.parse(decryptBuffer(payload, key).toString('utf-8')) as T;
+}
+
+/**
+ * Derives the keys for files in storage
+ * @returns The key to encrypt with first, then older keys files may still be
+ *          encrypted with (API_KEY, once STORAGE_ENCRYPTION_KEY is added);
+ *          empty if no secret is configured
+ */
+export function getStorageEncryptionKeys(): Buffer[] {
+  const secrets = [process.env.STORAGE_ENCRYPTION_KEY, process.env.API_KEY]
+    .filter((secret): secret is string => !!secret);
+
+  return [...new Set(secrets)].map(secret => createHash('sha256').update(secret).digest());
+}
+
+/**
+ * Whether stored file contents were written by encryptStoredFile
+ */
+export function isEncryptedStoredFile(contents: Buffer): boolean {
+  return contents.subarray(0, STORED_FILE_MAGIC.length).equals(STORED_FILE_MAGIC);
+}
+
+/**
+ * Encrypts a file for storage, as binary (no base64, unlike encryptBuffer)
+ */
+export function encryptStoredFile(plaintext: Buffer, key: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return Buffer.concat([STORED_FILE_MAGIC, iv, cipher.getAuthTag(), data]);
+}
+
+/**
+ * Decrypts a file produced by encryptStoredFile, trying each key in turn
+ * Throws if no key fits or the file was tampered with
+ */
+export function decryptStoredFile(contents: Buffer, keys: Buffer[]): Buffer {
+  const iv = contents.subarray(STORED_FILE_MAGIC.length, STORED_FILE_MAGIC.length + IV_LENGTH);
+  const tag = contents.subarray(STORED_FILE_MAGIC.length + IV_LENGTH, STORED_FILE_MAGIC.length + IV_LENGTH + TAG_LENGTH);
+  const data = contents.subarray(STORED_FILE_MAGIC.length + IV_LENGTH + TAG_LENGTH);
+
+  for (const key of keys) {
+    try {
+      const decipher = createDecipheriv(ALGORITHM, key, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(data), decipher.final()]);
+    } catch {
+      // Try the next key
+    }
+  }
+
+  throw new Error('Stored file could not be decrypted - was STORAGE_ENCRYPTION_KEY or API_KEY changed?');
+}
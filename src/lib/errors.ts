@@ -0,0 +1,138 @@
+/**
+ * Structured scraper/sync errors
+ * Every failure carries a code, the step it happened in, whether a retry
+ * could help, and what the user should do about it
+ */
+
+import type { CsvSchemaDiff, ScraperErrorCode, ScraperErrorInfo, ScraperStep } from './types';
+
+/**
+ * Default retry advice and recommended action for each error code
+ */
+const ERROR_GUIDANCE: Record<ScraperErrorCode, { retryable: boolean; action: string }> = {
+  INVALID_CREDENTIALS: {
+    retryable: false,
+    action: 'Check TANDEM_USERNAME and TANDEM_PASSWORD, and try logging in to Tandem Source manually',
+  },
+  MFA_REQUIRED: {
+    retryable: false,
+    action: 'Configure TANDEM_TOTP_SECRET (authenticator app) or TANDEM_MFA_MAILDIR (emailed codes)',
+  },
+  SSO_REDIRECT_FAILED: {
+    retryable: true,
+    action: 'Tandem Source or its login service may be down; retry later. If it keeps failing, the login flow may have changed',
+  },
+  SELECTOR_MISSING: {
+    retryable: false,
+    action: 'Tandem Source has likely changed its pages; the scraper needs an update',
+  },
+  NAVIGATION_TIMEOUT: {
+    retryable: true,
+    action: 'Tandem Source is slow or unavailable; retry later',
+  },
+  DOWNLOAD_TIMEOUT: {
+    retryable: true,
+    action: 'The export did not finish in time; retry later or request fewer days',
+  },
+  DOWNLOAD_INVALID: {
+    retryable: true,
+    action: 'The export was empty, incomplete or not a CSV; retry later. If it keeps failing, the export format may have changed',
+  },
+  FORMAT_CHANGED: {
+    retryable: false,
+    action: 'Tandem Source has changed its CSV export; the raw report was kept for inspection. Update the parser and add the new layout to src/lib/csv-schema.ts',
+  },
+  BROWSER_LAUNCH_FAILED: {
+    retryable: true,
+    action: 'Check the browser configuration and the deployment logs',
+  },
+  STORAGE_FAILURE: {
+    retryable: true,
+    action: 'Check that Blob storage is enabled and BLOB_READ_WRITE_TOKEN is set',
+  },
+  CONFIGURATION_ERROR: {
+    retryable: false,
+    action: 'Fix the configuration described in the error message',
+  },
+  UNKNOWN: {
+    retryable: true,
+    action: 'Check the function logs for details',
+  },
+};
+
+/**
+ * An error with a machine-readable code and the step it happened in
+ */
+export class ScraperError extends Error {
+  readonly code: ScraperErrorCode;
+  readonly step: ScraperStep;
+  readonly retryable: boolean;
+  readonly action: string;
+  readonly formatDiff?: CsvSchemaDiff;
+
+  constructor(
+    code: ScraperErrorCode,
+    step: ScraperStep,
+    message: string,
+    overrides: { retryable?: boolean; action?: string; formatDiff?: CsvSchemaDiff } = {}
+  ) {
+    super(message);
+    this.name = 'ScraperError';
+    this.code = code;
+    this.step = step;
+    this.retryable = overrides.retryable ?? ERROR_GUIDANCE[code].retryable;
+    this.action = overrides.action ?? ERROR_GUIDANCE[code].action;
+    this.formatDiff = overrides.formatDiff;
+  }
+
+  /**
+   * Serializable form for results, storage and API responses
+   */
+  toInfo(): ScraperErrorInfo {
+    return {
+      code: this.code,
+      step: this.step,
+      message: this.message,
+      retryable: this.retryable,
+      action: this.action,
+      ...(this.formatDiff && { formatDiff: this.formatDiff }),
+    };
+  }
+}
+
+/**
+ * Converts any thrown value into a ScraperError
+ * Errors that aren't already classified are classified by type and message,
+ * attributed to the step that was running
+ */
+export function toScraperError(error: unknown, step: ScraperStep): ScraperError {
+  if (error instanceof ScraperError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error || 'Unknown error');
+
+  if (step === 'launch') {
+    return new ScraperError('BROWSER_LAUNCH_FAILED', step, message);
+  }
+
+  if (step === 'storage') {
+    return new ScraperError('STORAGE_FAILURE', step, message);
+  }
+
+  // Puppeteer throws TimeoutError for both selectors and navigations
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    if (/waiting for selector/i.test(message)) {
+      return new ScraperError('SELECTOR_MISSING', step, message);
+    }
+    return new ScraperError(step === 'download' ? 'DOWNLOAD_TIMEOUT' : 'NAVIGATION_TIMEOUT', step, message);
+  }
+
+  if (/net::ERR_|ECONNREFUSED|ENOTFOUND/.test(message)) {
+    return new ScraperError('NAVIGATION_TIMEOUT', step, message, {
+      action: 'Tandem Source could not be reached; check connectivity and the configured URLs',
+    });
+  }
+
+  return new ScraperError('UNKNOWN', step, message);
+}
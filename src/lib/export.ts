@@ -0,0 +1,227 @@
+/**
+ * Generated exports of the canonical timeline for a date range, as an
+ * alternative to the raw per-sync CSV reports: newline-delimited JSON, one
+ * deduplicated CSV, or a SQLite database with a table per kind of data
+ *
+ * Every record appears once, whatever number of reports it came from, and
+ * has its UTC time (see pump-time.ts) next to the pump-local one
+ */
+
+import { getRecordUtc } from './pump-time';
+import { writeSqliteDatabase } from './sqlite-writer';
+import type { SqliteTable, SqliteValue } from './sqlite-writer';
+import { loadTimelineDays, RECORD_KINDS } from './timeline';
+import type { DateRange, ExportFile, ExportFormat, RecordKind, TandemAccount, TimelineDay, TimelineEntry } from './types';
+
+// Default and longest ranges for exports, in days
+export const EXPORT_DEFAULT_DAYS = 30;
+export const EXPORT_MAX_DAYS = 366;
+
+/**
+ * A record as a flat row, by snake_case column name
+ */
+type Row = Record<string, SqliteValue>;
+
+/**
+ * The SQLite tables and the record kinds each one holds
+ * The combined CSV has a kind column followed by every column below
+ */
+const TABLES: (Omit<SqliteTable, 'rows'> & { kinds: RecordKind[] })[] = [
+  {
+    name: 'readings',
+    kinds: ['cgm'],
+    columns: [
+      { name: 'time', type: 'TEXT' },
+      { name: 'utc', type: 'TEXT' },
+      { name: 'time_flag', type: 'TEXT' },
+      { name: 'value', type: 'INTEGER' },
+      { name: 'device_type', type: 'TEXT' },
+      { name: 'serial_number', type: 'TEXT' },
+      { name: 'record_id', type: 'INTEGER' },
+    ],
+  },
+  {
+    name: 'boluses',
+    kinds: ['boluses'],
+    columns: [
+      { name: 'time', type: 'TEXT' },
+      { name: 'utc', type: 'TEXT' },
+      { name: 'time_flag', type: 'TEXT' },
+      { name: 'insulin', type: 'REAL' },
+      { name: 'carbs', type: 'REAL' },
+      { name: 'bg', type: 'INTEGER' },
+      { name: 'automatic', type: 'INTEGER' },
+      { name: 'description', type: 'TEXT' },
+      { name: 'serial_number', type: 'TEXT' },
+      { name: 'record_id', type: 'INTEGER' },
+    ],
+  },
+  {
+    name: 'basal',
+    kinds: ['basal'],
+    columns: [
+      { name: 'time', type: 'TEXT' },
+      { name: 'utc', type: 'TEXT' },
+      { name: 'time_flag', type: 'TEXT' },
+      { name: 'rate', type: 'REAL' },
+      { name: 'duration_minutes', type: 'INTEGER' },
+      { name: 'serial_number', type: 'TEXT' },
+      { name: 'record_id', type: 'INTEGER' },
+    ],
+  },
+  {
+    name: 'events',
+    kinds: ['controlIq', 'alarms', 'deviceEvents'],
+    columns: [
+      { name: 'kind', type: 'TEXT' },
+      { name: 'time', type: 'TEXT' },
+      { name: 'utc', type: 'TEXT' },
+      { name: 'time_flag', type: 'TEXT' },
+      { name: 'type', type: 'TEXT' },
+      { name: 'description', type: 'TEXT' },
+      { name: 'activity_mode', type: 'TEXT' },
+      { name: 'duration_minutes', type: 'INTEGER' },
+      { name: 'previous_time', type: 'TEXT' },
+      { name: 'new_time', type: 'TEXT' },
+      { name: 'serial_number', type: 'TEXT' },
+      { name: 'record_id', type: 'INTEGER' },
+    ],
+  },
+];
+
+const CSV_COLUMNS = [...new Set(['kind', ...TABLES.flatMap(table => table.columns.map(column => column.name))])];
+
+/**
+ * Reads the format parameter
+ * @throws Error with a message for the client if it is missing or unknown
+ */
+export function parseExportFormat(value: string | null): ExportFormat {
+  if (!value || !EXPORT_FORMATS.includes(value as ExportFormat)) {
+    throw new Error(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+  return value as ExportFormat;
+}
+
+/**
+ * The records of stored days, each with its UTC time, sorted by time
+ */
+function toEntries(days: TimelineDay[], timeZone: string): TimelineEntry[] {
+  return days.flatMap(day => RECORD_KINDS
+    .flatMap(kind => day[kind].map(record => ({ kind, ...record, utc: getRecordUtc(record, timeZone) }) as TimelineEntry))
+    .sort((a, b) => a.time.localeCompare(b.time) || RECORD_KINDS.indexOf(a.kind) - RECORD_KINDS.indexOf(b.kind))
+  );
+}
+
+/**
+ * A record as a flat row
+ */
+function toRow(entry: TimelineEntry): Row {
+  const row: Row = {
+    kind: entry.kind,
+    time: entry.time,
+    utc: entry.utc,
+    time_flag: entry.timeFlag,
+    serial_number: entry.serialNumber,
+    record_id: entry.recordId,
+  };
+
+  switch (entry.kind) {
+    case 'cgm':
+      return { ...row, value: entry.value, device_type: entry.deviceType };
+    case 'boluses':
+      return {
+        ...row,
+        insulin: entry.insulin,
+        carbs: entry.carbs,
+        bg: entry.bg,
+        automatic: entry.automatic,
+        description: entry.description,
+      };
+    case 'basal':
+      return { ...row, rate: entry.rate, duration_minutes: entry.durationMinutes };
+    case 'controlIq':
+      return { ...row, type: entry.type, activity_mode: entry.activityMode, duration_minutes: entry.durationMinutes };
+    case 'alarms':
+      return { ...row, type: entry.type, description: entry.description };
+    case 'deviceEvents':
+      return {
+        ...row,
+        type: entry.type,
+        description: entry.description,
+        previous_time: entry.previousTime,
+        new_time: entry.newTime,
+      };
+  }
+}
+
+/**
+ * Quotes a CSV field if it contains a separator, quote or line break
+ */
+function csvField(value: SqliteValue): string {
+  if (value === null || value === undefined) return '';
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders records as one CSV, with a column for every field of every kind
+ */
+function toCsv(entries: TimelineEntry[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const entry of entries) {
+    const row = toRow(entry);
+    lines.push(CSV_COLUMNS.map(column => csvField(row[column])).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Renders records as newline-delimited JSON, one record per line
+ */
+function toNdjson(entries: TimelineEntry[]): string {
+  return entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+}
+
+/**
+ * Renders records as a SQLite database
+ */
+function toSqlite(entries: TimelineEntry[]): Buffer {
+  return writeSqliteDatabase(TABLES.map(({ kinds, ...table }) => ({
+    ...table,
+    rows: entries
+      .filter(entry => kinds.includes(entry.kind))
+      .map(toRow)
+      .map(row => table.columns.map(column => row[column.name])),
+  })));
+}
+
+/**
+ * File extension, content type and renderer of each format
+ */
+const FORMATS: Record<ExportFormat, { extension: string; contentType: string; render: (entries: TimelineEntry[]) => Buffer }> = {
+  ndjson: { extension: 'ndjson', contentType: 'application/x-ndjson', render: entries => Buffer.from(toNdjson(entries)) },
+  csv: { extension: 'csv', contentType: 'text/csv', render: entries => Buffer.from(toCsv(entries)) },
+  sqlite: { extension: 'sqlite', contentType: 'application/vnd.sqlite3', render: toSqlite },
+};
+
+export const EXPORT_FORMATS = Object.keys(FORMATS) as ExportFormat[];
+
+/**
+ * Generates an export of a range of an account's timeline
+ */
+export async function createExport(format: ExportFormat, range: DateRange, account: TandemAccount): Promise<ExportFile> {
+  const days = await loadTimelineDays(range, account.id);
+  const entries = toEntries(days, account.timeZone);
+  const { extension, contentType, render } = FORMATS[format];
+
+  const file: ExportFile = {
+    filename: `tandem-${account.id}-${range.startDate}-${range.endDate}.${extension}`,
+    contentType,
+    body: render(entries),
+    records: entries.length,
+  };
+
+  console.log(`[Export] ${file.records} records from ${days.length} days as ${file.filename} (${file.body.length} bytes)`);
+  return file;
+}
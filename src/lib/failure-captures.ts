@@ -0,0 +1,78 @@
+/**
+ * Failure captures - the page a scraper step failed on in a production run,
+ * stored with the steps leading up to it so selector breakage can be diagnosed
+ * without reproducing it locally
+ */
+
+import { randomUUID } from 'crypto';
+import { deleteExpiredFailureCaptures, storeFailureCapture } from './blob-storage';
+import type { CaptureSource, FailureCapture, FailureCaptureRecord, ScraperErrorCode } from './types';
+
+const DEFAULT_RETENTION_DAYS = 7;
+
+/**
+ * Whether sync and backfill runs should capture the failing page
+ * Set FAILURE_CAPTURE=off to disable (captures can contain health data)
+ */
+export function isFailureCaptureEnabled(): boolean {
+  return process.env.FAILURE_CAPTURE?.toLowerCase() !== 'off';
+}
+
+/**
+ * How long captures are kept, from CAPTURE_RETENTION_DAYS (default: 7)
+ */
+export function getCaptureRetentionDays(): number {
+  const days = parseInt(process.env.CAPTURE_RETENTION_DAYS || '', 10);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Stores a failure capture for a run and deletes expired ones
+ * Never throws - a failed upload must not hide the original error
+ * @returns The stored record's id, or undefined if it couldn't be stored
+ */
+export async function recordFailureCapture(options: {
+  runId: string;
+  source: CaptureSource;
+  accountId?: string;
+  failure: FailureCapture;
+  errorCode?: ScraperErrorCode;
+  message: string;
+}): Promise<string | undefined> {
+  const { runId, source, accountId, failure, errorCode, message } = options;
+  const createdAt = new Date();
+  const expiresAt = new Date(createdAt.getTime() + getCaptureRetentionDays() * 24 * 60 * 60 * 1000);
+
+  let record: FailureCaptureRecord;
+  try {
+    // A random id, since blob URLs are public and the page may show health data
+    record = await storeFailureCapture({
+      id: randomUUID(),
+      runId,
+      source,
+      accountId,
+      createdAt: createdAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      step: failure.step,
+      errorCode,
+      message,
+      url: failure.page.url,
+      title: failure.page.title,
+      trail: failure.trail,
+    }, failure.page);
+  } catch (error) {
+    console.error('[Captures] Error storing failure capture:', error);
+    return undefined;
+  }
+
+  await deleteExpiredFailureCaptures(accountId, createdAt);
+
+  return record.id;
+}
+
+/**
+ * Whether a capture has passed its expiry time
+ */
+export function isCaptureExpired(record: FailureCaptureRecord, now: Date = new Date()): boolean {
+  return new Date(record.expiresAt) <= now;
+}
@@ -0,0 +1,205 @@
+/**
+ * FHIR R4 export of the timeline, for patient portals and health record apps
+ *
+ * CGM readings become LOINC-coded Observations; boluses and basal rates
+ * become MedicationAdministrations. Resource ids are derived from the account
+ * and each record's timeline key, so they are the same in every export and a
+ * transaction Bundle of PUTs updates what an earlier import created
+ */
+
+import { createHash } from 'crypto';
+import { getRecordUtc } from './pump-time';
+import { loadTimelineDays, recordKey } from './timeline';
+import type {
+  BasalRateChange,
+  BolusDelivery,
+  CgmReading,
+  DateRange,
+  FhirBundle,
+  FhirResource,
+  RecordKind,
+  TandemAccount,
+  TimelineDay,
+} from './types';
+
+// Default and longest ranges for exports, in days
+export const FHIR_DEFAULT_DAYS = 7;
+export const FHIR_MAX_DAYS = 31;
+
+// Identifier systems for this service's records and accounts
+const RECORD_IDENTIFIER_SYSTEM = 'urn:tandem-source-sync:record';
+const ACCOUNT_IDENTIFIER_SYSTEM = 'urn:tandem-source-sync:account';
+
+const LOINC = 'http://loinc.org';
+const SNOMED = 'http://snomed.info/sct';
+const UCUM = 'http://unitsofmeasure.org';
+
+// Glucose [Mass/volume] in Interstitial fluid, as measured by a CGM
+const CGM_GLUCOSE_CODE = { system: LOINC, code: '99504-3', display: 'Glucose [Mass/volume] in Interstitial fluid' };
+
+const INSULIN_CODE = { system: SNOMED, code: '67866001', display: 'Insulin' };
+const SUBCUTANEOUS_ROUTE = { system: SNOMED, code: '34206005', display: 'Subcutaneous route' };
+
+const LABORATORY_CATEGORY = {
+  system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+  code: 'laboratory',
+  display: 'Laboratory',
+};
+
+/**
+ * A reference to the patient the resources are about
+ */
+interface Subject {
+  reference: string;
+}
+
+/**
+ * A stable id for a resource, formatted as a UUID (name-based, from a SHA-1
+ * hash like a version 5 UUID)
+ */
+function stableId(name: string): string {
+  const hex = createHash('sha1').update(name).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Id and identifier of the resource for a timeline record
+ */
+function recordIdentity(accountId: string, kind: RecordKind, key: string): { id: string; identifier: unknown[] } {
+  const value = `${accountId}/${kind}/${key}`;
+  return { id: stableId(value), identifier: [{ system: RECORD_IDENTIFIER_SYSTEM, value }] };
+}
+
+/**
+ * A CGM reading as an Observation
+ */
+function toObservation(reading: CgmReading, accountId: string, timeZone: string, subject: Subject): FhirResource {
+  return {
+    resourceType: 'Observation',
+    ...recordIdentity(accountId, 'cgm', recordKey('cgm', reading)),
+    status: 'final',
+    category: [{ coding: [LABORATORY_CATEGORY] }],
+    code: { coding: [CGM_GLUCOSE_CODE], text: 'CGM glucose' },
+    subject,
+    effectiveDateTime: getRecordUtc(reading, timeZone),
+    valueQuantity: { value: reading.value, unit: 'mg/dL', system: UCUM, code: 'mg/dL' },
+    ...(reading.deviceType && { device: { display: reading.deviceType } }),
+  };
+}
+
+/**
+ * A bolus as a MedicationAdministration of a dose
+ */
+function toBolusAdministration(bolus: BolusDelivery, accountId: string, timeZone: string, subject: Subject): FhirResource {
+  const kind = bolus.automatic ? 'Automatic correction bolus' : 'Bolus';
+  const carbs = bolus.carbs && bolus.carbs > 0 ? ` for ${bolus.carbs} g carbs` : '';
+
+  return {
+    resourceType: 'MedicationAdministration',
+    ...recordIdentity(accountId, 'boluses', recordKey('boluses', bolus)),
+    status: 'completed',
+    medicationCodeableConcept: { coding: [INSULIN_CODE], text: 'Insulin' },
+    subject,
+    effectiveDateTime: getRecordUtc(bolus, timeZone),
+    dosage: {
+      text: `${kind}${carbs}`,
+      route: { coding: [SUBCUTANEOUS_ROUTE] },
+      dose: { value: bolus.insulin, unit: 'U', system: UCUM, code: '[iU]' },
+    },
+  };
+}
+
+/**
+ * A basal rate as a MedicationAdministration at a rate, over the time it ran
+ * when the export says how long that was
+ */
+function toBasalAdministration(basal: BasalRateChange, accountId: string, timeZone: string, subject: Subject): FhirResource {
+  const start = getRecordUtc(basal, timeZone);
+  const end = basal.durationMinutes !== undefined
+    ? new Date(Date.parse(start) + basal.durationMinutes * 60 * 1000).toISOString()
+    : undefined;
+
+  return {
+    resourceType: 'MedicationAdministration',
+    ...recordIdentity(accountId, 'basal', recordKey('basal', basal)),
+    status: 'completed',
+    medicationCodeableConcept: { coding: [INSULIN_CODE], text: 'Insulin' },
+    subject,
+    effectivePeriod: { start, ...(end && { end }) },
+    dosage: {
+      text: 'Basal rate',
+      route: { coding: [SUBCUTANEOUS_ROUTE] },
+      rateQuantity: { value: basal.rate, unit: 'U/h', system: UCUM, code: '[iU]/h' },
+    },
+  };
+}
+
+/**
+ * Reads the optional patient parameter: a reference to the Patient the
+ * receiving system already has, e.g. Patient/123
+ * @throws Error with a message for the client if it isn't a Patient reference
+ */
+export function parsePatientReference(value: string | null): string | undefined {
+  if (!value) return undefined;
+
+  if (!/^Patient\/[A-Za-z0-9\-.]{1,64}$/.test(value)) {
+    throw new Error('patient must be a reference such as Patient/123');
+  }
+  return value;
+}
+
+/**
+ * Builds a transaction Bundle of an account's CGM readings and insulin doses
+ * @param days - Stored timeline days to export
+ * @param account - The account the days belong to
+ * @param patient - Reference to an existing Patient; without it the Bundle
+ *                  includes a Patient identified by the account id
+ */
+export function buildFhirBundle(days: TimelineDay[], account: TandemAccount, patient?: string): FhirBundle {
+  const resources: FhirResource[] = [];
+
+  let subject: Subject;
+  if (patient) {
+    subject = { reference: patient };
+  } else {
+    const id = stableId(`${account.id}/patient`);
+    subject = { reference: `Patient/${id}` };
+    resources.push({
+      resourceType: 'Patient',
+      id,
+      identifier: [{ system: ACCOUNT_IDENTIFIER_SYSTEM, value: account.id }],
+    });
+  }
+
+  for (const day of days) {
+    resources.push(
+      ...day.cgm.map(reading => toObservation(reading, account.id, account.timeZone, subject)),
+      ...day.boluses.map(bolus => toBolusAdministration(bolus, account.id, account.timeZone, subject)),
+      ...day.basal.map(basal => toBasalAdministration(basal, account.id, account.timeZone, subject))
+    );
+  }
+
+  return {
+    resourceType: 'Bundle',
+    type: 'transaction',
+    timestamp: new Date().toISOString(),
+    entry: resources.map(resource => ({
+      fullUrl: `urn:uuid:${resource.id}`,
+      resource,
+      request: { method: 'PUT', url: `${resource.resourceType}/${resource.id}` },
+    })),
+  };
+}
+
+/**
+ * Exports a range of an account's timeline as a FHIR Bundle
+ */
+export async function getFhirBundle(range: DateRange, account: TandemAccount, patient?: string): Promise<FhirBundle> {
+  const days = await loadTimelineDays(range, account.id);
+  const bundle = buildFhirBundle(days, account, patient);
+
+  console.log(`[FHIR] Exported ${bundle.entry.length} resources for ${range.startDate} to ${range.endDate}`);
+  return bundle;
+}
@@ -0,0 +1,183 @@
+/**
+ * Glycemic statistics over the CGM readings in the timeline: time in range,
+ * mean glucose, GMI, coefficient of variation, sensor wear and an ambulatory
+ * glucose profile (AGP)
+ * Bands and formulas follow the international consensus on CGM metrics
+ */
+
+import { addDays } from './date-range';
+import { toWallTime } from './time-zone';
+import { loadTimelineDays } from './timeline';
+import type { AgpHour, CgmReading, DateRange, GlucoseStats, GlucoseThresholds, TandemAccount } from './types';
+
+const DEFAULT_THRESHOLDS: GlucoseThresholds = { veryLow: 54, low: 70, high: 180, veryHigh: 250 };
+
+// Default and longest ranges for stats, in days (14 days is the usual AGP period)
+export const STATS_DEFAULT_DAYS = 14;
+export const STATS_MAX_DAYS = 90;
+
+// CGMs report every 5 minutes
+const MS_PER_READING = 5 * 60 * 1000;
+
+/**
+ * Glucose thresholds from GLUCOSE_LOW / GLUCOSE_HIGH (target range) and
+ * GLUCOSE_VERY_LOW / GLUCOSE_VERY_HIGH, with any overrides applied
+ * @throws Error if a threshold isn't a positive number, or they're out of order
+ */
+export function getGlucoseThresholds(overrides: Partial<Record<keyof GlucoseThresholds, string | null>> = {}): GlucoseThresholds {
+  const env: Record<keyof GlucoseThresholds, string | undefined> = {
+    veryLow: process.env.GLUCOSE_VERY_LOW,
+    low: process.env.GLUCOSE_LOW,
+    high: process.env.GLUCOSE_HIGH,
+    veryHigh: process.env.GLUCOSE_VERY_HIGH,
+  };
+
+  const thresholds = { ...DEFAULT_THRESHOLDS };
+  for (const name of Object.keys(thresholds) as (keyof GlucoseThresholds)[]) {
+    const value = overrides[name] || env[name];
+    if (!value) continue;
+
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      throw new Error(`Invalid ${name} threshold "${value}" (expected mg/dL)`);
+    }
+    thresholds[name] = parsed;
+  }
+
+  const { veryLow, low, high, veryHigh } = thresholds;
+  if (!(veryLow <= low && low < high && high <= veryHigh)) {
+    throw new Error(`Glucose thresholds must be in order: veryLow ${veryLow} <= low ${low} < high ${high} <= veryHigh ${veryHigh}`);
+  }
+
+  return thresholds;
+}
+
+/**
+ * Percentile of sorted values, interpolating between neighbours
+ */
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p / 100;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Rounds to one decimal place
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Glucose percentiles (5/25/50/75/95) for each hour of the day
+ */
+function computeAgp(readings: CgmReading[]): AgpHour[] {
+  const byHour: number[][] = Array.from({ length: 24 }, () => []);
+
+  for (const reading of readings) {
+    byHour[Number(reading.time.slice(11, 13))].push(reading.value);
+  }
+
+  return byHour.map((values, hour) => {
+    const sorted = values.sort((a, b) => a - b);
+    const band = (p: number) => sorted.length > 0 ? Math.round(percentile(sorted, p)) : null;
+
+    return {
+      hour,
+      readings: sorted.length,
+      p5: band(5),
+      p25: band(25),
+      p50: band(50),
+      p75: band(75),
+      p95: band(95),
+    };
+  });
+}
+
+/**
+ * Number of readings a CGM could have sent within a range of pump-local days
+ * The current day only counts up to now, and days still to come not at all
+ */
+function countExpectedReadings(range: DateRange, timeZone: string, now: Date): number {
+  const start = Date.parse(`${range.startDate}T00:00:00Z`);
+  const end = Math.min(
+    Date.parse(`${addDays(range.endDate, 1)}T00:00:00Z`),
+    Date.parse(`${toWallTime(now, timeZone)}Z`)
+  );
+
+  return Math.max(0, Math.floor((end - start) / MS_PER_READING));
+}
+
+/**
+ * Computes glycemic statistics for CGM readings
+ * @param readings - The readings within the range
+ * @param range - Days the readings cover, for sensor wear
+ * @param thresholds - Glucose bands for time in range
+ * @param timeZone - The pump's time zone, to tell how much of the current day has passed
+ * @param now - Current time (default: now)
+ */
+export function computeGlucoseStats(
+  readings: CgmReading[],
+  range: DateRange,
+  thresholds: GlucoseThresholds,
+  timeZone: string,
+  now: Date = new Date()
+): GlucoseStats {
+  const expected = countExpectedReadings(range, timeZone, now);
+  const base = {
+    range,
+    thresholds,
+    readings: readings.length,
+    sensorWearPercent: expected > 0 ? round1(Math.min(100, readings.length / expected * 100)) : 0,
+    agp: computeAgp(readings),
+  };
+
+  if (readings.length === 0) {
+    return {
+      ...base,
+      meanGlucose: null,
+      standardDeviation: null,
+      gmi: null,
+      coefficientOfVariation: null,
+      timeInRange: null,
+    };
+  }
+
+  const values = readings.map(reading => reading.value);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  const sd = Math.sqrt(variance);
+
+  const share = (matches: (value: number) => boolean) =>
+    round1(values.filter(matches).length / values.length * 100);
+
+  return {
+    ...base,
+    meanGlucose: Math.round(mean),
+    standardDeviation: round1(sd),
+    // GMI (%) = 3.31 + 0.02392 x mean glucose (mg/dL)
+    gmi: round1(3.31 + 0.02392 * mean),
+    coefficientOfVariation: round1(sd / mean * 100),
+    timeInRange: {
+      veryLow: share(value => value < thresholds.veryLow),
+      below: share(value => value < thresholds.low),
+      inRange: share(value => value >= thresholds.low && value <= thresholds.high),
+      above: share(value => value > thresholds.high),
+      veryHigh: share(value => value > thresholds.veryHigh),
+    },
+  };
+}
+
+/**
+ * Computes glycemic statistics for a range of an account's timeline
+ */
+export async function getGlucoseStats(
+  range: DateRange,
+  thresholds: GlucoseThresholds,
+  account: TandemAccount
+): Promise<GlucoseStats> {
+  const days = await loadTimelineDays(range, account.id);
+  return computeGlucoseStats(days.flatMap(day => day.cgm), range, thresholds, account.timeZone);
+}
@@ -0,0 +1,178 @@
+/**
+ * Insulin delivery summaries over the timeline: total daily dose, basal/bolus
+ * split, carbs, automatic versus user boluses and Control-IQ activity modes
+ */
+
+import { addDays } from './date-range';
+import { loadTimelineDays } from './timeline';
+import type {
+  ActivityMode,
+  BasalRateChange,
+  ControlIqEvent,
+  DailyInsulinSummary,
+  DateRange,
+  InsulinSummary,
+  TimelineDay,
+} from './types';
+
+// Default and longest ranges for summaries, in days
+export const INSULIN_DEFAULT_DAYS = 7;
+export const INSULIN_MAX_DAYS = 90;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * A span of pump-local time, as milliseconds on a naive (UTC) clock
+ */
+interface Interval {
+  start: number;
+  end: number;
+}
+
+/**
+ * A pump-local time as milliseconds, for arithmetic only
+ */
+function toMs(time: string): number {
+  return Date.parse(`${time}Z`);
+}
+
+/**
+ * The span of a pump-local day
+ */
+function dayInterval(date: string): Interval {
+  return { start: toMs(`${date}T00:00:00`), end: toMs(`${addDays(date, 1)}T00:00:00`) };
+}
+
+/**
+ * Length of the overlap between two spans, in minutes
+ */
+function overlapMinutes(a: Interval, b: Interval): number {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start)) / MS_PER_MINUTE;
+}
+
+/**
+ * Rounds to two decimal places, as insulin is delivered in small fractions of a unit
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * How long each basal rate ran: its exported duration, cut short by the next
+ * rate change, or until the next change (or the end of its day) if the
+ * export has no duration
+ */
+function basalSegments(basal: BasalRateChange[]): (Interval & { rate: number })[] {
+  return basal.map((segment, index) => {
+    const start = toMs(segment.time);
+    const next = basal[index + 1] ? toMs(basal[index + 1].time) : dayInterval(segment.time.slice(0, 10)).end;
+    const end = segment.durationMinutes !== undefined
+      ? Math.min(start + segment.durationMinutes * MS_PER_MINUTE, next)
+      : next;
+
+    return { start, end, rate: segment.rate };
+  });
+}
+
+/**
+ * Spans spent in Sleep or Exercise mode
+ * Uses each event's duration when exported, otherwise runs until the next
+ * Control-IQ event (e.g. "Sleep Ended")
+ */
+function activitySpans(events: ControlIqEvent[]): (Interval & { mode: ActivityMode })[] {
+  const spans: (Interval & { mode: ActivityMode })[] = [];
+
+  events.forEach((event, index) => {
+    const mode = event.activityMode;
+    if (mode !== 'sleep' && mode !== 'exercise') return;
+    if (/end|stop/i.test(event.type)) return;
+
+    const start = toMs(event.time);
+    const next = events[index + 1];
+    const end = event.durationMinutes !== undefined
+      ? start + event.durationMinutes * MS_PER_MINUTE
+      : next ? toMs(next.time) : dayInterval(event.time.slice(0, 10)).end;
+
+    spans.push({ start, end, mode });
+  });
+
+  return spans;
+}
+
+/**
+ * Summarizes one day
+ * @param day - The day to summarize
+ * @param basal - Basal segments, clipped to the day (they can run past midnight)
+ * @param activities - Activity mode spans, clipped to the day
+ */
+function summarizeDay(
+  day: TimelineDay,
+  basal: (Interval & { rate: number })[],
+  activities: (Interval & { mode: ActivityMode })[]
+): DailyInsulinSummary {
+  const span = dayInterval(day.date);
+
+  const basalInsulin = basal.reduce((sum, segment) => sum + segment.rate * overlapMinutes(segment, span) / 60, 0);
+  const bolusInsulin = day.boluses.reduce((sum, bolus) => sum + bolus.insulin, 0);
+  const totalInsulin = basalInsulin + bolusInsulin;
+  const automatic = day.boluses.filter(bolus => bolus.automatic);
+
+  const minutesIn = (mode: ActivityMode) => Math.round(activities
+    .filter(activity => activity.mode === mode)
+    .reduce((sum, activity) => sum + overlapMinutes(activity, span), 0));
+
+  return {
+    date: day.date,
+    complete: day.complete,
+    totalInsulin: round2(totalInsulin),
+    basalInsulin: round2(basalInsulin),
+    bolusInsulin: round2(bolusInsulin),
+    basalPercent: totalInsulin > 0 ? Math.round(basalInsulin / totalInsulin * 100) : null,
+    bolusPercent: totalInsulin > 0 ? Math.round(bolusInsulin / totalInsulin * 100) : null,
+    carbs: day.boluses.reduce((sum, bolus) => sum + (bolus.carbs ?? 0), 0),
+    userBoluses: day.boluses.length - automatic.length,
+    automaticBoluses: automatic.length,
+    automaticBolusInsulin: round2(automatic.reduce((sum, bolus) => sum + bolus.insulin, 0)),
+    sleepMinutes: minutesIn('sleep'),
+    exerciseMinutes: minutesIn('exercise'),
+  };
+}
+
+/**
+ * Summarizes insulin delivery for timeline days
+ * @param days - Stored days, oldest first; days before `range` only supply
+ *               basal rates and activity modes that run into it
+ * @param range - Days to summarize
+ */
+export function computeInsulinSummary(days: TimelineDay[], range: DateRange): InsulinSummary {
+  const basal = basalSegments(days.flatMap(day => day.basal));
+  const activities = activitySpans(days.flatMap(day => day.controlIq));
+
+  const summaries = days
+    .filter(day => day.date >= range.startDate && day.date <= range.endDate)
+    .map(day => summarizeDay(day, basal, activities));
+
+  const complete = summaries.filter(summary => summary.complete);
+  const averageOf = (pick: (summary: DailyInsulinSummary) => number) =>
+    round2(complete.reduce((sum, summary) => sum + pick(summary), 0) / complete.length);
+
+  return {
+    range,
+    days: summaries,
+    average: complete.length > 0 ? {
+      totalInsulin: averageOf(summary => summary.totalInsulin),
+      basalInsulin: averageOf(summary => summary.basalInsulin),
+      bolusInsulin: averageOf(summary => summary.bolusInsulin),
+      carbs: Math.round(averageOf(summary => summary.carbs)),
+    } : null,
+  };
+}
+
+/**
+ * Summarizes insulin delivery for a range of an account's timeline
+ */
+export async function getInsulinSummary(range: DateRange, accountId?: string): Promise<InsulinSummary> {
+  // The day before the range can have a basal rate or activity mode running past midnight
+  const days = await loadTimelineDays({ startDate: addDays(range.startDate, -1), endDate: range.endDate }, accountId);
+  return computeInsulinSummary(days, range);
+}
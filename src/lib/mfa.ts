@@ -0,0 +1,166 @@
+/**
+ * MFA code providers for the Tandem SSO second factor
+ * Supports authenticator (TOTP) codes and emailed codes read from a maildir
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ScraperError } from './errors';
+import { generateTotp, secondsUntilNextTotp } from './totp';
+import type { MfaChallenge, MfaCodeProvider } from './types';
+
+const EMAIL_CODE_TIMEOUT_MS = 120000; // 2 minutes for the email to arrive
+const EMAIL_POLL_INTERVAL_MS = 3000;
+const EMAIL_CODE_PATTERN = /\b(\d{6})\b/;
+
+/**
+ * Helper function to delay execution
+ */
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Thrown when the SSO asks for a second factor that can't be answered
+ */
+export class MfaRequiredError extends ScraperError {
+  constructor(public readonly challenge: MfaChallenge, reason: string) {
+    super('MFA_REQUIRED', 'mfa', `MFA required (${challenge.method}): ${reason}`);
+    this.name = 'MfaRequiredError';
+  }
+}
+
+/**
+ * Provides codes from an authenticator (TOTP) secret
+ */
+export function createTotpCodeProvider(secret: string): MfaCodeProvider {
+  return {
+    async getCode(challenge) {
+      if (challenge.method === 'email') return null;
+
+      // A code about to expire may be rejected by the time it's submitted
+      if (secondsUntilNextTotp() < 5) {
+        await delay(secondsUntilNextTotp() * 1000 + 500);
+      }
+
+      return generateTotp(secret);
+    },
+  };
+}
+
+/**
+ * Provides emailed codes by watching a maildir (new/ and cur/)
+ * Any local mail delivery or IMAP sync (e.g. mbsync, getmail) that writes a
+ * maildir works as the source
+ */
+export function createMaildirCodeProvider(
+  maildir: string,
+  timeoutMs: number = EMAIL_CODE_TIMEOUT_MS
+): MfaCodeProvider {
+  return {
+    async getCode(challenge) {
+      if (challenge.method === 'totp') return null;
+
+      console.log(`[MFA] Waiting for emailed code in ${maildir}...`);
+      const deadline = Date.now() + timeoutMs;
+
+      while (Date.now() < deadline) {
+        const code = await findEmailedCode(maildir, challenge.requestedAt);
+        if (code) {
+          console.log('[MFA] Found emailed code');
+          return code;
+        }
+        await delay(EMAIL_POLL_INTERVAL_MS);
+      }
+
+      console.warn('[MFA] No emailed code arrived in time');
+      return null;
+    },
+  };
+}
+
+/**
+ * Finds a code in the newest message delivered after the challenge
+ */
+async function findEmailedCode(maildir: string, since: Date): Promise<string | null> {
+  const messages: { file: string; mtime: number }[] = [];
+
+  for (const folder of ['new', 'cur']) {
+    const folderPath = path.join(maildir, folder);
+    let files: string[];
+    try {
+      files = await fs.readdir(folderPath);
+    } catch {
+      continue;
+    }
+
+    for (const file of files) {
+      const filePath = path.join(folderPath, file);
+      const stat = await fs.stat(filePath);
+      if (stat.mtimeMs >= since.getTime()) {
+        messages.push({ file: filePath, mtime: stat.mtimeMs });
+      }
+    }
+  }
+
+  messages.sort((a, b) => b.mtime - a.mtime);
+
+  for (const message of messages) {
+    const content = await fs.readFile(message.file, 'utf-8');
+    // Skip the headers - dates and message IDs often contain 6-digit runs
+    const bodyStart = content.search(/\r?\n\r?\n/);
+    const body = bodyStart === -1 ? content : content.substring(bodyStart);
+    const match = EMAIL_CODE_PATTERN.exec(body);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Tries each provider in turn until one returns a code
+ */
+export function combineCodeProviders(providers: MfaCodeProvider[]): MfaCodeProvider {
+  return {
+    async getCode(challenge) {
+      for (const provider of providers) {
+        const code = await provider.getCode(challenge);
+        if (code) return code;
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Builds the code provider for a TOTP secret and/or an MFA maildir
+ * @returns The provider, or undefined if neither is set
+ */
+export function createMfaCodeProvider(config: {
+  totpSecret?: string;
+  maildir?: string;
+}): MfaCodeProvider | undefined {
+  const providers: MfaCodeProvider[] = [];
+
+  if (config.totpSecret) {
+    providers.push(createTotpCodeProvider(config.totpSecret));
+  }
+
+  if (config.maildir) {
+    providers.push(createMaildirCodeProvider(config.maildir));
+  }
+
+  return providers.length > 0 ? combineCodeProviders(providers) : undefined;
+}
+
+/**
+ * Builds the code provider from environment configuration
+ * TANDEM_TOTP_SECRET enables authenticator codes, TANDEM_MFA_MAILDIR emailed codes
+ * @returns The provider, or undefined if MFA isn't configured
+ */
+export function createMfaCodeProviderFromEnv(): MfaCodeProvider | undefined {
+  return createMfaCodeProvider({
+    totpSecret: process.env.TANDEM_TOTP_SECRET,
+    maildir: process.env.TANDEM_MFA_MAILDIR,
+  });
+}
@@ -0,0 +1,245 @@
+/**
+ * Nightscout uploader - pushes timeline changes to a Nightscout site through
+ * its REST API (v1) after each sync
+ *
+ * CGM readings become entries; boluses (with their carbs) and basal rates
+ * become treatments. What was uploaded is tracked as a change feed cursor per
+ * account, so a record is only sent again if a later report corrects it, in
+ * which case Nightscout replaces its copy. Deleted records are left in Nightscout
+ */
+
+import { createHash } from 'crypto';
+import { getNightscoutState, storeNightscoutState } from './blob-storage';
+import { MAX_CHANGES_LIMIT, readChanges } from './change-feed';
+import { getRecordUtc } from './pump-time';
+import type {
+  BasalRateChange,
+  BolusDelivery,
+  CgmReading,
+  NightscoutConfig,
+  NightscoutUploadResult,
+  TandemAccount,
+  TimelineChange,
+} from './types';
+
+// Shown as the uploader in Nightscout
+const ENTERED_BY = 'tandem-source-sync';
+
+// Documents per request
+const BATCH_SIZE = 500;
+
+// Attempts per request, waiting RETRY_DELAY_MS (doubled each time) in between
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Changes uploaded per sync, so a first upload of a long history stays within
+// the function time limit; the rest goes with the next sync
+const MAX_CHANGES_PER_SYNC = 20000;
+
+/**
+ * A Nightscout document (entry, treatment or device status)
+ */
+type NightscoutDocument = Record<string, unknown>;
+
+/**
+ * The site to upload to, and what the upload has seen so far
+ */
+interface Upload {
+  config: NightscoutConfig;
+  timeZone: string;
+  retries: number; // Requests sent again after failing
+  clock?: string; // UTC time of the newest uploaded record
+}
+
+/**
+ * A CGM reading as a Nightscout sgv entry
+ */
+function toEntry(reading: CgmReading, timeZone: string): NightscoutDocument {
+  const dateString = getRecordUtc(reading, timeZone);
+
+  return {
+    type: 'sgv',
+    sgv: reading.value,
+    date: Date.parse(dateString),
+    dateString,
+    device: ENTERED_BY,
+  };
+}
+
+/**
+ * A bolus as a Meal Bolus (with carbs) or Correction Bolus treatment
+ */
+function toBolusTreatment(bolus: BolusDelivery, timeZone: string): NightscoutDocument {
+  const carbs = bolus.carbs && bolus.carbs > 0 ? bolus.carbs : undefined;
+
+  return {
+    eventType: carbs && !bolus.automatic ? 'Meal Bolus' : 'Correction Bolus',
+    created_at: getRecordUtc(bolus, timeZone),
+    enteredBy: ENTERED_BY,
+    insulin: bolus.insulin,
+    automatic: bolus.automatic,
+    ...(carbs && { carbs }),
+    ...(bolus.bg !== undefined && { glucose: bolus.bg, glucoseType: 'Finger', units: 'mg/dl' }),
+    ...(bolus.description && { notes: bolus.description }),
+  };
+}
+
+/**
+ * A basal rate change as a Temp Basal treatment
+ */
+function toBasalTreatment(basal: BasalRateChange, timeZone: string): NightscoutDocument {
+  return {
+    eventType: 'Temp Basal',
+    created_at: getRecordUtc(basal, timeZone),
+    enteredBy: ENTERED_BY,
+    rate: basal.rate,
+    absolute: basal.rate,
+    ...(basal.durationMinutes !== undefined && { duration: basal.durationMinutes }),
+  };
+}
+
+/**
+ * Waits before a retry
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Posts documents to a Nightscout API path, in batches
+ * Network errors, rate limiting and server errors are retried; other
+ * responses (e.g. 401 for a wrong API secret) fail straight away
+ */
+async function post(upload: Upload, path: string, documents: NightscoutDocument[]): Promise<void> {
+  const headers = {
+    'Content-Type': 'application/json',
+    'api-secret': createHash('sha1').update(upload.config.apiSecret).digest('hex'),
+  };
+
+  for (let start = 0; start < documents.length; start += BATCH_SIZE) {
+    const body = JSON.stringify(documents.slice(start, start + BATCH_SIZE));
+
+    for (let attempt = 1; ; attempt++) {
+      let message: string;
+      let retryable: boolean;
+
+      try {
+        const response = await fetch(`${upload.config.url}${path}`, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        if (response.ok) break;
+
+        message = `${path} returned ${response.status} ${response.statusText}`.trim();
+        retryable = response.status === 429 || response.status >= 500;
+      } catch (error) {
+        message = `${path} failed: ${error instanceof Error ? error.message : String(error)}`;
+        retryable = true;
+      }
+
+      if (!retryable || attempt === MAX_ATTEMPTS) {
+        throw new Error(message);
+      }
+
+      upload.retries++;
+      console.warn(`[Nightscout] ${message}, retrying (attempt ${attempt + 1} of ${MAX_ATTEMPTS})`);
+      await sleep(RETRY_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+}
+
+/**
+ * Uploads one page of changes
+ * @returns How many entries and treatments were uploaded
+ */
+async function uploadChanges(upload: Upload, changes: TimelineChange[]): Promise<{ entries: number; treatments: number }> {
+  const entries: NightscoutDocument[] = [];
+  const treatments: NightscoutDocument[] = [];
+
+  for (const change of changes) {
+    if (change.op !== 'upsert' || !change.record) continue;
+
+    const utc = getRecordUtc(change.record, upload.timeZone);
+    if (!upload.clock || utc > upload.clock) upload.clock = utc;
+
+    switch (change.kind) {
+      case 'cgm':
+        entries.push(toEntry(change.record as CgmReading, upload.timeZone));
+        break;
+      case 'boluses':
+        treatments.push(toBolusTreatment(change.record as BolusDelivery, upload.timeZone));
+        break;
+      case 'basal':
+        treatments.push(toBasalTreatment(change.record as BasalRateChange, upload.timeZone));
+        break;
+    }
+  }
+
+  await post(upload, '/api/v1/entries', entries);
+  await post(upload, '/api/v1/treatments', treatments);
+
+  return { entries: entries.length, treatments: treatments.length };
+}
+
+/**
+ * Uploads an account's timeline changes since the last upload to its Nightscout site
+ * Progress is saved after every page of changes, so a failed upload resumes
+ * where it stopped with the next sync. Never throws; failures are in the result
+ * @returns The outcome, or undefined if the account has no Nightscout site
+ */
+export async function uploadToNightscout(account: TandemAccount): Promise<NightscoutUploadResult | undefined> {
+  const { nightscout: config, timeZone } = account;
+  if (!config) return undefined;
+
+  const upload: Upload = { config, timeZone, retries: 0 };
+  const result: NightscoutUploadResult = {
+    success: true,
+    entries: 0,
+    treatments: 0,
+    deviceStatus: 0,
+    retries: 0,
+    hasMore: false,
+  };
+
+  try {
+    // A cursor for another site doesn't say what this one has
+    const state = await getNightscoutState(account.id);
+    let cursor = state?.url === config.url ? state.cursor : null;
+    let processed = 0;
+
+    do {
+      const page = await readChanges(cursor ?? undefined, MAX_CHANGES_LIMIT, account.id);
+      const uploaded = await uploadChanges(upload, page.changes);
+
+      result.entries += uploaded.entries;
+      result.treatments += uploaded.treatments;
+      result.hasMore = page.hasMore;
+      processed += page.changes.length;
+
+      cursor = page.cursor;
+      await storeNightscoutState({ url: config.url, cursor, updatedAt: new Date().toISOString() }, account.id);
+    } while (result.hasMore && processed < MAX_CHANGES_PER_SYNC);
+
+    if (result.entries + result.treatments > 0) {
+      await post(upload, '/api/v1/devicestatus', [{
+        device: ENTERED_BY,
+        created_at: new Date().toISOString(),
+        pump: { manufacturer: 'Tandem', clock: upload.clock },
+        uploader: { name: ENTERED_BY },
+      }]);
+      result.deviceStatus = 1;
+    }
+  } catch (error) {
+    result.success = false;
+    result.error = error instanceof Error ? error.message : 'Nightscout upload failed';
+    console.error('[Nightscout] Upload failed:', result.error);
+  }
+
+  result.retries = upload.retries;
+  console.log(`[Nightscout] Uploaded ${result.entries} entries and ${result.treatments} treatments (${result.retries} retries)`);
+
+  return result;
+}
@@ -0,0 +1,180 @@
+/**
+ * Pump clock normalization - works out the UTC time of every record
+ *
+ * Exports have pump-local wall-clock times, and the pump clock is set by
+ * hand: it doesn't follow DST on its own, and it is changed for travel and
+ * DST by the user, which the export records as device events with a
+ * previous and a new time. Between two clock changes the pump clock is a
+ * fixed offset from UTC. The first offset comes from the stored day before
+ * the report (so reports agree with each other) or else the account's home
+ * time zone; each clock change then moves it by the amount the clock moved
+ */
+
+import { addDays } from './date-range';
+import { getTimelineDay } from './blob-storage';
+import { getWallTimeOffsetMinutes } from './time-zone';
+import { RECORD_KINDS } from './timeline';
+import type { DeviceEvent, ParsedReport, TimeFlag, TimelineRecordBase, TimelineRecords } from './types';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * A change of the pump clock
+ */
+interface ClockChange {
+  recordId?: number;
+  previousTime: string;
+  newTime: string;
+  deltaMinutes: number; // How far the clock moved, negative when set back
+}
+
+/**
+ * Minutes between two pump-local times
+ */
+function minutesBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}Z`) - Date.parse(`${from}Z`)) / MS_PER_MINUTE);
+}
+
+/**
+ * The clock changes among a report's device events, in the order they happened
+ */
+function findClockChanges(events: DeviceEvent[]): ClockChange[] {
+  const changes = events
+    .filter((event): event is DeviceEvent & { previousTime: string; newTime: string } =>
+      !!event.previousTime && !!event.newTime && event.previousTime !== event.newTime
+    )
+    .map(event => ({
+      recordId: event.recordId,
+      previousTime: event.previousTime,
+      newTime: event.newTime,
+      deltaMinutes: minutesBetween(event.previousTime, event.newTime),
+    }));
+
+  const byRecordId = changes.every(change => change.recordId !== undefined);
+  return changes.sort((a, b) => byRecordId
+    ? a.recordId! - b.recordId!
+    : a.previousTime.localeCompare(b.previousTime)
+  );
+}
+
+/**
+ * How many clock changes came before a record
+ * A pump time between a change's previous and new time happened both before
+ * and after the change (or, when the clock moved forward, neither); Tandem's
+ * record ids, which only ever increase, tell which side the record is on
+ */
+function placeRecord(record: TimelineRecordBase, changes: ClockChange[]): { segment: number; flag?: TimeFlag } {
+  let segment = 0;
+  let flag: TimeFlag | undefined;
+
+  for (const change of changes) {
+    const [start, end] = [change.previousTime, change.newTime].sort();
+    let after: boolean;
+
+    if (record.time < start) {
+      after = false;
+    } else if (record.time >= end) {
+      after = true;
+    } else if (record.recordId !== undefined && change.recordId !== undefined) {
+      after = record.recordId > change.recordId;
+      if (change.deltaMinutes < 0) flag = 'repeated';
+    } else {
+      after = true;
+      flag = 'ambiguous';
+    }
+
+    if (!after) break;
+    segment++;
+  }
+
+  return { segment, flag };
+}
+
+/**
+ * Adds UTC times to records
+ * @param records - Records with pump-local times
+ * @param timeZone - Home time zone the pump clock is assumed to be set to at the start
+ * @param startOffsetMinutes - Pump clock offset from UTC at the start, when already known
+ * @returns Copies of the records with `utc` set, and `timeFlag` where needed
+ */
+export function normalizeRecordTimes<T extends TimelineRecords>(
+  records: T,
+  timeZone: string,
+  startOffsetMinutes?: number
+): T {
+  const changes = findClockChanges(records.deviceEvents);
+
+  const first = RECORD_KINDS.flatMap(kind => records[kind].map(record => record.time)).sort()[0];
+  if (!first) return records;
+
+  // Offset of the pump clock from UTC in each segment between clock changes
+  const offsets = [startOffsetMinutes ?? getWallTimeOffsetMinutes(first, timeZone)];
+  for (const change of changes) {
+    offsets.push(offsets[offsets.length - 1] + change.deltaMinutes);
+  }
+
+  let flagged = 0;
+  const normalize = <R extends TimelineRecordBase>(record: R): R => {
+    const { segment, flag } = placeRecord(record, changes);
+    const utc = new Date(Date.parse(`${record.time}Z`) - offsets[segment] * MS_PER_MINUTE).toISOString();
+
+    if (flag) flagged++;
+    return { ...record, utc, ...(flag && { timeFlag: flag }) };
+  };
+
+  const normalized = { ...records };
+  for (const kind of RECORD_KINDS) {
+    (normalized[kind] as TimelineRecordBase[]) = records[kind].map(normalize);
+  }
+
+  if (changes.length > 0 || flagged > 0) {
+    console.log(`[PumpTime] ${changes.length} clock changes, ${flagged} records with uncertain times`);
+  }
+
+  return normalized;
+}
+
+/**
+ * A record's UTC time, from the pump clock normalization or, for records
+ * stored before it existed, from the home time zone
+ */
+export function getRecordUtc(record: TimelineRecordBase, timeZone: string): string {
+  if (record.utc) return record.utc;
+
+  const offset = getWallTimeOffsetMinutes(record.time, timeZone);
+  return new Date(Date.parse(`${record.time}Z`) - offset * MS_PER_MINUTE).toISOString();
+}
+
+/**
+ * Offset of the pump clock from UTC at the end of a stored day, from its
+ * newest record with a UTC time
+ */
+function endOfDayOffset(records: TimelineRecords): number | undefined {
+  const latest = RECORD_KINDS
+    .flatMap(kind => records[kind] as TimelineRecordBase[])
+    .filter(record => record.utc)
+    .sort((a, b) => a.time.localeCompare(b.time))
+    .pop();
+
+  return latest && minutesBetween(latest.utc!.slice(0, 19), latest.time);
+}
+
+/**
+ * Adds UTC times to a parsed report's records
+ * The pump clock offset carries over from the account's stored day before the
+ * report, so a clock that wasn't changed for DST stays consistent across reports
+ * @param report - The parsed export
+ * @param timeZone - The account's home time zone
+ * @param accountId - Account the report belongs to (default: the default account)
+ */
+export async function normalizeReportTimes(
+  report: ParsedReport,
+  timeZone: string,
+  accountId?: string
+): Promise<ParsedReport> {
+  const first = RECORD_KINDS.flatMap(kind => report[kind].map(record => record.time)).sort()[0];
+  if (!first) return report;
+
+  const previousDay = await getTimelineDay(addDays(first.slice(0, 10), -1), accountId);
+  return normalizeRecordTimes(report, timeZone, previousDay ? endOfDayOffset(previousDay) : undefined);
+}
@@ -0,0 +1,237 @@
+/**
+ * Time-range queries over the canonical timeline, for GET /api/readings
+ * Ranges, ordering and paging use each record's UTC time (see pump-time.ts),
+ * so a repeated or skipped pump hour around a clock change reads in real
+ * order; entries also keep their pump-local time, as in the exports
+ */
+
+import { addDays, isValidDateString } from './date-range';
+import { getTimelineIndex } from './blob-storage';
+import { getRecordUtc } from './pump-time';
+import { getWallTimeOffsetMinutes, toWallTime } from './time-zone';
+import { loadTimelineDays, RECORD_KINDS, recordKey } from './timeline';
+import type { ReadingsPage, ReadingsQuery, RecordKind, TandemAccount, TimelineEntry } from './types';
+
+const DEFAULT_LIMIT = 1000;
+const MAX_LIMIT = 5000;
+const MAX_RANGE_DAYS = 31;
+const DEFAULT_RANGE_MINUTES = 24 * 60;
+const MS_PER_MINUTE = 60 * 1000;
+
+// Pump-local days loaded on each side of a range, for pump clocks set away from the home time zone
+const MARGIN_DAYS = 1;
+
+// An instant: date and time with Z or a UTC offset
+const INSTANT_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Position of an entry in the sort order: UTC time, then kind, then record key
+ */
+type SortKey = [string, number, string];
+
+/**
+ * Moves a UTC time by a number of minutes
+ */
+function shiftUtc(utc: string, minutes: number): string {
+  return new Date(Date.parse(utc) + minutes * MS_PER_MINUTE).toISOString();
+}
+
+/**
+ * The UTC time at which a day starts in a time zone
+ */
+function startOfDayUtc(date: string, timeZone: string): string {
+  return shiftUtc(`${date}T00:00:00.000Z`, -getWallTimeOffsetMinutes(`${date}T00:00:00`, timeZone));
+}
+
+/**
+ * Parses a from/to parameter: a YYYY-MM-DD day (its start in the home time
+ * zone) or an ISO 8601 instant
+ * @returns The UTC time, as from toISOString
+ */
+function parseTimeParam(name: string, value: string | null, timeZone: string): string | undefined {
+  if (!value) return undefined;
+
+  if (isValidDateString(value)) {
+    return startOfDayUtc(value, timeZone);
+  }
+
+  const instant = INSTANT_PATTERN.test(value) ? Date.parse(value) : NaN;
+  if (Number.isNaN(instant)) {
+    throw new Error(`Invalid ${name}, expected YYYY-MM-DD or an ISO 8601 time with Z or a UTC offset`);
+  }
+  return new Date(instant).toISOString();
+}
+
+/**
+ * Parses a positive integer parameter within bounds
+ */
+function parseIntParam(name: string, value: string | null, max: number): number | undefined {
+  if (!value) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > max) {
+    throw new Error(`${name} must be a whole number between 1 and ${max}`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads a readings query from URL parameters:
+ * from, to, types (comma-separated kinds), limit, cursor and downsample (minutes)
+ * @param timeZone - The account's home time zone, for from/to given as days
+ * @throws Error with a message for the client if a parameter is invalid
+ */
+export function parseReadingsQuery(params: URLSearchParams, timeZone: string): ReadingsQuery {
+  const from = parseTimeParam('from', params.get('from'), timeZone);
+  const to = parseTimeParam('to', params.get('to'), timeZone);
+
+  if (from && to) {
+    if (from >= to) {
+      throw new Error('from must be before to');
+    }
+    if (shiftUtc(from, MAX_RANGE_DAYS * 24 * 60) < to) {
+      throw new Error(`The range can be at most ${MAX_RANGE_DAYS} days`);
+    }
+  }
+
+  const types = params.get('types')?.split(',').map(type => type.trim()).filter(Boolean);
+  const unknown = types?.filter(type => !RECORD_KINDS.includes(type as RecordKind)) ?? [];
+  if (unknown.length > 0) {
+    throw new Error(`Unknown types: ${unknown.join(', ')} (expected ${RECORD_KINDS.join(', ')})`);
+  }
+
+  const cursor = params.get('cursor') || undefined;
+  if (cursor) {
+    decodeCursor(cursor);
+  }
+
+  return {
+    from,
+    to,
+    kinds: types?.length ? RECORD_KINDS.filter(kind => types.includes(kind)) : RECORD_KINDS,
+    limit: parseIntParam('limit', params.get('limit'), MAX_LIMIT) ?? DEFAULT_LIMIT,
+    cursor,
+    downsampleMinutes: parseIntParam('downsample', params.get('downsample'), 24 * 60),
+  };
+}
+
+/**
+ * Encodes the position after which the next page starts
+ */
+function encodeCursor(key: SortKey): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor from encodeCursor
+ * @throws Error if it isn't a cursor this API issued
+ */
+function decodeCursor(cursor: string): SortKey {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Array.isArray(key) && typeof key[0] === 'string' && typeof key[1] === 'number' && typeof key[2] === 'string') {
+      return key as SortKey;
+    }
+  } catch {
+    // Fall through
+  }
+  throw new Error('Invalid cursor');
+}
+
+/**
+ * Compares two sort keys
+ */
+function compareKeys(a: SortKey, b: SortKey): number {
+  return a[0].localeCompare(b[0]) || a[1] - b[1] || a[2].localeCompare(b[2]);
+}
+
+/**
+ * Sort key of an entry
+ */
+function sortKeyOf(entry: TimelineEntry): SortKey {
+  return [entry.utc!, RECORD_KINDS.indexOf(entry.kind), recordKey(entry.kind, entry)];
+}
+
+/**
+ * Averages CGM readings into fixed UTC buckets, each at its bucket's start
+ * time; the pump-local time follows the pump clock of the bucket's first reading
+ */
+function downsampleCgm(entries: TimelineEntry[], minutes: number): TimelineEntry[] {
+  const buckets = new Map<string, Extract<TimelineEntry, { kind: 'cgm' }>[]>();
+
+  for (const entry of entries) {
+    if (entry.kind !== 'cgm') continue;
+
+    const minute = Math.floor(Date.parse(entry.utc!) / MS_PER_MINUTE / minutes) * minutes;
+    const utc = new Date(minute * MS_PER_MINUTE).toISOString();
+
+    if (!buckets.has(utc)) buckets.set(utc, []);
+    buckets.get(utc)!.push(entry);
+  }
+
+  const downsampled: TimelineEntry[] = [...buckets].map(([utc, readings]) => ({
+    kind: 'cgm',
+    time: new Date(Date.parse(`${readings[0].time}Z`) - (Date.parse(readings[0].utc!) - Date.parse(utc)))
+      .toISOString()
+      .slice(0, 19),
+    utc,
+    value: Math.round(readings.reduce((sum, reading) => sum + reading.value, 0) / readings.length),
+    serialNumber: readings[0].serialNumber,
+    deviceType: readings[0].deviceType,
+    samples: readings.length,
+  }));
+
+  return [...entries.filter(entry => entry.kind !== 'cgm'), ...downsampled];
+}
+
+/**
+ * Runs a readings query against an account's timeline
+ * @returns One page of entries, each with its UTC time, sorted by UTC time
+ */
+export async function queryReadings(query: ReadingsQuery, account: TandemAccount): Promise<ReadingsPage> {
+  const index = await getTimelineIndex(account.id);
+  const newestDay = index[index.length - 1]?.date;
+
+  const to = query.to
+    ?? (query.from && shiftUtc(query.from, DEFAULT_RANGE_MINUTES))
+    ?? startOfDayUtc(newestDay ? addDays(newestDay, 1) : toWallTime(new Date(), account.timeZone).slice(0, 10), account.timeZone);
+  const from = query.from ?? shiftUtc(to, -DEFAULT_RANGE_MINUTES);
+
+  const days = await loadTimelineDays({
+    startDate: addDays(toWallTime(new Date(from), account.timeZone).slice(0, 10), -MARGIN_DAYS),
+    endDate: addDays(toWallTime(new Date(shiftUtc(to, -1)), account.timeZone).slice(0, 10), MARGIN_DAYS),
+  }, account.id);
+
+  let entries: TimelineEntry[] = [];
+  for (const day of days) {
+    for (const kind of query.kinds) {
+      for (const record of day[kind]) {
+        const utc = getRecordUtc(record, account.timeZone);
+        if (utc >= from && utc < to) {
+          entries.push({ kind, ...record, utc } as TimelineEntry);
+        }
+      }
+    }
+  }
+
+  if (query.downsampleMinutes && query.kinds.includes('cgm')) {
+    entries = downsampleCgm(entries, query.downsampleMinutes);
+  }
+
+  const keyed = entries
+    .map(entry => ({ entry, key: sortKeyOf(entry) }))
+    .sort((a, b) => compareKeys(a.key, b.key));
+
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const remaining = after ? keyed.filter(({ key }) => compareKeys(key, after) > 0) : keyed;
+  const page = remaining.slice(0, query.limit);
+
+  return {
+    from,
+    to,
+    kinds: query.kinds,
+    downsampleMinutes: query.downsampleMinutes,
+    entries: page.map(({ entry }) => entry),
+    nextCursor: remaining.length > query.limit ? encodeCursor(page[page.length - 1].key) : null,
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Region, language and endpoint settings for Tandem Source
+ * Also holds the localized button/heading labels the scraper matches against
+ */
+
+import type { TandemRegion, UiLabels } from './types';
+
+export const DEFAULT_REGION: TandemRegion = {
+  country: 'United States',
+  language: 'English',
+  locale: 'en',
+  sourceBaseUrl: 'https://source.tandemdiabetes.com',
+  ssoBaseUrl: 'https://sso.tandemdiabetes.com',
+};
+
+/**
+ * English labels - always used as a fallback, since parts of the SSO flow
+ * are not translated for every region
+ */
+const ENGLISH_LABELS: UiLabels = {
+  cookieAccept: ['accept', 'agree', 'cookie'],
+  countrySelectorHeading: ['Select your country'],
+  loginHeading: ['Account Login'],
+  next: ['Next'],
+  continue: ['Continue'],
+  signIn: ['Sign in', 'Log in', 'Login', 'Submit', 'Next', 'Continue'],
+  verify: ['Verify', 'Submit', 'Continue', 'Next'],
+  customRange: ['Custom'],
+  apply: ['Apply', 'OK', 'Done', 'Update'],
+  export: ['Export CSV', 'Export'],
+  mfaAuthenticator: ['authenticator', 'authentication app'],
+  // Matched in the MFA prompt only, and specific enough not to match its username label
+  mfaEmail: ['sent to your email', 'sent to your e-mail', 'emailed', 'check your email', 'email address'],
+  invalidCredentials: ['incorrect', 'invalid', 'wrong password', 'not recognized'],
+};
+
+/**
+ * Translated labels by locale
+ */
+const LOCALIZED_LABELS: Record<string, Partial<UiLabels>> = {
+  de: {
+    cookieAccept: ['akzeptieren', 'zustimmen'],
+    countrySelectorHeading: ['Wählen Sie Ihr Land', 'Land auswählen'],
+    loginHeading: ['Kontoanmeldung', 'Anmeldung'],
+    next: ['Weiter'],
+    continue: ['Weiter', 'Fortfahren'],
+    signIn: ['Anmelden', 'Einloggen', 'Weiter'],
+    verify: ['Bestätigen', 'Überprüfen', 'Weiter'],
+    customRange: ['Benutzerdefiniert'],
+    apply: ['Anwenden', 'Übernehmen', 'OK'],
+    export: ['CSV exportieren', 'Exportieren'],
+    mfaAuthenticator: ['Authentifizierungs-App', 'Authenticator'],
+    mfaEmail: ['E-Mail'],
+    invalidCredentials: ['falsch', 'ungültig'],
+  },
+  fr: {
+    cookieAccept: ['accepter', "j'accepte"],
+    countrySelectorHeading: ['Sélectionnez votre pays'],
+    loginHeading: ['Connexion au compte', 'Connexion'],
+    next: ['Suivant'],
+    continue: ['Continuer'],
+    signIn: ['Se connecter', 'Connexion', 'Suivant', 'Continuer'],
+    verify: ['Vérifier', 'Valider', 'Continuer'],
+    customRange: ['Personnalisé'],
+    apply: ['Appliquer', 'OK'],
+    export: ['Exporter CSV', 'Exporter'],
+    mfaAuthenticator: ["application d'authentification"],
+    mfaEmail: ['e-mail', 'courriel'],
+    invalidCredentials: ['incorrect', 'invalide'],
+  },
+  es: {
+    cookieAccept: ['aceptar'],
+    countrySelectorHeading: ['Seleccione su país', 'Selecciona tu país'],
+    loginHeading: ['Inicio de sesión'],
+    next: ['Siguiente'],
+    continue: ['Continuar'],
+    signIn: ['Iniciar sesión', 'Entrar', 'Siguiente', 'Continuar'],
+    verify: ['Verificar', 'Continuar'],
+    customRange: ['Personalizado'],
+    apply: ['Aplicar', 'OK'],
+    export: ['Exportar CSV', 'Exportar'],
+    mfaAuthenticator: ['aplicación de autenticación'],
+    mfaEmail: ['correo electrónico'],
+    invalidCredentials: ['incorrect', 'inválid'],
+  },
+  it: {
+    cookieAccept: ['accetta', 'accetto'],
+    countrySelectorHeading: ['Seleziona il tuo paese'],
+    loginHeading: ['Accesso account', 'Accedi'],
+    next: ['Avanti'],
+    continue: ['Continua'],
+    signIn: ['Accedi', 'Avanti', 'Continua'],
+    verify: ['Verifica', 'Continua'],
+    customRange: ['Personalizzato'],
+    apply: ['Applica', 'OK'],
+    export: ['Esporta CSV', 'Esporta'],
+    mfaAuthenticator: ['app di autenticazione'],
+    mfaEmail: ['e-mail'],
+    invalidCredentials: ['errat', 'non valid'],
+  },
+  nl: {
+    cookieAccept: ['accepteren', 'akkoord'],
+    countrySelectorHeading: ['Selecteer uw land'],
+    loginHeading: ['Account aanmelden', 'Inloggen'],
+    next: ['Volgende'],
+    continue: ['Doorgaan'],
+    signIn: ['Inloggen', 'Aanmelden', 'Volgende', 'Doorgaan'],
+    verify: ['Verifiëren', 'Doorgaan'],
+    customRange: ['Aangepast'],
+    apply: ['Toepassen', 'OK'],
+    export: ['CSV exporteren', 'Exporteren'],
+    mfaAuthenticator: ['authenticator-app'],
+    mfaEmail: ['e-mail'],
+    invalidCredentials: ['onjuist', 'ongeldig'],
+  },
+};
+
+/**
+ * Language option labels (as shown in the selector) mapped to label locales
+ */
+const LANGUAGE_LOCALES: Record<string, string> = {
+  english: 'en',
+  deutsch: 'de',
+  german: 'de',
+  français: 'fr',
+  french: 'fr',
+  español: 'es',
+  spanish: 'es',
+  italiano: 'it',
+  italian: 'it',
+  nederlands: 'nl',
+  dutch: 'nl',
+};
+
+/**
+ * Other ways a country may be written in the selector
+ */
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  'United States': ['USA', 'United States of America'],
+  'United Kingdom': ['UK', 'Great Britain'],
+};
+
+/**
+ * Returns the labels for a locale, with English labels appended as fallback
+ * Labels are tried in order, so localized text wins over English
+ */
+export function getUiLabels(locale: string, overrides: Partial<UiLabels> = {}): UiLabels {
+  const localized = LOCALIZED_LABELS[locale.toLowerCase().split('-')[0]] || {};
+  const labels = {} as UiLabels;
+
+  for (const key of Object.keys(ENGLISH_LABELS) as (keyof UiLabels)[]) {
+    labels[key] = Array.from(new Set([
+      ...(overrides[key] || []),
+      ...(localized[key] || []),
+      ...ENGLISH_LABELS[key],
+    ]));
+  }
+
+  return labels;
+}
+
+/**
+ * Names a country may appear under in the country selector
+ */
+export function getCountryNames(country: string): string[] {
+  return [country, ...(COUNTRY_ALIASES[country] || [])];
+}
+
+/**
+ * Works out the label locale from a language option label
+ */
+export function localeForLanguage(language: string): string {
+  return LANGUAGE_LOCALES[language.trim().toLowerCase()] || 'en';
+}
+
+/**
+ * Checks whether a URL is on the same origin as a base URL
+ */
+export function isOnOrigin(url: string, baseUrl: string): boolean {
+  try {
+    return new URL(url).origin === new URL(baseUrl).origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Builds a region from explicit settings, filling gaps with the US defaults
+ * Base URLs are stored without a trailing slash
+ */
+export function resolveRegion(settings: Partial<TandemRegion> = {}): TandemRegion {
+  const language = settings.language || DEFAULT_REGION.language;
+
+  return {
+    country: settings.country || DEFAULT_REGION.country,
+    language,
+    locale: settings.locale || localeForLanguage(language),
+    sourceBaseUrl: (settings.sourceBaseUrl || DEFAULT_REGION.sourceBaseUrl).replace(/\/+$/, ''),
+    ssoBaseUrl: (settings.ssoBaseUrl || DEFAULT_REGION.ssoBaseUrl).replace(/\/+$/, ''),
+    labels: settings.labels,
+  };
+}
+
+/**
+ * Parses TANDEM_UI_LABELS: a JSON object of label keys to lists of labels
+ * Unknown keys and values that aren't lists of text are ignored with a
+ * warning - a plain string would otherwise be matched letter by letter
+ */
+function parseUiLabels(json: string): Partial<UiLabels> | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    console.warn('[Region] TANDEM_UI_LABELS is not valid JSON, ignoring');
+    return undefined;
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    console.warn('[Region] TANDEM_UI_LABELS is not a JSON object, ignoring');
+    return undefined;
+  }
+
+  const labels: Partial<UiLabels> = {};
+
+  for (const [key, value] of Object.entries(parsed)) {
+    if (!(key in ENGLISH_LABELS)) {
+      console.warn(`[Region] Ignoring unknown key "${key}" in TANDEM_UI_LABELS`);
+    } else if (!Array.isArray(value) || !value.every(label => typeof label === 'string' && label.trim() !== '')) {
+      console.warn(`[Region] Ignoring "${key}" in TANDEM_UI_LABELS, expected a list of labels`);
+    } else {
+      labels[key as keyof UiLabels] = value;
+    }
+  }
+
+  return labels;
+}
+
+/**
+ * Reads region settings from environment variables
+ * TANDEM_COUNTRY, TANDEM_LANGUAGE, TANDEM_LOCALE, TANDEM_SOURCE_URL, TANDEM_SSO_URL
+ * and TANDEM_UI_LABELS (JSON, extra labels per key for untranslated locales)
+ * @param overrides - An account's own settings, used instead of the global ones
+ */
+export function getRegionFromEnv(overrides: Partial<TandemRegion> = {}): TandemRegion {
+  const labels = process.env.TANDEM_UI_LABELS ? parseUiLabels(process.env.TANDEM_UI_LABELS) : undefined;
+
+  return resolveRegion({
+    country: overrides.country || process.env.TANDEM_COUNTRY,
+    language: overrides.language || process.env.TANDEM_LANGUAGE,
+    // A language of the account's own picks its labels, not the global locale
+    locale: overrides.locale || (overrides.language ? undefined : process.env.TANDEM_LOCALE),
+    sourceBaseUrl: overrides.sourceBaseUrl || process.env.TANDEM_SOURCE_URL,
+    ssoBaseUrl: overrides.ssoBaseUrl || process.env.TANDEM_SSO_URL,
+    labels,
+  });
+}
@@ -0,0 +1,277 @@
+/**
+ * Minimal SQLite database file writer, for the SQLite export
+ *
+ * Writes a complete database file in one go, in the SQLite 3 file format
+ * (https://www.sqlite.org/fileformat2.html): rowid tables only, without
+ * indexes, and every row small enough to fit in a page. Anything that reads
+ * SQLite files can open the result and add indexes of its own
+ */
+
+const PAGE_SIZE = 4096;
+const DATABASE_HEADER_SIZE = 100;
+const LEAF_HEADER_SIZE = 8;
+const INTERIOR_HEADER_SIZE = 12;
+
+// B-tree page types
+const TABLE_LEAF_PAGE = 0x0d;
+const TABLE_INTERIOR_PAGE = 0x05;
+
+// Largest row stored on a leaf page without overflow pages (page size - 35)
+const MAX_ROW_SIZE = PAGE_SIZE - 35;
+
+// SQLite version recorded as the writer (3.45.0)
+const SQLITE_VERSION_NUMBER = 3045000;
+
+/**
+ * A value for a column; booleans are stored as 0 or 1
+ */
+export type SqliteValue = string | number | boolean | null | undefined;
+
+/**
+ * A table and its rows
+ * Every table gets an `id INTEGER PRIMARY KEY` column first, numbering the
+ * rows from 1 in the order given
+ */
+export interface SqliteTable {
+  name: string;
+  columns: { name: string; type: 'INTEGER' | 'REAL' | 'TEXT' }[];
+  rows: SqliteValue[][]; // Values in column order, without the id
+}
+
+/**
+ * A B-tree page written to the file, with the largest rowid under it
+ */
+interface WrittenPage {
+  page: number; // Page number, from 1
+  maxRowid: number;
+}
+
+/**
+ * Encodes a variable-length integer (non-negative, below 2^53)
+ */
+function varint(value: number): Buffer {
+  const bytes = [value % 128];
+  for (let rest = Math.floor(value / 128); rest > 0; rest = Math.floor(rest / 128)) {
+    bytes.unshift((rest % 128) | 0x80);
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Serial type and stored bytes of an integer, in the fewest bytes that hold it
+ */
+function encodeInteger(value: number): [number, Buffer] {
+  if (value === 0) return [8, Buffer.alloc(0)];
+  if (value === 1) return [9, Buffer.alloc(0)];
+
+  for (const [serialType, size] of [[1, 1], [2, 2], [3, 3], [4, 4], [5, 6]]) {
+    const limit = 2 ** (size * 8 - 1);
+    if (value >= -limit && value < limit) {
+      const body = Buffer.alloc(size);
+      body.writeIntBE(value, 0, size);
+      return [serialType, body];
+    }
+  }
+
+  const body = Buffer.alloc(8);
+  body.writeBigInt64BE(BigInt(value));
+  return [6, body];
+}
+
+/**
+ * Serial type and stored bytes of a value
+ * Numbers are stored as integers in INTEGER columns when they are whole, and
+ * as 8-byte floats otherwise
+ */
+function encodeValue(value: SqliteValue, type: SqliteTable['columns'][number]['type']): [number, Buffer] {
+  if (value === null || value === undefined) return [0, Buffer.alloc(0)];
+  if (typeof value === 'boolean') return encodeInteger(value ? 1 : 0);
+
+  if (typeof value === 'number') {
+    if (type === 'INTEGER' && Number.isSafeInteger(value)) return encodeInteger(value);
+
+    const body = Buffer.alloc(8);
+    body.writeDoubleBE(value);
+    return [7, body];
+  }
+
+  const body = Buffer.from(value, 'utf-8');
+  return [body.length * 2 + 13, body];
+}
+
+/**
+ * Encodes a row in the record format: a header of serial types, then the values
+ */
+function encodeRecord(values: SqliteValue[], types: SqliteTable['columns'][number]['type'][]): Buffer {
+  const encoded = values.map((value, index) => encodeValue(value, types[index]));
+  const serialTypes = Buffer.concat(encoded.map(([serialType]) => varint(serialType)));
+
+  // The header size counts its own varint
+  let headerSize = serialTypes.length + 1;
+  while (varint(headerSize).length + serialTypes.length !== headerSize) {
+    headerSize = varint(headerSize).length + serialTypes.length;
+  }
+
+  return Buffer.concat([varint(headerSize), serialTypes, ...encoded.map(([, body]) => body)]);
+}
+
+/**
+ * Lays out a B-tree page
+ * @param type - Leaf or interior page type
+ * @param cells - Cells in key order
+ * @param rightChild - Interior pages only: the child after the last cell
+ * @param offset - Where the page header starts (100 on page 1, after the database header)
+ */
+function writeBtreePage(type: number, cells: Buffer[], rightChild?: number, offset = 0): Buffer {
+  const page = Buffer.alloc(PAGE_SIZE);
+  const pointers = offset + (rightChild === undefined ? LEAF_HEADER_SIZE : INTERIOR_HEADER_SIZE);
+
+  let contentStart = PAGE_SIZE;
+  cells.forEach((cell, index) => {
+    contentStart -= cell.length;
+    cell.copy(page, contentStart);
+    page.writeUInt16BE(contentStart, pointers + index * 2);
+  });
+
+  page[offset] = type;
+  page.writeUInt16BE(cells.length, offset + 3);
+  page.writeUInt16BE(contentStart, offset + 5);
+  if (rightChild !== undefined) {
+    page.writeUInt32BE(rightChild, offset + 8);
+  }
+
+  return page;
+}
+
+/**
+ * Writes a table's B-tree: leaf pages with the rows, then levels of interior
+ * pages above them until one page, the root, remains
+ * @param pages - Pages of the file so far; new pages are appended
+ * @returns The root page number
+ */
+function writeTableBtree(pages: Buffer[], records: Buffer[]): number {
+  const append = (page: Buffer) => pages.push(page);
+
+  // Leaf pages, filled in rowid order
+  let level: WrittenPage[] = [];
+  let cells: Buffer[] = [];
+  let used = LEAF_HEADER_SIZE;
+
+  const flushLeaf = (maxRowid: number) => {
+    level.push({ page: append(writeBtreePage(TABLE_LEAF_PAGE, cells)), maxRowid });
+    cells = [];
+    used = LEAF_HEADER_SIZE;
+  };
+
+  records.forEach((record, index) => {
+    const rowid = index + 1;
+    const cell = Buffer.concat([varint(record.length), varint(rowid), record]);
+
+    if (used + cell.length + 2 > PAGE_SIZE) flushLeaf(rowid - 1);
+    cells.push(cell);
+    used += cell.length + 2;
+  });
+  if (cells.length > 0 || level.length === 0) flushLeaf(records.length);
+
+  // Interior pages: a cell (child page, its largest rowid) for each child but
+  // the last, which is the right child
+  while (level.length > 1) {
+    const next: WrittenPage[] = [];
+    let group: WrittenPage[] = [];
+    used = INTERIOR_HEADER_SIZE;
+
+    const flushInterior = () => {
+      const children = group.slice(0, -1).map(child => {
+        const cell = Buffer.concat([Buffer.alloc(4), varint(child.maxRowid)]);
+        cell.writeUInt32BE(child.page, 0);
+        return cell;
+      });
+      const last = group[group.length - 1];
+      next.push({ page: append(writeBtreePage(TABLE_INTERIOR_PAGE, children, last.page)), maxRowid: last.maxRowid });
+    };
+
+    for (const child of level) {
+      // Adding a child turns the previous last child into a cell
+      const previous = group[group.length - 1];
+      const cost = previous ? 4 + varint(previous.maxRowid).length + 2 : 0;
+
+      if (used + cost > PAGE_SIZE) {
+        flushInterior();
+        group = [];
+        used = INTERIOR_HEADER_SIZE;
+      } else {
+        used += cost;
+      }
+      group.push(child);
+    }
+    flushInterior();
+
+    level = next;
+  }
+
+  return level[0].page;
+}
+
+/**
+ * The 100-byte header at the start of the file
+ */
+function writeDatabaseHeader(pageCount: number): Buffer {
+  const header = Buffer.alloc(DATABASE_HEADER_SIZE);
+
+  header.write('SQLite format 3\0', 0, 'latin1');
+  header.writeUInt16BE(PAGE_SIZE, 16);
+  header[18] = 1; // File format write version (legacy, not WAL)
+  header[19] = 1; // File format read version
+  header[20] = 0; // Reserved bytes per page
+  header[21] = 64; // Maximum embedded payload fraction
+  header[22] = 32; // Minimum embedded payload fraction
+  header[23] = 32; // Leaf payload fraction
+  header.writeUInt32BE(1, 24); // File change counter
+  header.writeUInt32BE(pageCount, 28);
+  header.writeUInt32BE(1, 40); // Schema cookie
+  header.writeUInt32BE(4, 44); // Schema format number
+  header.writeUInt32BE(1, 56); // Text encoding: UTF-8
+  header.writeUInt32BE(1, 92); // Version-valid-for, matching the change counter
+  header.writeUInt32BE(SQLITE_VERSION_NUMBER, 96);
+
+  return header;
+}
+
+/**
+ * Writes a database file with the given tables
+ * @throws Error if a row is too large to fit in a page
+ */
+export function writeSqliteDatabase(tables: SqliteTable[]): Buffer {
+  // Page 1 holds the schema table and is written last, once the roots are known
+  const pages: Buffer[] = [Buffer.alloc(0)];
+  const schema: Buffer[] = [];
+
+  for (const table of tables) {
+    const types = table.columns.map(column => column.type);
+    const records = table.rows.map(row => {
+      // The id column is the rowid, stored as NULL in the record
+      const record = encodeRecord([null, ...row], ['INTEGER', ...types]);
+      if (record.length > MAX_ROW_SIZE) {
+        throw new Error(`A row of ${table.name} is too large for the SQLite export (${record.length} bytes)`);
+      }
+      return record;
+    });
+
+    const rootPage = writeTableBtree(pages, records);
+    const columns = table.columns.map(column => `${column.name} ${column.type}`);
+    const sql = `CREATE TABLE ${table.name} (id INTEGER PRIMARY KEY, ${columns.join(', ')})`;
+
+    schema.push(encodeRecord(['table', table.name, table.name, rootPage, sql], ['TEXT', 'TEXT', 'TEXT', 'INTEGER', 'TEXT']));
+  }
+
+  const schemaCells = schema.map((record, index) => Buffer.concat([varint(record.length), varint(index + 1), record]));
+  const schemaSize = schemaCells.reduce((sum, cell) => sum + cell.length + 2, DATABASE_HEADER_SIZE + LEAF_HEADER_SIZE);
+  if (schemaSize > PAGE_SIZE) {
+    throw new Error('Too many tables for the SQLite export');
+  }
+
+  pages[0] = writeBtreePage(TABLE_LEAF_PAGE, schemaCells, undefined, DATABASE_HEADER_SIZE);
+  writeDatabaseHeader(pages.length).copy(pages[0], 0);
+
+  return Buffer.concat(pages);
+}
@@ -2,95 +2,308 @@
  * Shared sync logic used by both manual sync and cron job
  */
 
-import { scrapeTandemSource, validateScraperConfig } from './tandem-scraper';
-import { storeReport, storeSyncStatus } from './blob-storage';
-import type { SyncResult } from './types';
+import { randomUUID } from 'crypto';
+import { AccountBusyError, RUN_LOCK, withAccountLock } from './account-lock';
+import { getScraperModeFromEnv, scrapeTandemSource, validateScraperConfig } from './tandem-scraper';
+import {
+  generateDataFilename,
+  generateReportFilename,
+  getBrowserSession,
+  getSyncStatus,
+  storeBrowserSession,
+  storeCapturedData,
+  storeReport,
+  storeSyncStatus,
+} from './blob-storage';
+import { countRecords, parseTandemCsv } from './csv-parser';
+import { detectCsvSchema } from './csv-schema';
+import { createAccountMfaCodeProvider, getAccount, getAccounts, isSyncDue } from './accounts';
+import { ScraperError, toScraperError } from './errors';
+import { isFailureCaptureEnabled, recordFailureCapture } from './failure-captures';
+import { uploadToNightscout } from './nightscout';
+import { normalizeReportTimes } from './pump-time';
+import { mergeIntoTimeline } from './timeline';
+import type { ParsedReport, SyncResult, TandemAccount } from './types';
+
+// Scheduled runs don't start another account's sync after this long, so the
+// run finishes within the function time limit. Skipped accounts stay due
+const SCHEDULED_SYNC_START_BUDGET_MS = 2 * 60 * 1000;
+
+/**
+ * Syncs the configured accounts one after another
+ * Each account's sync holds its run lock, shared with backfills, so a
+ * scheduled run skips accounts that are already syncing or backfilling
+ * @param options.accountId - Only sync this account
+ * @param options.dueOnly - Skip accounts whose sync interval hasn't passed (scheduled runs)
+ * @returns One result per account synced
+ * @throws AccountBusyError if options.accountId is already syncing or backfilling
+ */
+export async function performSync(
+  options: { accountId?: string; dueOnly?: boolean } = {}
+): Promise<SyncResult[]> {
+  const { accountId, dueOnly = false } = options;
+  const startedAt = Date.now();
+
+  if (accountId) {
+    const account = getAccount(accountId);
+    if (!account) {
+      throw new Error(`Unknown account: ${accountId}`);
+    }
+    return [await withAccountLock(account.id, RUN_LOCK, 'sync', () => performAccountSync(account))];
+  }
+
+  const accounts = getAccounts();
+
+  // Nothing configured - record the configuration error as before
+  if (accounts.length === 0) {
+    return [await performAccountSync(null)];
+  }
+
+  const results: SyncResult[] = [];
+
+  for (const account of accounts) {
+    if (dueOnly && !isSyncDue(account, await getSyncStatus(account.id))) {
+      console.log(`[Sync] Account ${account.id} is not due yet, skipping`);
+      continue;
+    }
+
+    if (dueOnly && results.length > 0 && Date.now() - startedAt > SCHEDULED_SYNC_START_BUDGET_MS) {
+      console.log(`[Sync] Out of time, leaving account ${account.id} for the next run`);
+      break;
+    }
+
+    try {
+      results.push(await withAccountLock(account.id, RUN_LOCK, 'sync', () => performAccountSync(account)));
+    } catch (error) {
+      if (!(error instanceof AccountBusyError)) throw error;
+      console.log(`[Sync] Skipping account ${account.id}: ${error.message}`);
+    }
+  }
+
+  return results;
+}
 
 /**
- * Performs a sync operation - scrapes Tandem Source and stores the report
+ * Performs a sync operation for one account - scrapes Tandem Source and stores the report
+ * @param account - The account to sync, or null if none is configured
  * @returns SyncResult with success status and details
  */
-export async function performSync(): Promise<SyncResult> {
+export async function performAccountSync(account: TandemAccount | null): Promise<SyncResult> {
   const timestamp = new Date().toISOString();
+  const runId = randomUUID();
+  const accountId = account?.id;
+  const reportDays = account?.reportDays ?? parseInt(process.env.REPORT_DAYS || '2', 10);
 
   try {
-    console.log('[Sync] Starting sync operation...');
+    console.log(`[Sync] Starting sync operation${accountId ? ` for account ${accountId}` : ''}...`);
 
     // Validate configuration
-    const configValidation = validateScraperConfig();
-    if (!configValidation.valid) {
-      const error = `Missing required configuration: ${configValidation.missing.join(', ')}`;
-      console.error('[Sync]', error);
+    const configValidation = validateScraperConfig(account);
+    if (!account || !configValidation.valid) {
+      const error = new ScraperError(
+        'CONFIGURATION_ERROR',
+        'configuration',
+        `Missing required configuration: ${configValidation.missing.join(', ')}`,
+        { action: `Set ${configValidation.missing.join(', ')} in the environment variables` }
+      );
+      console.error('[Sync]', error.message);
 
       const result: SyncResult = {
         success: false,
-        error,
+        accountId,
+        runId,
+        error: error.message,
+        errorCode: error.code,
+        errorDetails: error.toInfo(),
         timestamp,
-        reportDays: parseInt(process.env.REPORT_DAYS || '2', 10),
+        reportDays,
       };
 
-      await storeSyncStatus(result);
+      await storeSyncStatus(result, accountId);
       return result;
     }
 
-    // Get configuration from environment
-    const username = process.env.TANDEM_USERNAME!;
-    const password = process.env.TANDEM_PASSWORD!;
-    const reportDays = parseInt(process.env.REPORT_DAYS || '2', 10);
-
     console.log('[Sync] Configuration validated, starting scraper...');
 
+    // A saved session lets the scraper skip the SSO login
+    const savedSession = await getBrowserSession(accountId);
+
     // Run the scraper
     const scraperResult = await scrapeTandemSource({
-      username,
-      password,
+      username: account.username,
+      password: account.password,
       reportDays,
+      timeZone: account.timeZone,
       timeout: 180000, // 3 minutes
+      session: savedSession ?? undefined,
+      mfaCodeProvider: createAccountMfaCodeProvider(account),
+      region: account.region,
+      mode: getScraperModeFromEnv(),
+      captureOnFailure: isFailureCaptureEnabled(),
     });
 
-    if (!scraperResult.success || !scraperResult.csvBuffer) {
+    if (scraperResult.session) {
+      await storeBrowserSession(scraperResult.session, accountId);
+    }
+
+    if (!scraperResult.success || (!scraperResult.csvBuffer && !scraperResult.jsonData)) {
       console.error('[Sync] Scraper failed:', scraperResult.error);
 
+      const error = scraperResult.error || 'Scraper failed without error message';
+      const captureId = scraperResult.failureCapture && await recordFailureCapture({
+        runId,
+        source: 'sync',
+        accountId,
+        failure: scraperResult.failureCapture,
+        errorCode: scraperResult.errorCode,
+        message: error,
+      });
+
       const result: SyncResult = {
         success: false,
-        error: scraperResult.error || 'Scraper failed without error message',
+        accountId,
+        runId,
+        error,
+        errorCode: scraperResult.errorCode,
+        errorDetails: scraperResult.errorDetails,
+        captureId,
         timestamp,
         reportDays,
       };
 
-      await storeSyncStatus(result);
+      await storeSyncStatus(result, accountId);
       return result;
     }
 
+    const coverage = scraperResult.metadata && {
+      startDate: scraperResult.metadata.startDate,
+      endDate: scraperResult.metadata.endDate,
+    };
+    // The CSV and JSON of one run share a timestamp in their filenames
+    const storedAt = new Date();
+
+    // Check the export's layout against the schema registry and parse it, so
+    // a format change or a malformed file fails the sync loudly instead of
+    // being archived silently
+    let schemaVersion: string | undefined;
+    let parsed: ParsedReport | undefined;
+    if (scraperResult.csvBuffer) {
+      try {
+        schemaVersion = detectCsvSchema(scraperResult.csvBuffer);
+        parsed = parseTandemCsv(scraperResult.csvBuffer);
+      } catch (error) {
+        if (!(error instanceof ScraperError) || (error.code !== 'FORMAT_CHANGED' && error.code !== 'DOWNLOAD_INVALID')) {
+          throw error;
+        }
+
+        console.error('[Sync] Export rejected:', error.message);
+
+        // Keep the raw file and the reason for inspection; it isn't merged into the timeline
+        const { filename } = await storeReport(scraperResult.csvBuffer, generateReportFilename(storedAt), {
+          coverage,
+          source: 'sync',
+          schemaVersion,
+          parseError: error.toInfo(),
+        }, accountId);
+        console.log(`[Sync] Rejected report kept as ${filename}`);
+
+        const result: SyncResult = {
+          success: false,
+          accountId,
+          runId,
+          filename,
+          error: `${error.message} (the report was kept as ${filename})`,
+          errorCode: error.code,
+          errorDetails: error.toInfo(),
+          timestamp,
+          reportDays,
+        };
+
+        await storeSyncStatus(result, accountId);
+        return result;
+      }
+    }
+
+    const recordCounts = parsed ? countRecords(parsed) : undefined;
+    if (recordCounts) {
+      console.log('[Sync] Parsed report:', recordCounts);
+    }
+
     console.log('[Sync] Scraper successful, storing report...');
 
     // Store the report
-    const { filename } = await storeReport(scraperResult.csvBuffer);
+    let filename: string | undefined;
+    let dataFilename: string | undefined;
+    try {
+      if (scraperResult.csvBuffer) {
+        ({ filename } = await storeReport(scraperResult.csvBuffer, generateReportFilename(storedAt), {
+          coverage,
+          source: 'sync',
+          schemaVersion,
+        }, accountId));
+        console.log(`[Sync] Report stored successfully: ${filename}`);
+      }
 
-    console.log(`[Sync] Report stored successfully: ${filename}`);
+      if (scraperResult.jsonData) {
+        ({ filename: dataFilename } = await storeCapturedData(
+          scraperResult.jsonData,
+          generateDataFilename(storedAt),
+          accountId
+        ));
+        console.log(`[Sync] Captured data stored successfully: ${dataFilename}`);
+      }
+
+      if (parsed) {
+        await mergeIntoTimeline(await normalizeReportTimes(parsed, account.timeZone, accountId), {
+          filename,
+          coverage,
+          downloadedAt: scraperResult.metadata?.downloadedAt ?? storedAt.toISOString(),
+        }, accountId);
+      }
+    } catch (error) {
+      throw toScraperError(error, 'storage');
+    }
+
+    // Optional post-sync step; a failed upload doesn't fail the sync and resumes next time
+    const nightscout = await uploadToNightscout(account);
 
     const result: SyncResult = {
       success: true,
+      accountId,
+      runId,
       filename,
+      dataFilename,
       timestamp,
       reportDays,
+      startDate: scraperResult.metadata?.startDate,
+      endDate: scraperResult.metadata?.endDate,
+      sessionReused: scraperResult.sessionRestored,
+      recordCounts,
+      schemaVersion,
+      nightscout,
     };
 
     // Store sync status
-    await storeSyncStatus(result);
+    await storeSyncStatus(result, accountId);
 
     return result;
   } catch (error) {
     console.error('[Sync] Unexpected error during sync:', error);
 
+    const syncError = toScraperError(error, 'storage');
+
     const result: SyncResult = {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error during sync',
+      accountId,
+      runId,
+      error: syncError.message,
+      errorCode: syncError.code,
+      errorDetails: syncError.toInfo(),
       timestamp,
-      reportDays: parseInt(process.env.REPORT_DAYS || '2', 10),
+      reportDays,
     };
 
-    await storeSyncStatus(result);
+    await storeSyncStatus(result, accountId);
     return result;
   }
 }
@@ -1,26 +1,66 @@
 /**
  * Puppeteer-based web scraper for Tandem Source
  * Automates login and CSV report download
- * Using @sparticuz/chromium-min with remote tar file
+ * Browser backends live in ./browser
  */
 
-import puppeteerCore from 'puppeteer-core';
-import puppeteer from 'puppeteer';
-import chromium from '@sparticuz/chromium-min';
-import type { ScraperOptions, ScraperResult } from './types';
-import type { Browser, Page } from 'puppeteer-core';
-
-// Determine if we're running in a serverless environment (production)
-// or if we're testing with serverless chromium locally
-const isServerless = process.env.VERCEL_ENV === 'production' ||
-                     !!process.env.AWS_LAMBDA_FUNCTION_NAME ||
-                     process.env.USE_SERVERLESS_CHROMIUM === 'true';
+import { getRequiredAccountEnvVars } from './accounts';
+import { createBrowser, getBrowserConfigFromEnv } from './browser';
+import type { BrowserHandle } from './browser';
+import { resolveDateRange } from './date-range';
+import { ScraperError, toScraperError } from './errors';
+import { MfaRequiredError } from './mfa';
+import { getCountryNames, getUiLabels, isOnOrigin, resolveRegion } from './region';
+import type {
+  BrowserSession,
+  CanaryStepResult,
+  CapturedData,
+  CapturedResponse,
+  DateRange,
+  FailureCapture,
+  MfaCodeProvider,
+  MfaMethod,
+  PageCapture,
+  ScraperErrorCode,
+  ScraperErrorInfo,
+  ScraperMode,
+  ScraperOptions,
+  ScraperResult,
+  ScraperCheckResult,
+  ScraperStep,
+  SessionCookie,
+  StepTrailEntry,
+  TandemAccount,
+  TandemRegion,
+  UiLabels,
+} from './types';
+import type { CDPSession, HTTPResponse, Page, Protocol } from 'puppeteer-core';
 
 /**
  * Helper function to delay execution (replaces deprecated page.waitForTimeout)
  */
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+const DOWNLOAD_TIMEOUT_MS = 60000;
+
+// Requests whose responses may carry credentials - never recorded
+const AUTH_URL_PATTERN = /oauth|token|login|logout|password/i;
+
+/**
+ * Captures the page's screenshot, HTML, URL and title
+ */
+async function capturePage(page: Page): Promise<PageCapture> {
+  const screenshot = Buffer.from(await page.screenshot({ fullPage: true }));
+  const html = await page.content();
+
+  return {
+    url: page.url(),
+    title: await page.title(),
+    html,
+    screenshot,
+  };
+}
+
 /**
  * Debug helper: Save screenshot and HTML to disk
  */
@@ -35,18 +75,16 @@ async function debugCapture(page: Page, stepName: string): Promise<void> {
 
     await fs.mkdir(debugDir, { recursive: true });
 
+    const { url, title, html, screenshot } = await capturePage(page);
+
     // Screenshot
-    const screenshotPath = path.join(debugDir, `${timestamp}-${stepName}.png`) as `${string}.png`;
-    await page.screenshot({ path: screenshotPath, fullPage: true });
+    await fs.writeFile(path.join(debugDir, `${timestamp}-${stepName}.png`), screenshot);
 
     // HTML
-    const html = await page.content();
     const htmlPath = path.join(debugDir, `${timestamp}-${stepName}.html`);
     await fs.writeFile(htmlPath, html, 'utf-8');
 
     // Page info
-    const url = page.url();
-    const title = await page.title();
     const infoPath = path.join(debugDir, `${timestamp}-${stepName}.txt`);
     await fs.writeFile(infoPath, `URL: ${url}\nTitle: ${title}\n`, 'utf-8');
 
@@ -57,70 +95,244 @@ async function debugCapture(page: Page, stepName: string): Promise<void> {
 }
 
 /**
- * Creates a browser instance with appropriate settings
+ * Region settings and the labels resolved for them, shared by every step
+ */
+interface ScrapeContext {
+  region: TandemRegion;
+  labels: UiLabels;
+  step: ScraperStep; // Step currently running, used to attribute failures
+  trail: StepTrailEntry[]; // Steps started so far, for failure captures
+  browser?: BrowserHandle; // Set once the browser has started
+  onStepFinished?: (step: ScraperStep) => void; // Used by check mode to time each step
+}
+
+/**
+ * Moves the scrape on to a new step
+ */
+function setStep(context: ScrapeContext, step: ScraperStep): void {
+  if (context.step === step) return;
+
+  context.onStepFinished?.(context.step);
+  context.step = step;
+  context.trail.push({ step, startedAt: new Date().toISOString() });
+}
+
+/**
+ * Builds the context for a scrape from its options
+ */
+function createScrapeContext(options: ScraperOptions): ScrapeContext {
+  const region = options.region || resolveRegion();
+  return {
+    region,
+    labels: getUiLabels(region.locale, region.labels),
+    step: 'configuration',
+    trail: [{ step: 'configuration', startedAt: new Date().toISOString() }],
+  };
+}
+
+/**
+ * Clicks the first button whose text (or aria-label) matches one of the labels
+ * Labels are tried in order, so earlier labels take priority
+ * @returns true if a button was clicked
+ */
+async function clickButtonByLabel(
+  page: Page,
+  labels: string[],
+  options: {
+    selector?: string; // Elements to consider (default: buttons)
+    scope?: string; // Only look inside these containers
+    exact?: boolean; // Require the whole text to match
+    allowSubmit?: boolean; // Fall back to any type="submit" button
+    dryRun?: boolean; // Only check that a matching button exists
+  } = {}
+): Promise<boolean> {
+  return page.evaluate((
+    wantedLabels: string[],
+    selector: string,
+    scope: string | null,
+    exact: boolean,
+    allowSubmit: boolean,
+    dryRun: boolean
+  ) => {
+    const roots: ParentNode[] = scope ? Array.from(document.querySelectorAll(scope)) : [document];
+    const candidates = roots.flatMap(root => Array.from(root.querySelectorAll(selector))) as HTMLElement[];
+
+    const matches = (btn: HTMLElement, label: string) => {
+      const text = btn.textContent?.trim().toLowerCase() || '';
+      const ariaLabel = btn.getAttribute('aria-label')?.toLowerCase() || '';
+      const wanted = label.toLowerCase();
+      return exact ? text === wanted : text.includes(wanted) || ariaLabel.includes(wanted);
+    };
+
+    for (const label of wantedLabels) {
+      const match = candidates.find(btn => matches(btn, label));
+      if (match) {
+        if (!dryRun) match.click();
+        return true;
+      }
+    }
+
+    if (allowSubmit) {
+      const submitBtn = candidates.find(btn => btn.getAttribute('type') === 'submit');
+      if (submitBtn) {
+        if (!dryRun) submitBtn.click();
+        return true;
+      }
+    }
+
+    return false;
+  }, labels, options.selector ?? 'button', options.scope ?? null, !!options.exact, !!options.allowSubmit, !!options.dryRun);
+}
+
+/**
+ * Checks whether the page text contains any of the given phrases (case-insensitive)
+ */
+async function pageContainsText(page: Page, phrases: string[]): Promise<boolean> {
+  return page.evaluate((wanted: string[]) => {
+    // Material-UI uses divs with typography classes, not actual h1-h6 tags
+    const pageText = (document.body.textContent || '').toLowerCase();
+    return wanted.some(phrase => pageText.includes(phrase.toLowerCase()));
+  }, phrases);
+}
+
+/**
+ * Clicks the first open dropdown option containing one of the names
+ * MUI renders options in a popup menu, so we need to find and click the option
+ * @returns true if an option was clicked
+ */
+async function selectDropdownOption(page: Page, names: string[]): Promise<boolean> {
+  return page.evaluate((wanted: string[]) => {
+    const options = Array.from(document.querySelectorAll('[role="option"]'));
+    for (const name of wanted) {
+      const option = options.find(opt =>
+        opt.textContent?.toLowerCase().includes(name.toLowerCase())
+      ) as HTMLElement | undefined;
+
+      if (option) {
+        option.click();
+        return true;
+      }
+    }
+    return false;
+  }, names);
+}
+
+/**
+ * Clicks the first open dropdown option, as a fallback
+ */
+async function selectFirstDropdownOption(page: Page): Promise<void> {
+  await page.evaluate(() => {
+    const firstOption = document.querySelector('[role="option"]') as HTMLElement | null;
+    if (firstOption) firstOption.click();
+  });
+}
+
+// Inputs the SSO uses for verification codes
+const MFA_CODE_SELECTOR = [
+  'input[autocomplete="one-time-code"]',
+  'input[name="code"]',
+  'input[name="otp"]',
+  'input[name="verificationCode"]',
+  'input#code',
+].join(', ');
+
+/**
+ * Polls until login redirects back to Tandem Source, shows an MFA prompt,
+ * or shows an error saying the credentials were rejected
+ * @returns 'redirected', 'mfa', 'rejected', or 'timeout'
  */
-async function createBrowser(): Promise<Browser> {
-  console.log('[Scraper] Launching browser...', { isServerless });
+async function waitForLoginOutcome(
+  page: Page,
+  context: ScrapeContext,
+  timeoutMs: number
+): Promise<'redirected' | 'mfa' | 'rejected' | 'timeout'> {
+  const deadline = Date.now() + timeoutMs;
+  const sourceOrigin = new URL(context.region.sourceBaseUrl).origin;
+
+  while (Date.now() < deadline) {
+    const state = await page.evaluate((codeSelector: string, origin: string, rejectedLabels: string[]) => {
+      if (window.location.origin === origin) return 'redirected';
+      if (document.querySelector(codeSelector)) return 'mfa';
+
+      const alerts = Array.from(document.querySelectorAll('[role="alert"], .error, .alert-danger'));
+      const alertText = alerts.map(alert => alert.textContent || '').join(' ').toLowerCase();
+      if (rejectedLabels.some(label => alertText.includes(label.toLowerCase()))) return 'rejected';
+
+      return 'pending';
+    }, MFA_CODE_SELECTOR, sourceOrigin, context.labels.invalidCredentials)
+      .catch(() => 'pending'); // Context is destroyed mid-navigation
+
+    if (state !== 'pending') {
+      return state as 'redirected' | 'mfa' | 'rejected';
+    }
 
-  // Enable debug mode logging
-  if (process.env.DEBUG_BROWSER === 'true') {
-    console.log('[Debug] Debug mode enabled - captures will be saved to debug-captures/');
+    await delay(500);
   }
 
-  if (isServerless) {
-    // Serverless: Use puppeteer-core with @sparticuz/chromium-min
-    // Remote tar file URL - must match chromium version and architecture
-    const CHROMIUM_PACK_URL = 'https://github.com/Sparticuz/chromium/releases/download/v141.0.0/chromium-v141.0.0-pack.x64.tar';
+  return 'timeout';
+}
 
-    // Set font configuration paths for Lambda environment
-    process.env.FONTCONFIG_PATH = '/tmp';
-    process.env.HOME = '/tmp';
+/**
+ * Checks the MFA prompt for any of the phrases: the headings and the form (or
+ * failing that, the element) around the code input
+ * The rest of the page isn't searched, as login pages mention email anyway
+ */
+async function mfaPromptContainsText(page: Page, phrases: string[]): Promise<boolean> {
+  return page.evaluate((codeSelector: string, wanted: string[]) => {
+    const input = document.querySelector(codeSelector);
+    const prompt = input?.closest('form, [role="dialog"]') ?? input?.parentElement;
+    const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6, [role="heading"]'));
+
+    const promptText = [prompt, ...headings].map(element => element?.textContent || '').join(' ').toLowerCase();
+    return wanted.some(phrase => promptText.includes(phrase.toLowerCase()));
+  }, MFA_CODE_SELECTOR, phrases);
+}
 
-    const executablePath = await chromium.executablePath(CHROMIUM_PACK_URL);
+/**
+ * Works out which kind of code the MFA prompt is asking for
+ */
+async function detectMfaMethod(page: Page, context: ScrapeContext): Promise<MfaMethod> {
+  if (await mfaPromptContainsText(page, context.labels.mfaAuthenticator)) return 'totp';
+  if (await mfaPromptContainsText(page, context.labels.mfaEmail)) return 'email';
+  return 'unknown';
+}
 
-    console.log('[Scraper] Using @sparticuz/chromium-min with remote tar');
-    console.log('[Scraper] Chromium pack URL:', CHROMIUM_PACK_URL);
-    console.log('[Scraper] Chromium executable path:', executablePath);
-    console.log('[Scraper] Working directory:', process.cwd());
+/**
+ * Answers an MFA prompt using the configured code provider
+ * Throws MfaRequiredError if no code can be obtained
+ */
+async function handleMfaChallenge(
+  page: Page,
+  context: ScrapeContext,
+  mfaCodeProvider?: MfaCodeProvider
+): Promise<void> {
+  const challenge = {
+    method: await detectMfaMethod(page, context),
+    requestedAt: new Date(),
+  };
 
-    return await puppeteerCore.launch({
-      args: [
-        ...chromium.args,
-        '--disable-gpu',
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--single-process',
-      ],
-      defaultViewport: {
-        width: 1280,
-        height: 720,
-      },
-      executablePath,
-      headless: true, // Must be explicitly true for chromium v141+
-    });
-  } else {
-    // Local dev: Use full puppeteer with bundled Chromium
-    // DEBUG_BROWSER=true shows visible browser for debugging
-    const headless = process.env.DEBUG_BROWSER !== 'true';
-
-    console.log('[Scraper] Using local Chromium (puppeteer)');
-    console.log('[Scraper] Headless mode:', headless);
-
-    return await puppeteer.launch({
-      headless,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-gpu',
-      ],
-      defaultViewport: {
-        width: 1280,
-        height: 720,
-      },
-    });
+  console.log(`[Scraper] MFA challenge detected (${challenge.method})`);
+  await debugCapture(page, '06a-mfa-challenge');
+
+  if (!mfaCodeProvider) {
+    throw new MfaRequiredError(challenge, 'no TOTP secret or email code source is configured');
+  }
+
+  const code = await mfaCodeProvider.getCode(challenge);
+  if (!code) {
+    throw new MfaRequiredError(challenge, 'no verification code was available');
   }
+
+  await page.type(MFA_CODE_SELECTOR, code);
+  console.log('[Scraper] Verification code filled');
+
+  const verifyClicked = await clickButtonByLabel(page, context.labels.verify, { allowSubmit: true });
+
+  if (!verifyClicked) {
+    await page.keyboard.press('Enter');
+  }
+
+  await debugCapture(page, '06b-mfa-submitted');
 }
 
 /**
@@ -128,18 +340,22 @@ async function createBrowser(): Promise<Browser> {
  */
 async function performLogin(
   page: Page,
-  username: string,
-  password: string
+  options: ScraperOptions,
+  context: ScrapeContext
 ): Promise<void> {
+  const { username, password, mfaCodeProvider } = options;
+  const { region, labels } = context;
+
   // Capture browser console logs
   page.on('console', (msg) => {
     console.log(`[Browser Console] ${msg.type()}: ${msg.text()}`);
   });
 
-  console.log('[Scraper] Navigating to Tandem Source...');
+  setStep(context, 'navigate');
+  console.log(`[Scraper] Navigating to Tandem Source (${region.sourceBaseUrl})...`);
 
   // Navigate to the main page
-  await page.goto('https://source.tandemdiabetes.com/', {
+  await page.goto(`${region.sourceBaseUrl}/`, {
     waitUntil: 'networkidle0',
     timeout: 60000,
   });
@@ -151,20 +367,8 @@ async function performLogin(
   await debugCapture(page, '01-initial-page');
 
   // Check for cookie modal first (it's an overlay that may block other interactions)
-  const cookieButtonClicked = await page.evaluate(() => {
-    const buttons = Array.from(document.querySelectorAll('button'));
-    const cookieBtn = buttons.find(btn =>
-      btn.textContent?.toLowerCase().includes('accept') ||
-      btn.textContent?.toLowerCase().includes('agree') ||
-      btn.textContent?.toLowerCase().includes('cookie')
-    ) as HTMLElement | undefined;
-
-    if (cookieBtn) {
-      cookieBtn.click();
-      return true;
-    }
-    return false;
-  });
+  setStep(context, 'cookie-consent');
+  const cookieButtonClicked = await clickButtonByLabel(page, labels.cookieAccept);
 
   if (cookieButtonClicked) {
     console.log('[Scraper] Cookie modal detected, clicking accept...');
@@ -173,11 +377,8 @@ async function performLogin(
   }
 
   // Check for country/language selector page
-  const countrySelectorExists = await page.evaluate(() => {
-    // Material-UI uses divs with typography classes, not actual h1-h6 tags
-    const pageText = document.body.textContent || '';
-    return pageText.includes('Select your country');
-  });
+  setStep(context, 'country-selection');
+  const countrySelectorExists = await pageContainsText(page, labels.countrySelectorHeading);
 
   if (countrySelectorExists) {
     console.log('[Scraper] Country/language selector page detected!');
@@ -186,68 +387,35 @@ async function performLogin(
     // Material-UI select requires clicking to open, then clicking the option
     // We'll use page.evaluate to interact with the React components directly
 
-    console.log('[Scraper] Selecting country (United States)...');
+    console.log(`[Scraper] Selecting country (${region.country})...`);
 
     // Click the country dropdown to open it
     await page.click('#country');
     await delay(1000);
     await debugCapture(page, '03b-country-dropdown-opened');
 
-    // Select "United States" from the dropdown
-    // MUI renders options in a popup menu, so we need to find and click the option
-    const countrySelected = await page.evaluate(() => {
-      // Look for the option in the popup menu
-      const options = Array.from(document.querySelectorAll('[role="option"]'));
-      const usOption = options.find(opt =>
-        opt.textContent?.includes('United States') ||
-        opt.textContent?.includes('USA')
-      ) as HTMLElement | undefined;
-
-      if (usOption) {
-        usOption.click();
-        return true;
-      }
-      return false;
-    });
+    const countrySelected = await selectDropdownOption(page, getCountryNames(region.country));
 
     if (!countrySelected) {
-      console.warn('[Scraper] Could not find United States option, trying first option...');
-      await page.evaluate(() => {
-        const firstOption = document.querySelector('[role="option"]') as HTMLElement | null;
-        if (firstOption) firstOption.click();
-      });
+      console.warn(`[Scraper] Could not find ${region.country} option, trying first option...`);
+      await selectFirstDropdownOption(page);
     }
 
     await delay(1000);
     await debugCapture(page, '03c-after-country-selection');
 
-    console.log('[Scraper] Selecting language (English)...');
+    console.log(`[Scraper] Selecting language (${region.language})...`);
 
     // Click the language dropdown to open it (now enabled after country selection)
     await page.click('#preferredLanguage');
     await delay(1000);
     await debugCapture(page, '03d-language-dropdown-opened');
 
-    // Select "English" from the dropdown
-    const languageSelected = await page.evaluate(() => {
-      const options = Array.from(document.querySelectorAll('[role="option"]'));
-      const englishOption = options.find(opt =>
-        opt.textContent?.includes('English')
-      ) as HTMLElement | undefined;
-
-      if (englishOption) {
-        englishOption.click();
-        return true;
-      }
-      return false;
-    });
+    const languageSelected = await selectDropdownOption(page, [region.language]);
 
     if (!languageSelected) {
-      console.warn('[Scraper] Could not find English option, trying first option...');
-      await page.evaluate(() => {
-        const firstOption = document.querySelector('[role="option"]') as HTMLElement | null;
-        if (firstOption) firstOption.click();
-      });
+      console.warn(`[Scraper] Could not find ${region.language} option, trying first option...`);
+      await selectFirstDropdownOption(page);
     }
 
     await delay(1000);
@@ -255,21 +423,10 @@ async function performLogin(
 
     // Click the Continue button
     console.log('[Scraper] Clicking Continue button...');
-    const continueClicked = await page.evaluate(() => {
-      const buttons = Array.from(document.querySelectorAll('button'));
-      const continueBtn = buttons.find(btn =>
-        btn.textContent?.includes('Continue')
-      ) as HTMLElement | undefined;
-
-      if (continueBtn) {
-        continueBtn.click();
-        return true;
-      }
-      return false;
-    });
+    const continueClicked = await clickButtonByLabel(page, labels.continue);
 
     if (!continueClicked) {
-      throw new Error('Could not find Continue button');
+      throw new ScraperError('SELECTOR_MISSING', context.step, 'Could not find Continue button');
     }
 
     await delay(2000);
@@ -278,15 +435,13 @@ async function performLogin(
     console.log('[Scraper] Country/language selection completed');
   }
 
+  setStep(context, 'sso-redirect');
   console.log('[Scraper] Checking for SSO login page...');
 
   // The page might have already navigated (React SPA routing), or might still need to navigate
   // Check if we're already on the login page
-  const isOnLoginPage = await page.evaluate(() => {
-    const pageText = document.body.textContent || '';
-    return pageText.includes('Account Login') ||
-           document.querySelector('input[name="username"], input[type="email"]') !== null;
-  });
+  const isOnLoginPage = await pageContainsText(page, labels.loginHeading) ||
+    await page.$('input[name="username"], input[type="email"]') !== null;
 
   if (!isOnLoginPage) {
     console.log('[Scraper] Not on login page yet, waiting for navigation...');
@@ -302,13 +457,14 @@ async function performLogin(
   await debugCapture(page, '04-on-login-page');
 
   // Verify we're on SSO page
-  let currentUrl = page.url();
-  if (!currentUrl.includes('sso.tandemdiabetes.com')) {
+  const currentUrl = page.url();
+  if (!isOnOrigin(currentUrl, region.ssoBaseUrl)) {
     console.error(`[Scraper] ❌ Expected SSO page, got: ${currentUrl}`);
     await debugCapture(page, '04-NOT-on-sso-page');
-    throw new Error('Did not redirect to SSO login page');
+    throw new ScraperError('SSO_REDIRECT_FAILED', context.step, 'Did not redirect to SSO login page');
   }
 
+  setStep(context, 'credentials');
   console.log('[Scraper] On SSO login page, filling credentials...');
   await debugCapture(page, '05-on-sso-page');
 
@@ -322,25 +478,14 @@ async function performLogin(
 
   // Step 2: Click "Next" button to proceed to password step
   console.log('[Scraper] Clicking Next button...');
-  const nextButtonClicked = await page.evaluate(() => {
-    const buttons = Array.from(document.querySelectorAll('button'));
-    const nextBtn = buttons.find(btn =>
-      btn.textContent?.toLowerCase().includes('next') ||
-      btn.getAttribute('aria-label')?.toLowerCase().includes('next')
-    ) as HTMLElement | undefined;
-
-    if (nextBtn) {
-      nextBtn.click();
-      return true;
-    }
-    return false;
-  });
+  const nextButtonClicked = await clickButtonByLabel(page, labels.next);
 
   if (!nextButtonClicked) {
-    throw new Error('Could not find Next button');
+    throw new ScraperError('SELECTOR_MISSING', context.step, 'Could not find Next button');
   }
 
   // Serverless environments need more time for page transitions
+  const isServerless = context.browser?.backend === 'serverless';
   const nextClickDelay = isServerless ? 5000 : 2000;
   const passwordTimeout = isServerless ? 30000 : 10000;
 
@@ -360,29 +505,7 @@ async function performLogin(
   // Step 4: Click submit button (might be "Next", "Continue", "Sign In", etc.)
   console.log('[Scraper] Submitting login form...');
 
-  const submitClicked = await page.evaluate(() => {
-    const buttons = Array.from(document.querySelectorAll('button'));
-    const submitBtn = buttons.find(btn => {
-      const text = btn.textContent?.toLowerCase() || '';
-      const ariaLabel = btn.getAttribute('aria-label')?.toLowerCase() || '';
-      return text.includes('sign in') ||
-             text.includes('log in') ||
-             text.includes('login') ||
-             text.includes('submit') ||
-             text.includes('next') ||
-             text.includes('continue') ||
-             ariaLabel.includes('sign in') ||
-             ariaLabel.includes('log in') ||
-             ariaLabel.includes('login') ||
-             btn.getAttribute('type') === 'submit';
-    }) as HTMLElement | undefined;
-
-    if (submitBtn) {
-      submitBtn.click();
-      return true;
-    }
-    return false;
-  });
+  const submitClicked = await clickButtonByLabel(page, labels.signIn, { allowSubmit: true });
 
   if (!submitClicked) {
     // Fallback: try clicking any submit button
@@ -390,218 +513,643 @@ async function performLogin(
     await page.click(submitSelector);
   }
 
-  // Wait for navigation back to Tandem Source
+  // Wait for navigation back to Tandem Source, or a second-factor prompt
+  setStep(context, 'login-redirect');
   await delay(2000);
   console.log('[Scraper] Waiting for redirect after login...');
 
-  // Check if already redirected (client-side navigation)
-  const isRedirected = await page.evaluate(() => {
-    return window.location.href.includes('source.tandemdiabetes.com');
-  });
+  let outcome = await waitForLoginOutcome(page, context, 60000);
+
+  if (outcome === 'rejected') {
+    await debugCapture(page, '07-credentials-rejected');
+    throw new ScraperError('INVALID_CREDENTIALS', 'credentials', 'Login failed - Tandem rejected the username or password');
+  }
+
+  if (outcome === 'mfa') {
+    setStep(context, 'mfa');
+    await handleMfaChallenge(page, context, mfaCodeProvider);
+    outcome = await waitForLoginOutcome(page, context, 60000);
+
+    if (outcome === 'mfa') {
+      await debugCapture(page, '06c-mfa-rejected');
+      throw new MfaRequiredError(
+        { method: await detectMfaMethod(page, context), requestedAt: new Date() },
+        'the verification code was not accepted'
+      );
+    }
+  }
+
+  setStep(context, 'login-redirect');
 
-  if (!isRedirected) {
-    await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 60000 });
+  if (outcome === 'redirected') {
+    // Let the app finish loading after the redirect
+    await page.waitForNetworkIdle({ idleTime: 500, timeout: 30000 }).catch(() => undefined);
   }
 
   await debugCapture(page, '07-after-login-submit');
 
-  // Verify we're back on source.tandemdiabetes.com
+  // Verify we're back on Tandem Source
   const newUrl = page.url();
-  if (!newUrl.includes('source.tandemdiabetes.com')) {
+  if (!isOnOrigin(newUrl, region.sourceBaseUrl)) {
     console.error(`[Scraper] ❌ Login failed, still on: ${newUrl}`);
     await debugCapture(page, '07-login-failed');
-    throw new Error('Login failed - did not redirect back to source.tandemdiabetes.com');
+    throw new ScraperError(
+      'SSO_REDIRECT_FAILED',
+      context.step,
+      `Login failed - did not redirect back to ${new URL(region.sourceBaseUrl).hostname}`
+    );
   }
 
   console.log('[Scraper] Login successful!');
 }
 
 /**
- * Navigates to reports section and downloads CSV
+ * Restores a saved session and checks whether it is still logged in
+ * Leaves the browser with no cookies if the session is no longer valid or
+ * the restore navigation fails, so the full login starts fresh
+ * @returns true if login can be skipped
  */
-async function downloadReport(
+async function restoreSession(
   page: Page,
-  reportDays: number
-): Promise<Buffer> {
-  console.log('[Scraper] Navigating to reports section...');
-
-  // Navigate to the Daily Timeline tab
-  await page.goto('https://source.tandemdiabetes.com/reports/timeline', {
-    waitUntil: 'networkidle0',
-    timeout: 60000,
-  });
-
-  await debugCapture(page, '08-reports-page');
-
-  console.log(`[Scraper] Configuring time range for ${reportDays} days...`);
+  session: BrowserSession,
+  context: ScrapeContext
+): Promise<boolean> {
+  setStep(context, 'session-restore');
+  console.log(`[Scraper] Restoring saved session from ${session.savedAt}...`);
+
+  await page.setCookie(...session.cookies);
+
+  // Local storage can only be written from the page's own origin, so seed it
+  // before the app's scripts run on the first navigation
+  const { identifier } = await page.evaluateOnNewDocument((entries: Record<string, Record<string, string>>) => {
+    const items = entries[window.location.origin];
+    if (!items) return;
+    for (const [key, value] of Object.entries(items)) {
+      window.localStorage.setItem(key, value);
+    }
+  }, session.localStorage);
 
-  // Find and click the date range dropdown
+  // A failed restore is never fatal: the full login below still works
   try {
-    const dateRangeSelector = '[aria-labelledby="date-range-label"]';
-    const dateRangeExists = await page.$(dateRangeSelector);
-
-    if (dateRangeExists) {
-      console.log('[Scraper] Found date range dropdown, clicking to open...');
-      await page.click(dateRangeSelector);
-      await delay(1000);
-
-      // Select "1 Week" option (for now, hardcoded to 1 week)
-      // TODO: Use reportDays to select appropriate option
-      const optionSelected = await page.evaluate(() => {
-        const options = Array.from(document.querySelectorAll('[role="option"]'));
-        const oneWeekOption = options.find(opt =>
-          opt.textContent?.includes('1 Week')
-        ) as HTMLElement | undefined;
-
-        if (oneWeekOption) {
-          oneWeekOption.click();
-          return true;
-        }
-        return false;
+    try {
+      await page.goto(`${context.region.sourceBaseUrl}/reports/timeline`, {
+        waitUntil: 'networkidle0',
+        timeout: 60000,
       });
+    } finally {
+      await page.removeScriptToEvaluateOnNewDocument(identifier);
+    }
 
-      if (optionSelected) {
-        console.log('[Scraper] Selected 1 Week time range');
-        await delay(1000);
-      } else {
-        console.warn('[Scraper] Could not find 1 Week option, using default');
-      }
-    } else {
-      console.warn('[Scraper] Could not find date range dropdown, using default');
+    await debugCapture(page, '00-session-restored');
+
+    const isLoggedIn = isOnOrigin(page.url(), context.region.sourceBaseUrl) &&
+      !await pageContainsText(page, context.labels.countrySelectorHeading) &&
+      await page.$('input[type="password"], input[name="username"], input[type="email"]') === null;
+
+    if (isLoggedIn) {
+      console.log('[Scraper] Saved session is still valid, skipping login');
+      return true;
     }
+
+    console.log('[Scraper] Saved session expired, falling back to full login');
   } catch (error) {
-    console.warn('[Scraper] Could not configure time range:', error);
+    console.warn('[Scraper] Could not restore saved session, falling back to full login:', error);
   }
 
-  // Wait for data to load
-  await delay(2000);
+  // Start the full login from a clean slate
+  try {
+    const client = await page.target().createCDPSession();
+    await client.send('Network.clearBrowserCookies');
+    await client.detach();
+  } catch (error) {
+    console.warn('[Scraper] Could not clear restored cookies:', error);
+  }
+  await page.evaluate(() => window.localStorage.clear()).catch(() => undefined);
 
-  console.log('[Scraper] Looking for Export CSV button...');
+  return false;
+}
 
-  // Set up download handling using Chrome DevTools Protocol
+/**
+ * Captures cookies (all domains, including SSO) and Tandem Source local storage
+ */
+async function captureSession(page: Page): Promise<BrowserSession> {
   const client = await page.target().createCDPSession();
-  await client.send('Page.setDownloadBehavior', {
-    behavior: 'allow',
-    downloadPath: '/tmp',
-  });
+  const { cookies } = await client.send('Network.getAllCookies');
+  await client.detach();
 
-  // Track download
-  let downloadedFile: { guid: string; suggestedFilename: string } | null = null;
+  const localStorage = await page.evaluate(() => ({
+    [window.location.origin]: { ...window.localStorage },
+  }));
 
-  client.on('Page.downloadProgress', (event: any) => {
-    if (event.state === 'completed') {
-      downloadedFile = event as { guid: string; suggestedFilename: string };
-      console.log('[Scraper] Download completed:', event.suggestedFilename);
-    }
-  });
+  return {
+    cookies: cookies.map((cookie): SessionCookie => ({
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain,
+      path: cookie.path,
+      expires: cookie.expires,
+      httpOnly: cookie.httpOnly,
+      secure: cookie.secure,
+      sameSite: cookie.sameSite,
+    })),
+    localStorage,
+    savedAt: new Date().toISOString(),
+  };
+}
 
-  // Find and click Export button by text content
-  const exportButtonClicked = await page.evaluate(() => {
-    const buttons = Array.from(document.querySelectorAll('button, a'));
-    const exportBtn = buttons.find(btn =>
-      btn.textContent?.includes('Export CSV') ||
-      btn.textContent?.includes('Export')
-    ) as HTMLElement | undefined;
+/**
+ * Formats a YYYY-MM-DD date the way the Tandem Source date picker expects (MM/DD/YYYY)
+ */
+function formatPickerDate(dateString: string): string {
+  const [year, month, day] = dateString.split('-');
+  return `${month}/${day}/${year}`;
+}
 
-    if (exportBtn) {
-      exportBtn.click();
-      return true;
-    }
-    return false;
-  });
+/**
+ * Parses a date picker value (MM/DD/YYYY) back into YYYY-MM-DD
+ */
+function parsePickerDate(value: string): string | null {
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, month, day, year] = match;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
 
-  if (!exportButtonClicked) {
-    throw new Error('Could not find Export button');
+/**
+ * Selects a custom date range in the Daily Timeline date picker
+ * @returns The range the picker actually shows after applying
+ */
+async function selectDateRange(
+  page: Page,
+  range: DateRange,
+  context: ScrapeContext
+): Promise<DateRange> {
+  const dateRangeSelector = '[aria-labelledby="date-range-label"]';
+  const startInputSelector = 'input[name="startDate"], input#startDate, input[aria-label*="Start"]';
+  const endInputSelector = 'input[name="endDate"], input#endDate, input[aria-label*="End"]';
+
+  setStep(context, 'date-range');
+  console.log(`[Scraper] Configuring time range ${range.startDate} to ${range.endDate}...`);
+
+  const dateRangeExists = await page.$(dateRangeSelector);
+  if (!dateRangeExists) {
+    throw new ScraperError('SELECTOR_MISSING', context.step, 'Could not find date range dropdown');
   }
 
-  console.log('[Scraper] Clicked Export button...');
+  console.log('[Scraper] Found date range dropdown, clicking to open...');
+  await page.click(dateRangeSelector);
+  await delay(1000);
+
+  // Presets ("1 Week", "2 Weeks", ...) only cover fixed windows ending today,
+  // so always switch to the custom range option
+  const customSelected = await selectDropdownOption(page, context.labels.customRange);
+
+  if (!customSelected) {
+    throw new ScraperError('SELECTOR_MISSING', context.step, 'Could not find Custom date range option');
+  }
 
-  // Check for modal confirmation
   await delay(1000);
+  await debugCapture(page, '08a-custom-range-opened');
+
+  await page.waitForSelector(startInputSelector, { visible: true, timeout: 10000 });
+  await page.waitForSelector(endInputSelector, { visible: true, timeout: 10000 });
+
+  // Replace the existing value: select everything in the input, then type over it
+  for (const [selector, value] of [
+    [startInputSelector, range.startDate],
+    [endInputSelector, range.endDate],
+  ]) {
+    await page.click(selector, { clickCount: 3 });
+    await page.keyboard.press('Backspace');
+    await page.type(selector, formatPickerDate(value));
+  }
 
-  const modalButtonClicked = await page.evaluate(() => {
-    const modals = Array.from(document.querySelectorAll('div[role="dialog"], div.modal, div.modal-content'));
-    for (const modal of modals) {
-      const buttons = Array.from(modal.querySelectorAll('button'));
-      const exportBtn = buttons.find(btn => btn.textContent?.includes('Export')) as HTMLElement | undefined;
-      if (exportBtn) {
-        exportBtn.click();
-        return true;
+  await debugCapture(page, '08b-custom-range-filled');
+
+  const applyClicked = await clickButtonByLabel(page, context.labels.apply, { exact: true });
+
+  if (!applyClicked) {
+    // Some picker versions apply on Enter instead of a button
+    await page.keyboard.press('Enter');
+  }
+
+  await delay(1000);
+  await debugCapture(page, '08c-custom-range-applied');
+
+  // Read back what the picker shows - this is the range the export will contain
+  const [startValue, endValue] = await Promise.all([
+    page.$eval(startInputSelector, el => (el as HTMLInputElement).value),
+    page.$eval(endInputSelector, el => (el as HTMLInputElement).value),
+  ]);
+
+  const selected: DateRange = {
+    startDate: parsePickerDate(startValue) || '',
+    endDate: parsePickerDate(endValue) || '',
+  };
+
+  if (!selected.startDate || !selected.endDate) {
+    throw new ScraperError(
+      'SELECTOR_MISSING',
+      context.step,
+      `Could not read selected date range (start: "${startValue}", end: "${endValue}")`
+    );
+  }
+
+  if (selected.startDate !== range.startDate || selected.endDate !== range.endDate) {
+    console.warn('[Scraper] Date picker adjusted the requested range:', { requested: range, selected });
+  }
+
+  console.log(`[Scraper] Selected time range ${selected.startDate} to ${selected.endDate}`);
+
+  return selected;
+}
+
+/**
+ * Navigates to reports section and downloads CSV for the given date range
+ * @returns The CSV and the range that was actually selected
+ */
+async function downloadReport(
+  page: Page,
+  range: DateRange,
+  context: ScrapeContext,
+  mode: ScraperMode
+): Promise<{ csvBuffer?: Buffer; jsonData?: CapturedData; range: DateRange }> {
+  setStep(context, 'navigate');
+  console.log('[Scraper] Navigating to reports section...');
+
+  // Start recording before the timeline loads so its first requests are included
+  const capture = mode === 'csv' ? null : startJsonCapture(page, context);
+
+  try {
+    // Navigate to the Daily Timeline tab
+    await page.goto(`${context.region.sourceBaseUrl}/reports/timeline`, {
+      waitUntil: 'networkidle0',
+      timeout: 60000,
+    });
+
+    await debugCapture(page, '08-reports-page');
+
+    const selectedRange = await selectDateRange(page, range, context);
+
+    // Wait for data to load
+    await delay(2000);
+
+    let jsonData: CapturedData | undefined;
+
+    if (capture) {
+      await page.waitForNetworkIdle({ idleTime: 1000, timeout: 30000 }).catch(() => {
+        console.warn('[Scraper] Network did not go idle, using the responses captured so far');
+      });
+
+      jsonData = {
+        startDate: selectedRange.startDate,
+        endDate: selectedRange.endDate,
+        capturedAt: new Date().toISOString(),
+        responses: await capture.stop(),
+      };
+
+      console.log(`[Scraper] Captured ${jsonData.responses.length} JSON responses`);
+    }
+
+    if (mode === 'json') {
+      if (!jsonData || jsonData.responses.length === 0) {
+        throw new ScraperError('DOWNLOAD_INVALID', context.step, 'No JSON data responses were captured from the timeline');
       }
+      return { jsonData, range: selectedRange };
     }
-    return false;
-  });
 
-  if (modalButtonClicked) {
-    console.log('[Scraper] Modal detected, clicked confirmation...');
+    try {
+      const csvBuffer = await exportCsv(page, context);
+      return { csvBuffer, jsonData, range: selectedRange };
+    } catch (error) {
+      // The captured JSON is the fallback when the export breaks
+      if (jsonData && jsonData.responses.length > 0) {
+        console.warn('[Scraper] CSV export failed, keeping the captured JSON:', error);
+        return { jsonData, range: selectedRange };
+      }
+      throw error;
+    }
+  } finally {
+    await capture?.stop();
   }
+}
 
-  console.log('[Scraper] Waiting for download to complete...');
+/**
+ * Records the JSON responses the Source app fetches (XHR/fetch only)
+ * Auth traffic is never recorded: nothing from the SSO origin, and no
+ * token or login endpoints
+ * @returns `stop()`, which detaches the listener and resolves to the responses
+ */
+function startJsonCapture(
+  page: Page,
+  context: ScrapeContext
+): { stop: () => Promise<CapturedResponse[]> } {
+  const pending: Promise<CapturedResponse | null>[] = [];
+  let stopped: Promise<CapturedResponse[]> | null = null;
+
+  const onResponse = (response: HTTPResponse) => {
+    const request = response.request();
+    const url = response.url();
+    const contentType = response.headers()['content-type'] || '';
+
+    if (!['xhr', 'fetch'].includes(request.resourceType())) return;
+    if (!contentType.includes('json') || !response.ok()) return;
+    if (isOnOrigin(url, context.region.ssoBaseUrl) || AUTH_URL_PATTERN.test(url)) return;
+
+    pending.push(
+      response.json()
+        .then(body => ({
+          url,
+          method: request.method(),
+          status: response.status(),
+          capturedAt: new Date().toISOString(),
+          body,
+        }))
+        .catch(error => {
+          // Bodies of redirected or discarded responses can't be read
+          console.warn(`[Scraper] Could not read JSON response from ${url}:`, error);
+          return null;
+        })
+    );
+  };
+
+  page.on('response', onResponse);
 
-  // Wait for download to complete (up to 60 seconds)
-  // Try both CDP event and file system polling for reliability
+  return {
+    stop() {
+      if (!stopped) {
+        page.off('response', onResponse);
+        stopped = Promise.all(pending).then(responses =>
+          responses.filter((response): response is CapturedResponse => response !== null)
+        );
+      }
+      return stopped;
+    },
+  };
+}
+
+/**
+ * Ids of a page's frames, including nested ones, to tell its downloads apart
+ */
+async function getFrameIds(client: CDPSession): Promise<Set<string>> {
+  const { frameTree } = await client.send('Page.getFrameTree');
+  const ids = new Set<string>();
+
+  const collect = (tree: Protocol.Page.FrameTree) => {
+    ids.add(tree.frame.id);
+    tree.childFrames?.forEach(collect);
+  };
+  collect(frameTree);
+
+  return ids;
+}
+
+/**
+ * Clicks "Export CSV" for the range currently shown and reads the download
+ */
+async function exportCsv(page: Page, context: ScrapeContext): Promise<Buffer> {
+  setStep(context, 'export');
+  console.log('[Scraper] Looking for Export CSV button...');
+
+  // Each download gets its own directory so overlapping runs can't pick up
+  // each other's files. With a remote browser the parent directory must be
+  // shared with it at the same path
   const fs = await import('fs/promises');
+  const os = await import('os');
   const path = await import('path');
 
-  let filename: string | null = null;
-  const startTime = Date.now();
+  const downloadRoot = context.browser?.downloadDir ?? os.tmpdir();
+  const downloadDir = await fs.mkdtemp(path.join(downloadRoot, 'tandem-download-'));
 
-  while (!filename && Date.now() - startTime < 60000) {
-    // Check if CDP event fired
-    if (downloadedFile) {
-      const file = downloadedFile as { guid: string; suggestedFilename: string };
-      filename = file.suggestedFilename;
-      console.log('[Scraper] Download completed via CDP event:', filename);
-      break;
-    }
+  // Download events are sent by the browser, not the page, for every page of
+  // a shared browser
+  const client = await page.browser().target().createCDPSession();
+  const pageClient = await page.target().createCDPSession();
 
-    // Fallback: Check /tmp directory for CSV files
-    try {
-      const files = await fs.readdir('/tmp');
-      const csvFiles = files.filter(f => f.startsWith('CSV_') && f.endsWith('.csv'));
-
-      // Find CSV files created recently (within last 2 minutes)
-      const recentFiles = [];
-      for (const csvFile of csvFiles) {
-        const stat = await fs.stat(path.join('/tmp', csvFile));
-        if (Date.now() - stat.mtimeMs < 120000) {
-          recentFiles.push({ name: csvFile, mtime: stat.mtimeMs });
+  try {
+    // Files are saved under their download GUID, so two downloads with the
+    // same suggested name can't overwrite each other
+    await client.send('Browser.setDownloadBehavior', {
+      behavior: 'allowAndName',
+      downloadPath: downloadDir,
+      eventsEnabled: true,
+      browserContextId: page.browserContext().id,
+    });
+
+    // Only the first download started from this page after clicking Export is
+    // ours; other runs' pages download through the same browser
+    const download: { guid?: string; suggestedFilename?: string } = {};
+
+    // States of every download, as a download can progress before it is matched to the page
+    const states = new Map<string, string>();
+
+    client.on('Browser.downloadWillBegin', (event: Protocol.Browser.DownloadWillBeginEvent) => {
+      states.set(event.guid, states.get(event.guid) ?? 'inProgress');
+
+      getFrameIds(pageClient).then(frameIds => {
+        if (!frameIds.has(event.frameId)) {
+          console.log('[Scraper] Ignoring a download from another page:', event.suggestedFilename);
+        } else if (!download.guid) {
+          download.guid = event.guid;
+          download.suggestedFilename = event.suggestedFilename;
+          console.log('[Scraper] Download started:', event.suggestedFilename);
         }
-      }
+      }).catch(error => {
+        console.warn('[Scraper] Could not match a download to the page:', error);
+      });
+    });
 
-      if (recentFiles.length > 0) {
-        // Get the most recent CSV file
-        recentFiles.sort((a, b) => b.mtime - a.mtime);
-        filename = recentFiles[0].name;
-        console.log('[Scraper] Download completed via file system check:', filename);
-        break;
+    client.on('Browser.downloadProgress', (event: Protocol.Browser.DownloadProgressEvent) => {
+      states.set(event.guid, event.state);
+    });
+
+    const downloadState = () => download.guid ? states.get(download.guid) : undefined;
+
+    // Find and click Export button by text content
+    const exportButtonClicked = await clickButtonByLabel(page, context.labels.export, {
+      selector: 'button, a',
+    });
+
+    if (!exportButtonClicked) {
+      throw new ScraperError('SELECTOR_MISSING', context.step, 'Could not find Export button');
+    }
+
+    console.log('[Scraper] Clicked Export button...');
+
+    // Check for modal confirmation
+    await delay(1000);
+
+    const modalButtonClicked = await clickButtonByLabel(page, context.labels.export, {
+      scope: 'div[role="dialog"], div.modal, div.modal-content',
+    });
+
+    if (modalButtonClicked) {
+      console.log('[Scraper] Modal detected, clicked confirmation...');
+    }
+
+    setStep(context, 'download');
+    console.log('[Scraper] Waiting for download to complete...');
+
+    // Wait for our download to complete (up to 60 seconds)
+    const startTime = Date.now();
+
+    while (downloadState() !== 'completed' && Date.now() - startTime < DOWNLOAD_TIMEOUT_MS) {
+      if (downloadState() === 'canceled') {
+        throw new ScraperError('DOWNLOAD_INVALID', context.step, 'The export download was canceled');
       }
+      await delay(500);
+    }
+
+    if (!download.guid || downloadState() !== 'completed') {
+      throw new ScraperError(
+        'DOWNLOAD_TIMEOUT',
+        context.step,
+        download.guid
+          ? `Download of ${download.suggestedFilename} did not complete within ${DOWNLOAD_TIMEOUT_MS / 1000} seconds`
+          : 'No download started after clicking Export'
+      );
+    }
+
+    console.log('[Scraper] Download completed:', download.suggestedFilename);
+
+    const buffer = await readCompletedDownload(downloadDir, download.guid, download.suggestedFilename, context);
+
+    console.log(`[Scraper] CSV downloaded successfully (${buffer.length} bytes)`);
+
+    return buffer;
+  } finally {
+    await client.detach().catch(() => undefined);
+    await pageClient.detach().catch(() => undefined);
+
+    try {
+      await fs.rm(downloadDir, { recursive: true, force: true });
     } catch (error) {
-      // Ignore errors from readdir
+      console.warn('[Scraper] Could not delete download directory:', error);
     }
+  }
+}
 
-    await delay(500);
+/**
+ * Reads a finished download from its directory and checks it is a complete CSV
+ * Rejects missing or empty files and non-CSV responses such as an HTML error page
+ * @param guid - The download's GUID, which is its filename (allowAndName)
+ * @param suggestedFilename - The name the site gave it, for messages only
+ */
+async function readCompletedDownload(
+  downloadDir: string,
+  guid: string,
+  suggestedFilename: string | undefined,
+  context: ScrapeContext
+): Promise<Buffer> {
+  const fs = await import('fs/promises');
+  const path = await import('path');
+
+  // The GUID comes from the browser - never let it point outside the directory
+  const filePath = path.join(downloadDir, path.basename(guid));
+
+  let buffer: Buffer;
+  try {
+    buffer = await fs.readFile(filePath);
+  } catch {
+    const files = await fs.readdir(downloadDir).catch(() => [] as string[]);
+    throw new ScraperError(
+      'DOWNLOAD_INVALID',
+      context.step,
+      `Downloaded file ${suggestedFilename} not found (found: ${files.join(', ') || 'nothing'})`
+    );
+  }
+
+  if (buffer.length === 0) {
+    throw new ScraperError('DOWNLOAD_INVALID', context.step, 'Downloaded file is empty');
   }
 
-  if (!filename) {
-    throw new Error('Download did not complete within 60 seconds');
+  // Tandem exports start with a few title lines before the first header row,
+  // so look for a comma-separated line near the top
+  const head = buffer.subarray(0, 4096).toString('utf-8').replace(/^\uFEFF/, '');
+  const firstLines = head.split(/\r?\n/).slice(0, 20).map(line => line.trim());
+
+  if (firstLines[0]?.startsWith('<') || !firstLines.some(line => line.split(',').length > 1)) {
+    throw new ScraperError('DOWNLOAD_INVALID', context.step, 'Downloaded file does not look like a CSV export');
   }
 
-  console.log('[Scraper] Reading downloaded file...');
-  const filePath = path.join('/tmp', filename);
+  return buffer;
+}
+
+/**
+ * Opens a page with the viewport, user agent and timeouts the scraper expects
+ */
+async function openPage(browser: BrowserHandle, timeout: number): Promise<Page> {
+  const page = await browser.newPage();
+
+  // Set viewport and user agent
+  await page.setViewport({ width: 1280, height: 720 });
+  await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+
+  // Set timeouts
+  page.setDefaultTimeout(timeout);
+  page.setDefaultNavigationTimeout(timeout);
+
+  return page;
+}
 
-  const buffer = await fs.readFile(filePath);
+/**
+ * Logs in, reusing the saved session if possible
+ * @returns true if the saved session was still valid
+ */
+async function logIn(page: Page, options: ScraperOptions, context: ScrapeContext): Promise<boolean> {
+  const sessionRestored = options.session
+    ? await restoreSession(page, options.session, context)
+    : false;
+
+  if (!sessionRestored) {
+    await performLogin(page, options, context);
+  }
+
+  return sessionRestored;
+}
 
-  // Clean up
+/**
+ * Captures the page a step failed on, with the trail of steps leading up to it
+ * Never throws - a failed capture must not hide the original error
+ */
+async function captureFailure(page: Page, context: ScrapeContext): Promise<FailureCapture | undefined> {
   try {
-    await fs.unlink(filePath);
+    const capture = await capturePage(page);
+    console.log(`[Scraper] Captured failing page at ${context.step}: ${capture.url}`);
+
+    return {
+      step: context.step,
+      capturedAt: new Date().toISOString(),
+      trail: [...context.trail],
+      page: capture,
+    };
   } catch (error) {
-    console.warn('[Scraper] Could not delete temp file:', error);
+    console.warn('[Scraper] Could not capture failing page:', error);
+    return undefined;
   }
+}
 
-  console.log(`[Scraper] CSV downloaded successfully (${buffer.length} bytes)`);
+/**
+ * Starts the browser configured in the options (or the environment)
+ */
+async function startBrowser(options: ScraperOptions, context: ScrapeContext): Promise<BrowserHandle> {
+  setStep(context, 'launch');
 
-  return buffer;
+  const browser = await createBrowser(options.browser ?? getBrowserConfigFromEnv());
+  context.browser = browser;
+  return browser;
+}
+
+/**
+ * Closes (or disconnects from) the browser, logging (not throwing) any error
+ */
+async function closeBrowser(browser: BrowserHandle): Promise<void> {
+  try {
+    await browser.release();
+  } catch (closeError) {
+    console.error('[Scraper] Error closing browser:', closeError);
+  }
 }
 
 /**
@@ -610,46 +1158,42 @@ async function downloadReport(
 export async function scrapeTandemSource(
   options: ScraperOptions
 ): Promise<ScraperResult> {
-  let browser: Browser | null = null;
+  let browser: BrowserHandle | null = null;
+  let page: Page | null = null;
+  const context = createScrapeContext(options);
 
   try {
-    const {
-      username,
-      password,
-      reportDays,
-      timeout = 180000, // 3 minutes default
-    } = options;
+    const { username, reportDays, mode = 'csv', timeout = 180000 } = options;
+
+    let requestedRange: DateRange;
+    try {
+      requestedRange = resolveDateRange(options);
+    } catch (error) {
+      throw new ScraperError('CONFIGURATION_ERROR', 'configuration', (error as Error).message);
+    }
 
     console.log('[Scraper] Starting Tandem Source scraper...', {
       username: username.substring(0, 3) + '***',
       reportDays,
-      isServerless,
+      requestedRange,
+      mode,
+      country: options.region?.country,
     });
 
-    // Create browser
-    browser = await createBrowser();
-    const page = await browser.newPage();
-
-    // Set viewport and user agent
-    await page.setViewport({ width: 1280, height: 720 });
-    await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+    browser = await startBrowser(options, context);
+    page = await openPage(browser, timeout);
 
-    // Set timeouts
-    page.setDefaultTimeout(timeout);
-    page.setDefaultNavigationTimeout(timeout);
-
-    // Perform login
-    await performLogin(page, username, password);
+    const sessionRestored = await logIn(page, options, context);
 
     // Download report
-    const csvBuffer = await downloadReport(page, reportDays);
+    const { csvBuffer, jsonData, range } = await downloadReport(page, requestedRange, context, mode);
 
-    // Calculate date range
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - reportDays);
+    const browserSession = await captureSession(page).catch(error => {
+      console.warn('[Scraper] Could not capture session:', error);
+      return undefined;
+    });
 
-    await browser.close();
+    await browser.release();
     browser = null;
 
     console.log('[Scraper] Scraping completed successfully!');
@@ -657,39 +1201,253 @@ export async function scrapeTandemSource(
     return {
       success: true,
       csvBuffer,
+      jsonData,
+      session: browserSession,
+      sessionRestored,
       metadata: {
-        startDate: startDate.toISOString(),
-        endDate: endDate.toISOString(),
+        startDate: range.startDate,
+        endDate: range.endDate,
         downloadedAt: new Date().toISOString(),
       },
     };
   } catch (error) {
     console.error('[Scraper] Error during scraping:', error);
 
+    const failureCapture = options.captureOnFailure && page
+      ? await captureFailure(page, context)
+      : undefined;
+
     // Clean up browser if still open
     if (browser) {
-      try {
-        await browser.close();
-      } catch (closeError) {
-        console.error('[Scraper] Error closing browser:', closeError);
+      await closeBrowser(browser);
+    }
+
+    const scraperError = toScraperError(error, context.step);
+
+    return {
+      success: false,
+      error: scraperError.message,
+      errorCode: scraperError.code,
+      errorDetails: scraperError.toInfo(),
+      failureCapture,
+    };
+  }
+}
+
+/**
+ * Downloads several date windows one after another in a single logged-in session
+ * `onWindow` is called after each successful download; returning false stops
+ * early (e.g. when the caller is running out of time)
+ * @returns Overall success - false if login or any window failed
+ */
+export async function scrapeTandemSourceWindows(
+  options: ScraperOptions,
+  windows: DateRange[],
+  onWindow: (window: DateRange, result: ScraperResult) => Promise<boolean>
+): Promise<{
+  success: boolean;
+  error?: string;
+  errorCode?: ScraperErrorCode;
+  errorDetails?: ScraperErrorInfo;
+  failedWindow?: DateRange;
+  failureCapture?: FailureCapture;
+  session?: BrowserSession;
+}> {
+  let browser: BrowserHandle | null = null;
+  let page: Page | null = null;
+  let currentWindow: DateRange | undefined;
+  const context = createScrapeContext(options);
+
+  try {
+    console.log('[Scraper] Starting multi-window scrape...', {
+      username: options.username.substring(0, 3) + '***',
+      windows: windows.length,
+    });
+
+    browser = await startBrowser(options, context);
+    page = await openPage(browser, options.timeout ?? 180000);
+
+    await logIn(page, options, context);
+
+    for (const window of windows) {
+      currentWindow = window;
+      console.log(`[Scraper] Downloading window ${window.startDate} to ${window.endDate}...`);
+
+      const { csvBuffer, jsonData, range } = await downloadReport(
+        page,
+        window,
+        context,
+        options.mode || 'csv'
+      );
+
+      // The caller stores the window
+      setStep(context, 'storage');
+      const shouldContinue = await onWindow(window, {
+        success: true,
+        csvBuffer,
+        jsonData,
+        metadata: {
+          startDate: range.startDate,
+          endDate: range.endDate,
+          downloadedAt: new Date().toISOString(),
+        },
+      });
+
+      if (!shouldContinue) {
+        console.log('[Scraper] Stopping multi-window scrape early');
+        break;
       }
     }
 
+    currentWindow = undefined;
+
+    const browserSession = await captureSession(page).catch(error => {
+      console.warn('[Scraper] Could not capture session:', error);
+      return undefined;
+    });
+
+    await browser.release();
+    browser = null;
+
+    return { success: true, session: browserSession };
+  } catch (error) {
+    console.error('[Scraper] Error during multi-window scrape:', error);
+
+    // A storage failure in `onWindow` isn't a page problem, so nothing to capture
+    const failureCapture = options.captureOnFailure && page && context.step !== 'storage'
+      ? await captureFailure(page, context)
+      : undefined;
+
+    if (browser) {
+      await closeBrowser(browser);
+    }
+
+    const scraperError = toScraperError(error, context.step);
+
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown scraping error',
+      error: scraperError.message,
+      errorCode: scraperError.code,
+      errorDetails: scraperError.toInfo(),
+      failedWindow: currentWindow,
+      failureCapture,
+    };
+  }
+}
+
+/**
+ * Check mode: walks every step of the login and export flow, verifying the
+ * expected elements are present, and stops before downloading
+ * Always does a full login (a saved session would skip the login pages)
+ * @returns A per-step pass/fail report, plus a capture of the page if a step failed
+ */
+export async function checkTandemSource(options: ScraperOptions): Promise<ScraperCheckResult> {
+  const context = createScrapeContext(options);
+  const startedAt = Date.now();
+  const steps: CanaryStepResult[] = [];
+  let stepStartedAt = startedAt;
+
+  const finishStep = (step: ScraperStep, passed: boolean, error?: string) => {
+    const now = Date.now();
+    steps.push({ step, passed, durationMs: now - stepStartedAt, error });
+    stepStartedAt = now;
+  };
+
+  // Moving on to the next step means the previous one passed
+  context.onStepFinished = step => finishStep(step, true);
+
+  let browser: BrowserHandle | null = null;
+  let page: Page | null = null;
+
+  try {
+    console.log('[Scraper] Starting check run...', {
+      username: options.username.substring(0, 3) + '***',
+      country: options.region?.country,
+    });
+
+    let range: DateRange;
+    try {
+      range = resolveDateRange(options);
+    } catch (error) {
+      throw new ScraperError('CONFIGURATION_ERROR', 'configuration', (error as Error).message);
+    }
+
+    browser = await startBrowser(options, context);
+    page = await openPage(browser, options.timeout ?? 180000);
+
+    await performLogin(page, options, context);
+
+    setStep(context, 'navigate');
+    await page.goto(`${context.region.sourceBaseUrl}/reports/timeline`, {
+      waitUntil: 'networkidle0',
+      timeout: 60000,
+    });
+
+    await selectDateRange(page, range, context);
+
+    setStep(context, 'export');
+    const exportButtonFound = await clickButtonByLabel(page, context.labels.export, {
+      selector: 'button, a',
+      dryRun: true,
+    });
+
+    if (!exportButtonFound) {
+      throw new ScraperError('SELECTOR_MISSING', context.step, 'Could not find Export button');
+    }
+
+    finishStep(context.step, true);
+    console.log('[Scraper] Check run passed');
+
+    return {
+      report: {
+        success: true,
+        checkedAt: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        steps,
+      },
     };
+  } catch (error) {
+    const scraperError = toScraperError(error, context.step);
+    console.error(`[Scraper] Check run failed at ${context.step}:`, scraperError.message);
+
+    finishStep(context.step, false, scraperError.message);
+
+    // Check mode always captures - finding out what changed is the point
+    const failureCapture = page ? await captureFailure(page, context) : undefined;
+
+    return {
+      report: {
+        success: false,
+        checkedAt: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        steps,
+        errorCode: scraperError.code,
+        errorDetails: scraperError.toInfo(),
+      },
+      failureCapture,
+    };
+  } finally {
+    if (browser) {
+      await closeBrowser(browser);
+    }
   }
 }
 
 /**
  * Validates that required environment variables are set
+ * @param account - Only check this account's variables (default: every account's)
  */
-export function validateScraperConfig(): {
+export function validateScraperConfig(account?: TandemAccount | null): {
   valid: boolean;
   missing: string[];
 } {
-  const required = ['TANDEM_USERNAME', 'TANDEM_PASSWORD'];
+  const required = getRequiredAccountEnvVars(account?.id);
+
+  // The remote browser backend can't start without an endpoint
+  if (process.env.BROWSER_BACKEND?.trim().toLowerCase() === 'remote') {
+    required.push('BROWSER_WS_ENDPOINT');
+  }
+
   const missing = required.filter(key => !process.env[key]);
 
   return {
@@ -697,3 +1455,22 @@ export function validateScraperConfig(): {
     missing,
   };
 }
+
+/**
+ * Reads the scraper mode from SCRAPER_MODE (csv, json or both)
+ * Defaults to csv; unknown values are ignored with a warning
+ */
+export function getScraperModeFromEnv(): ScraperMode {
+  const mode = process.env.SCRAPER_MODE?.trim().toLowerCase();
+
+  if (!mode) {
+    return 'csv';
+  }
+
+  if (mode === 'csv' || mode === 'json' || mode === 'both') {
+    return mode;
+  }
+
+  console.warn(`[Scraper] Unknown SCRAPER_MODE "${process.env.SCRAPER_MODE}", using csv`);
+  return 'csv';
+}
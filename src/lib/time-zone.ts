@@ -0,0 +1,82 @@
+/**
+ * Time zone helpers built on Intl, for the accounts' home time zones
+ * Zones are IANA names such as "America/New_York"
+ */
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * A cached formatter that splits an instant into a zone's wall-clock fields
+ */
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether a time zone name is one the runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A zone's wall-clock time at an instant, as YYYY-MM-DDTHH:mm:ss
+ */
+export function toWallTime(instant: Date, timeZone: string): string {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone).formatToParts(instant).map(part => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}`;
+}
+
+/**
+ * A zone's offset from UTC at an instant, in minutes (e.g. -300 for New York in winter)
+ */
+export function getZoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const seconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((Date.parse(`${toWallTime(instant, timeZone)}Z`) - seconds) / MS_PER_MINUTE);
+}
+
+/**
+ * A zone's offset from UTC at a wall-clock time (YYYY-MM-DDTHH:mm:ss)
+ * In a repeated hour (DST fall-back) this is the offset before the change;
+ * in a skipped hour (DST spring-forward) it is the offset before the gap
+ */
+export function getWallTimeOffsetMinutes(wallTime: string, timeZone: string): number {
+  const naive = Date.parse(`${wallTime}Z`);
+  const candidates = [
+    getZoneOffsetMinutes(new Date(naive - MS_PER_DAY), timeZone),
+    getZoneOffsetMinutes(new Date(naive + MS_PER_DAY), timeZone),
+  ];
+
+  // An offset fits if the zone has that offset at the instant it implies
+  const fitting = candidates.find(offset =>
+    getZoneOffsetMinutes(new Date(naive - offset * MS_PER_MINUTE), timeZone) === offset
+  );
+
+  return fitting ?? candidates[0];
+}
@@ -0,0 +1,325 @@
+/**
+ * Canonical timeline - every report's records merged into one deduplicated
+ * document per pump-local day
+ *
+ * Syncs download overlapping windows, so the same records appear in many
+ * reports. The last day of a report is usually still in progress; it is
+ * replaced, not merged, once a later report covers it
+ *
+ * Merges read, change and write back whole days and the change log, so an
+ * account's merges run one at a time under its timeline lock (see account-lock.ts)
+ *
+ * A merge's changes are stored as pending before its days, and removed once
+ * they are in the change log. If a merge stops in between, the next one
+ * appends the changes of the days that were stored, so the feed misses none
+ */
+
+import { TIMELINE_LOCK, withAccountLock } from './account-lock';
+import { addDays, countDays, resolveDateRange, toDateString } from './date-range';
+import {
+  deletePendingTimelineChanges,
+  getChangeLogIndex,
+  getPendingTimelineChanges,
+  getTimelineDay,
+  getTimelineIndex,
+  storePendingTimelineChanges,
+  storeTimelineDays,
+} from './blob-storage';
+import { appendChanges } from './change-feed';
+import type { PendingChange } from './change-feed';
+import { countRecords } from './csv-parser';
+import type {
+  DateRange,
+  ParsedReport,
+  RecordKind,
+  TimelineDay,
+  TimelineDaySummary,
+  TimelineRecordBase,
+  TimelineRecords,
+  TimelineSource,
+} from './types';
+
+export const RECORD_KINDS: RecordKind[] = ['cgm', 'boluses', 'basal', 'controlIq', 'alarms', 'deviceEvents'];
+
+/**
+ * What identifies a record when the export has no record id,
+ * besides its timestamp
+ */
+const IDENTITY: { [K in RecordKind]: (record: TimelineRecords[K][number]) => string } = {
+  cgm: record => record.serialNumber ?? '',
+  boluses: record => String(record.insulin),
+  basal: record => String(record.rate),
+  controlIq: record => record.type,
+  alarms: record => record.type,
+  deviceEvents: record => record.type,
+};
+
+/**
+ * Key that is the same for every copy of a record across reports
+ */
+export function recordKey(kind: RecordKind, record: TimelineRecordBase): string {
+  const identity = record.recordId !== undefined
+    ? `#${record.recordId}`
+    : (IDENTITY[kind] as (record: TimelineRecordBase) => string)(record);
+
+  return `${record.time}|${identity}`;
+}
+
+/**
+ * Empty record lists
+ */
+function emptyRecords(): TimelineRecords {
+  return { cgm: [], boluses: [], basal: [], controlIq: [], alarms: [], deviceEvents: [] };
+}
+
+/**
+ * Combines two lists of records, dropping duplicates (later copies win) and sorting by time
+ */
+function mergeRecords(kind: RecordKind, existing: TimelineRecordBase[], incoming: TimelineRecordBase[]): TimelineRecordBase[] {
+  const merged = new Map<string, TimelineRecordBase>();
+
+  for (const record of [...existing, ...incoming]) {
+    merged.set(recordKey(kind, record), record);
+  }
+
+  return [...merged.values()].sort((a, b) => a.time.localeCompare(b.time));
+}
+
+/**
+ * Whether a report has all of a day's data
+ * True for every day before the report's last day, and for the last day if
+ * the report was downloaded after it ended in every time zone
+ */
+function isDayComplete(date: string, source: TimelineSource, lastDay: string): boolean {
+  return date < lastDay || addDays(date, 1) < source.downloadedAt.slice(0, 10);
+}
+
+/**
+ * Splits a report's records into pump-local days
+ * Days the report covers but has no records for are included, empty
+ */
+function groupByDay(report: ParsedReport, coverage?: { startDate: string; endDate: string }): Map<string, TimelineRecords> {
+  const days = new Map<string, TimelineRecords>();
+
+  if (coverage) {
+    for (let date = coverage.startDate; date <= coverage.endDate; date = addDays(date, 1)) {
+      days.set(date, emptyRecords());
+    }
+  }
+
+  for (const kind of RECORD_KINDS) {
+    for (const record of report[kind]) {
+      const date = record.time.slice(0, 10);
+      if (!days.has(date)) days.set(date, emptyRecords());
+      (days.get(date)![kind] as TimelineRecordBase[]).push(record);
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Merges one day of a report into the stored day
+ * A stored day that was incomplete is replaced when the report covers the
+ * whole day; otherwise the stored day only gains records it didn't have
+ */
+function mergeDay(
+  existing: TimelineDay | null,
+  incoming: { date: string; records: TimelineRecords; covered: boolean; complete: boolean },
+  source: TimelineSource
+): TimelineDay {
+  const { date, records, covered, complete } = incoming;
+  const base = existing && (existing.complete || !covered) ? existing : null;
+
+  const merged = Object.fromEntries(RECORD_KINDS.map(kind =>
+    [kind, mergeRecords(kind, base?.[kind] ?? [], records[kind])]
+  )) as unknown as TimelineRecords;
+
+  return {
+    date,
+    complete: complete || !!base?.complete,
+    updatedAt: new Date().toISOString(),
+    source: source.filename ?? existing?.source,
+    ...merged,
+  };
+}
+
+/**
+ * Changes between the stored and the merged version of a day: upserts for
+ * new or corrected records, tombstones for records that are gone
+ */
+function diffDay(existing: TimelineDay | null, updated: TimelineDay): PendingChange[] {
+  const changes: PendingChange[] = [];
+
+  for (const kind of RECORD_KINDS) {
+    const before = new Map<string, TimelineRecordBase>(
+      (existing?.[kind] ?? []).map(record => [recordKey(kind, record), record])
+    );
+
+    for (const record of updated[kind]) {
+      const key = recordKey(kind, record);
+      const previous = before.get(key);
+      before.delete(key);
+
+      if (!previous || JSON.stringify(previous) !== JSON.stringify(record)) {
+        changes.push({ op: 'upsert', kind, key, date: updated.date, record });
+      }
+    }
+
+    for (const key of before.keys()) {
+      changes.push({ op: 'delete', kind, key, date: updated.date });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Records the merged days in the change log
+ * The first time, the log starts with every record already in the timeline,
+ * so a client reading it from the start gets the whole timeline
+ * Must run under the account's timeline lock
+ */
+async function recordChanges(changes: PendingChange[], accountId?: string): Promise<void> {
+  if (await getChangeLogIndex(accountId)) {
+    await appendChanges(changes, accountId);
+    return;
+  }
+
+  const seed: PendingChange[] = [];
+  for (const { date } of await getTimelineIndex(accountId)) {
+    const day = await getTimelineDay(date, accountId);
+    if (day) seed.push(...diffDay(null, day));
+  }
+
+  await appendChanges(seed, accountId);
+}
+
+/**
+ * Appends the changes a merge left pending to the change log
+ * Only days whose merged version was stored count - the others are still as
+ * before the merge, so their changes didn't happen
+ * Must run under the account's timeline lock
+ */
+async function replayPendingChanges(accountId?: string): Promise<void> {
+  const pending = await getPendingTimelineChanges(accountId);
+  if (!pending) return;
+
+  const changes: PendingChange[] = [];
+  for (const { date, updatedAt, changes: dayChanges } of pending.days) {
+    const day = await getTimelineDay(date, accountId);
+    if (day?.updatedAt === updatedAt) changes.push(...dayChanges);
+  }
+
+  console.warn(`[Timeline] Recording ${changes.length} changes of an unfinished merge from ${pending.createdAt}`);
+  await recordChanges(changes, accountId);
+  await deletePendingTimelineChanges(accountId);
+}
+
+/**
+ * Merges a parsed report into an account's timeline
+ * Waits for other merges into the account's timeline to finish first
+ * @param report - The parsed CSV export
+ * @param source - Which report it came from and when it was downloaded
+ * @param accountId - Account the report belongs to (default: the default account)
+ * @returns The days that were updated, oldest first
+ */
+export async function mergeIntoTimeline(
+  report: ParsedReport,
+  source: TimelineSource,
+  accountId?: string
+): Promise<TimelineDaySummary[]> {
+  const coverage = source.coverage ?? report.reportRange;
+  const days = groupByDay(report, coverage);
+  const dates = [...days.keys()].sort();
+
+  if (dates.length === 0) {
+    return [];
+  }
+
+  const lastDay = coverage?.endDate ?? dates[dates.length - 1];
+
+  const updated = await withAccountLock(accountId, TIMELINE_LOCK, 'timeline merge', async () => {
+    await replayPendingChanges(accountId);
+
+    const merged = await Promise.all(dates.map(async date => {
+      // Records can fall outside the report range, e.g. around a pump clock change
+      const covered = !coverage || (date >= coverage.startDate && date <= coverage.endDate);
+
+      const existing = await getTimelineDay(date, accountId);
+      const day = mergeDay(existing, {
+        date,
+        records: days.get(date)!,
+        covered,
+        complete: covered && isDayComplete(date, source, lastDay),
+      }, source);
+
+      const changes = diffDay(existing, day);
+
+      const summary: TimelineDaySummary = {
+        date,
+        complete: day.complete,
+        updatedAt: day.updatedAt,
+        source: day.source,
+        counts: countRecords(day),
+      };
+
+      return { day, summary, changes };
+    }));
+
+    await storePendingTimelineChanges({
+      createdAt: new Date().toISOString(),
+      days: merged.map(({ day, changes }) => ({ date: day.date, updatedAt: day.updatedAt, changes })),
+    }, accountId);
+
+    await storeTimelineDays(merged, accountId);
+
+    // Under the same lock, so concurrent merges can't hand out the same seq
+    await recordChanges(merged.flatMap(({ changes }) => changes), accountId);
+    await deletePendingTimelineChanges(accountId);
+    return merged;
+  });
+
+  console.log(`[Timeline] Merged ${dates.length} days (${dates[0]} to ${dates[dates.length - 1]})`);
+  return updated.map(({ summary }) => summary);
+}
+
+/**
+ * Reads the stored days of an account's timeline within a range
+ * @returns The days, oldest first - days no report has covered are left out
+ */
+export async function loadTimelineDays(range: DateRange, accountId?: string): Promise<TimelineDay[]> {
+  const dates = (await getTimelineIndex(accountId))
+    .map(day => day.date)
+    .filter(date => date >= range.startDate && date <= range.endDate);
+
+  const days = await Promise.all(dates.map(date => getTimelineDay(date, accountId)));
+  return days.filter((day): day is TimelineDay => !!day);
+}
+
+/**
+ * Resolves a range of timeline days from optional from/to dates (YYYY-MM-DD)
+ * Without `to`, the range ends with the newest stored day
+ * @param defaultDays - Length of the range when `from` isn't given
+ * @param maxDays - Longest range allowed
+ * @throws Error with a message for the client if the range is invalid
+ */
+export async function resolveTimelineRange(
+  params: { from?: string; to?: string },
+  options: { defaultDays: number; maxDays: number },
+  accountId?: string
+): Promise<DateRange> {
+  let endDate = params.to;
+  if (!endDate) {
+    const index = await getTimelineIndex(accountId);
+    endDate = index[index.length - 1]?.date ?? toDateString(new Date());
+  }
+
+  const range = resolveDateRange({ reportDays: options.defaultDays, startDate: params.from, endDate });
+
+  if (countDays(range) > options.maxDays) {
+    throw new Error(`The range can be at most ${options.maxDays} days`);
+  }
+
+  return range;
+}
@@ -11,6 +11,25 @@ export interface ReportMetadata {
   size: number;
   uploadedAt: string; // ISO 8601 timestamp
   downloadedAt: string; // ISO 8601 timestamp of when data was scraped
+  coverage?: DateRange; // Days actually exported, when known
+  source?: ReportSource;
+  schemaVersion?: string; // CSV schema the export matched (see csv-schema.ts)
+  parseError?: ScraperErrorInfo; // Why the export was rejected; it wasn't merged into the timeline
+}
+
+/**
+ * How a report was produced
+ */
+export type ReportSource = 'sync' | 'backfill';
+
+/**
+ * Extra information recorded alongside a stored report
+ */
+export interface ReportTags {
+  coverage?: DateRange;
+  source?: ReportSource;
+  schemaVersion?: string;
+  parseError?: ScraperErrorInfo;
 }
 
 /**
@@ -18,9 +37,14 @@ export interface ReportMetadata {
  */
 export interface ServiceStatus {
   configured: boolean;
+  account: AccountSummary | null; // The account this status is for
   lastSyncTime: string | null;
   lastSyncSuccess: boolean | null;
   lastSyncError: string | null;
+  lastSyncErrorCode: ScraperErrorCode | null;
+  lastSyncErrorDetails: ScraperErrorInfo | null;
+  lastSyncCaptureId: string | null;
+  lastSyncNightscout: NightscoutUploadResult | null;
   reportCount: number;
   nextScheduledSync: string | null;
 }
@@ -30,10 +54,119 @@ export interface ServiceStatus {
  */
 export interface SyncResult {
   success: boolean;
+  accountId?: string; // Account that was synced
+  runId?: string; // Identifies this run, e.g. in failure captures
   filename?: string;
+  dataFilename?: string; // Captured JSON, when the scraper mode includes it
   error?: string;
+  errorCode?: ScraperErrorCode;
+  errorDetails?: ScraperErrorInfo;
+  captureId?: string; // Failure capture of the page the sync failed on
   timestamp: string;
   reportDays: number;
+  startDate?: string; // YYYY-MM-DD, first day covered by the report
+  endDate?: string; // YYYY-MM-DD, last day covered by the report
+  sessionReused?: boolean; // true if login was skipped using a saved session
+  recordCounts?: TimelineRecordCounts; // Records parsed from the CSV export
+  schemaVersion?: string; // CSV schema the export matched
+  nightscout?: NightscoutUploadResult; // Upload after the sync, when Nightscout is configured
+}
+
+/**
+ * Outcome of uploading timeline changes to Nightscout
+ */
+export interface NightscoutUploadResult {
+  success: boolean;
+  entries: number; // CGM readings uploaded
+  treatments: number; // Boluses, carbs and temp basals uploaded
+  deviceStatus: number;
+  retries: number; // Requests that failed and were sent again
+  hasMore: boolean; // More changes are left for the next sync
+  error?: string;
+}
+
+/**
+ * What has been uploaded to an account's Nightscout, stored between syncs
+ */
+export interface NightscoutState {
+  url: string; // Site the cursor belongs to; a new site starts over
+  cursor: string | null; // Change feed position of the last uploaded change
+  updatedAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * A held account lock (see account-lock.ts)
+ */
+export interface AccountLease {
+  owner: string; // Random id of the holder, so only it releases the lock
+  operation: string; // What holds it, e.g. "sync", "backfill", "timeline merge"
+  acquiredAt: string; // ISO 8601 timestamp
+  expiresAt: string; // ISO 8601 timestamp; an expired lock can be taken over
+}
+
+/**
+ * A single window of a historical backfill
+ */
+export interface BackfillWindow {
+  startDate: string; // YYYY-MM-DD requested
+  endDate: string; // YYYY-MM-DD requested
+  status: 'pending' | 'completed' | 'failed';
+  filename?: string;
+  dataFilename?: string; // Captured JSON, when the scraper mode includes it
+  coverage?: DateRange; // Range actually exported
+  error?: string;
+  completedAt?: string; // ISO 8601 timestamp
+}
+
+/**
+ * Progress of a historical backfill, persisted so it can be resumed
+ */
+export interface BackfillState {
+  startDate: string; // YYYY-MM-DD, first day of the whole backfill
+  endDate: string; // YYYY-MM-DD, last day of the whole backfill
+  windowDays: number;
+  windows: BackfillWindow[];
+  startedAt: string; // ISO 8601 timestamp
+  updatedAt: string; // ISO 8601 timestamp
+  completed: boolean;
+  lastError?: string;
+  lastCaptureId?: string; // Failure capture from the last failed run
+}
+
+/**
+ * A Tandem Source account synced by this service
+ */
+export interface TandemAccount {
+  id: string; // Lowercase, used in storage paths and the ?account= parameter
+  name: string; // Shown on the dashboard
+  username: string;
+  password: string;
+  reportDays: number;
+  syncIntervalHours: number; // How often scheduled syncs run for this account
+  timeZone: string; // Home time zone of the pump (IANA name, default UTC)
+  region: TandemRegion; // Tandem Source region, UI language and endpoints
+  nightscout?: NightscoutConfig; // Upload synced data to Nightscout
+  totpSecret?: string;
+  mfaMaildir?: string;
+}
+
+/**
+ * A Nightscout site to upload to
+ */
+export interface NightscoutConfig {
+  url: string; // Base URL, e.g. https://my-site.herokuapp.com
+  apiSecret: string; // API_SECRET of the site (sent hashed)
+}
+
+/**
+ * Account details safe to return from the API (no credentials)
+ */
+export interface AccountSummary {
+  id: string;
+  name: string;
+  reportDays: number;
+  syncIntervalHours: number;
+  timeZone: string;
 }
 
 /**
@@ -47,6 +180,153 @@ export interface EnvConfig {
   blobToken: string | undefined;
 }
 
+/**
+ * Inclusive range of calendar days (YYYY-MM-DD)
+ */
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * A browser cookie as saved with a Tandem Source session
+ */
+export interface SessionCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number; // Unix seconds, -1 for session cookies
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * Browser state from a successful login, reused to skip logging in again
+ */
+export interface BrowserSession {
+  cookies: SessionCookie[];
+  localStorage: Record<string, Record<string, string>>; // origin -> key/value pairs
+  savedAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * Localized UI labels used to find buttons and recognize pages
+ * Matching is case-insensitive and by substring unless noted
+ */
+export interface UiLabels {
+  cookieAccept: string[];
+  countrySelectorHeading: string[];
+  loginHeading: string[];
+  next: string[];
+  continue: string[];
+  signIn: string[];
+  verify: string[];
+  customRange: string[];
+  apply: string[]; // Matched exactly
+  export: string[];
+  mfaAuthenticator: string[];
+  mfaEmail: string[];
+  invalidCredentials: string[]; // Error messages shown for a wrong username/password
+}
+
+/**
+ * Tandem Source region, UI language and endpoints for an account
+ */
+export interface TandemRegion {
+  country: string; // Country option label, e.g. "United States"
+  language: string; // Language option label, e.g. "English"
+  locale: string; // Label set to match the UI with, e.g. "en", "de"
+  sourceBaseUrl: string; // e.g. https://source.tandemdiabetes.com
+  ssoBaseUrl: string; // e.g. https://sso.tandemdiabetes.com
+  labels?: Partial<UiLabels>; // Extra labels, tried before the built-in ones
+}
+
+/**
+ * Second-factor method requested by the Tandem SSO
+ */
+export type MfaMethod = 'totp' | 'email' | 'unknown';
+
+/**
+ * A second-factor prompt seen during login
+ */
+export interface MfaChallenge {
+  method: MfaMethod;
+  requestedAt: Date;
+}
+
+/**
+ * Supplies codes for MFA challenges
+ * Returns null if it can't answer this kind of challenge
+ */
+export interface MfaCodeProvider {
+  getCode(challenge: MfaChallenge): Promise<string | null>;
+}
+
+/**
+ * Machine-readable failure reasons
+ */
+export type ScraperErrorCode =
+  | 'INVALID_CREDENTIALS'
+  | 'MFA_REQUIRED'
+  | 'SSO_REDIRECT_FAILED'
+  | 'SELECTOR_MISSING'
+  | 'NAVIGATION_TIMEOUT'
+  | 'DOWNLOAD_TIMEOUT'
+  | 'DOWNLOAD_INVALID'
+  | 'FORMAT_CHANGED'
+  | 'BROWSER_LAUNCH_FAILED'
+  | 'STORAGE_FAILURE'
+  | 'CONFIGURATION_ERROR'
+  | 'UNKNOWN';
+
+/**
+ * Step of the sync in which a failure happened
+ */
+export type ScraperStep =
+  | 'configuration'
+  | 'launch'
+  | 'session-restore'
+  | 'navigate'
+  | 'cookie-consent'
+  | 'country-selection'
+  | 'sso-redirect'
+  | 'credentials'
+  | 'mfa'
+  | 'login-redirect'
+  | 'date-range'
+  | 'export'
+  | 'download'
+  | 'parse'
+  | 'storage';
+
+/**
+ * Structured description of a failure
+ */
+export interface ScraperErrorInfo {
+  code: ScraperErrorCode;
+  step: ScraperStep;
+  message: string;
+  retryable: boolean; // Whether retrying later could succeed
+  action: string; // What the user should do
+  formatDiff?: CsvSchemaDiff; // For FORMAT_CHANGED, how the export differs from the expected schema
+}
+
+/**
+ * How an export's sections and columns differ from a known CSV schema
+ */
+export interface CsvSchemaDiff {
+  expectedVersion: string; // The schema compared against (the newest)
+  addedSections: string[]; // Section titles the schema doesn't have
+  missingSections: string[]; // Schema sections the export doesn't have
+  changedSections: {
+    title: string;
+    addedColumns: string[]; // As exported
+    missingColumns: string[]; // As in the schema
+  }[];
+}
+
 /**
  * Scraper options
  */
@@ -54,8 +334,63 @@ export interface ScraperOptions {
   username: string;
   password: string;
   reportDays: number;
+  startDate?: string; // YYYY-MM-DD, overrides reportDays when set
+  endDate?: string; // YYYY-MM-DD, defaults to today
+  timeZone?: string; // Zone "today" is in (default: UTC)
   headless?: boolean;
   timeout?: number;
+  session?: BrowserSession; // Saved session to try before a full login
+  mfaCodeProvider?: MfaCodeProvider; // Answers SSO second-factor prompts
+  region?: TandemRegion; // Defaults to United States / English
+  mode?: ScraperMode; // What to collect from the timeline (default: 'csv')
+  captureOnFailure?: boolean; // Capture the page when a step fails
+  browser?: BrowserConfig; // Defaults to the BROWSER_* environment variables
+}
+
+/**
+ * Where the scraper's browser comes from
+ * serverless - @sparticuz/chromium-min, downloaded on cold start
+ * local - the Chromium bundled with puppeteer
+ * remote - an already-running Chromium, connected over its DevTools endpoint
+ */
+export type BrowserBackend = 'serverless' | 'local' | 'remote';
+
+/**
+ * Browser backend configuration
+ */
+export interface BrowserConfig {
+  backend: BrowserBackend;
+  endpoint?: string; // remote only: ws:// DevTools WebSocket URL, or http:// DevTools URL
+  downloadDir?: string; // Parent directory for downloads (default: OS temp dir)
+}
+
+/**
+ * What the scraper collects from the timeline
+ * csv - the "Export CSV" download
+ * json - the JSON responses the Source app loads to render the timeline
+ * both - both, keeping the JSON if the export fails
+ */
+export type ScraperMode = 'csv' | 'json' | 'both';
+
+/**
+ * A JSON response recorded from the Source web app
+ */
+export interface CapturedResponse {
+  url: string;
+  method: string;
+  status: number;
+  capturedAt: string;
+  body: unknown;
+}
+
+/**
+ * The JSON responses recorded while the timeline showed a date range
+ */
+export interface CapturedData {
+  startDate: string; // YYYY-MM-DD, as selected in the date picker
+  endDate: string; // YYYY-MM-DD, as selected in the date picker
+  capturedAt: string;
+  responses: CapturedResponse[];
 }
 
 /**
@@ -63,15 +398,474 @@ export interface ScraperOptions {
  */
 export interface ScraperResult {
   success: boolean;
-  csvBuffer?: Buffer;
+  csvBuffer?: Buffer; // Not set in 'json' mode, or if the export failed in 'both' mode
+  jsonData?: CapturedData; // Set in 'json' and 'both' modes
   error?: string;
+  errorCode?: ScraperErrorCode;
+  errorDetails?: ScraperErrorInfo;
+  session?: BrowserSession; // Current browser state, for the next run
+  sessionRestored?: boolean; // true if the saved session was still valid
+  failureCapture?: FailureCapture; // With captureOnFailure, the page the failing step was on
   metadata?: {
-    startDate: string;
-    endDate: string;
+    startDate: string; // YYYY-MM-DD, as selected in the date picker
+    endDate: string; // YYYY-MM-DD, as selected in the date picker
     downloadedAt: string;
   };
 }
 
+/**
+ * Screenshot and HTML of a page, taken when a step fails
+ */
+export interface PageCapture {
+  url: string;
+  title: string;
+  html: string;
+  screenshot: Buffer; // PNG
+}
+
+/**
+ * One step of a check (canary) run
+ */
+export interface CanaryStepResult {
+  step: ScraperStep;
+  passed: boolean;
+  durationMs: number;
+  error?: string;
+  captureId?: string; // Failing steps only, see FailureCaptureRecord
+}
+
+/**
+ * Result of a check (canary) run - walks the login and export flow
+ * without downloading, to catch Tandem Source page changes early
+ */
+export interface CanaryReport {
+  success: boolean;
+  checkedAt: string; // ISO 8601 timestamp
+  durationMs: number;
+  steps: CanaryStepResult[];
+  errorCode?: ScraperErrorCode;
+  errorDetails?: ScraperErrorInfo;
+}
+
+/**
+ * Check mode result from the scraper, before the capture is stored
+ */
+export interface ScraperCheckResult {
+  report: CanaryReport;
+  failureCapture?: FailureCapture; // The page the failing step was on
+}
+
+/**
+ * A step of a scraper run and when it started
+ */
+export interface StepTrailEntry {
+  step: ScraperStep;
+  startedAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * The page a scraper step failed on, before it is stored
+ */
+export interface FailureCapture {
+  step: ScraperStep;
+  capturedAt: string; // ISO 8601 timestamp
+  trail: StepTrailEntry[]; // Steps leading up to the failure, in order
+  page: PageCapture;
+}
+
+/**
+ * What kind of run a failure capture came from
+ */
+export type CaptureSource = 'sync' | 'backfill' | 'canary';
+
+/**
+ * A stored failure capture, linked to the run that failed
+ * The screenshot and HTML are stored as separate files
+ */
+export interface FailureCaptureRecord {
+  id: string;
+  runId: string; // SyncResult.runId, or the backfill/canary run
+  source: CaptureSource;
+  accountId?: string; // Account the run was for
+  createdAt: string; // ISO 8601 timestamp
+  expiresAt: string; // ISO 8601 timestamp, deleted after this
+  step: ScraperStep;
+  errorCode?: ScraperErrorCode;
+  message: string;
+  url: string;
+  title: string;
+  trail: StepTrailEntry[];
+  screenshotPath: string; // Storage pathname
+  htmlPath: string; // Storage pathname
+}
+
+/**
+ * Fields shared by every record parsed from an export
+ */
+export interface TimelineRecordBase {
+  time: string; // YYYY-MM-DDTHH:mm:ss, pump-local wall-clock time
+  utc?: string; // ISO 8601 UTC time, worked out from the pump clock (see pump-time.ts)
+  timeFlag?: TimeFlag; // Set when the UTC time needed a judgement call
+  serialNumber?: string; // Pump or CGM serial number
+  recordId?: number; // Tandem's id for the event, when the export includes it
+}
+
+/**
+ * Why a record's UTC time is less certain than its pump time
+ * repeated - the pump clock was set back (e.g. DST fall-back), so this pump
+ *            time occurs twice; record ids told the two apart
+ * ambiguous - the pump time falls in a clock change and there were no record
+ *             ids to place it; it is assumed to be after the change
+ */
+export type TimeFlag = 'repeated' | 'ambiguous';
+
+/**
+ * A CGM glucose reading
+ */
+export interface CgmReading extends TimelineRecordBase {
+  value: number; // mg/dL (mmol/L exports are converted)
+  deviceType?: string; // e.g. "Dexcom G6"
+}
+
+/**
+ * A bolus delivered by the pump, with the inputs it was calculated from
+ */
+export interface BolusDelivery extends TimelineRecordBase {
+  insulin: number; // Units delivered
+  carbs?: number; // Grams entered in the bolus calculator
+  bg?: number; // mg/dL entered or taken from the CGM
+  description?: string;
+  automatic: boolean; // true for Control-IQ automatic correction boluses
+}
+
+/**
+ * A change in the basal rate
+ */
+export interface BasalRateChange extends TimelineRecordBase {
+  rate: number; // U/hr
+  durationMinutes?: number; // How long the rate ran, when the export says
+}
+
+/**
+ * Control-IQ activity mode
+ */
+export type ActivityMode = 'sleep' | 'exercise' | 'none';
+
+/**
+ * A Control-IQ event, e.g. an activity mode starting or ending
+ */
+export interface ControlIqEvent extends TimelineRecordBase {
+  type: string; // Event name as exported, e.g. "Sleep Started"
+  activityMode?: ActivityMode;
+  durationMinutes?: number;
+}
+
+/**
+ * A pump or CGM alarm or alert
+ */
+export interface AlarmEvent extends TimelineRecordBase {
+  type: string; // Alarm name as exported, e.g. "Low Insulin"
+  description?: string;
+}
+
+/**
+ * A pump device event, e.g. a cartridge change or a pump clock change
+ */
+export interface DeviceEvent extends TimelineRecordBase {
+  type: string; // Event name as exported, e.g. "Cartridge Filled"
+  description?: string;
+  previousTime?: string; // Time changes only: pump clock before the change
+  newTime?: string; // Time changes only: pump clock after the change
+}
+
+/**
+ * Records of each kind, in a parsed report or a timeline day
+ */
+export interface TimelineRecords {
+  cgm: CgmReading[];
+  boluses: BolusDelivery[];
+  basal: BasalRateChange[];
+  controlIq: ControlIqEvent[];
+  alarms: AlarmEvent[];
+  deviceEvents: DeviceEvent[];
+}
+
+/**
+ * A kind of timeline record, e.g. 'cgm' or 'boluses'
+ */
+export type RecordKind = keyof TimelineRecords;
+
+/**
+ * A timeline record tagged with its kind, for lists mixing several kinds
+ */
+export type TimelineEntry =
+  | ({ kind: 'cgm'; samples?: number } & CgmReading) // samples: readings averaged when downsampled
+  | ({ kind: 'boluses' } & BolusDelivery)
+  | ({ kind: 'basal' } & BasalRateChange)
+  | ({ kind: 'controlIq' } & ControlIqEvent)
+  | ({ kind: 'alarms' } & AlarmEvent)
+  | ({ kind: 'deviceEvents' } & DeviceEvent);
+
+/**
+ * Typed contents of a Tandem Source Daily Timeline CSV export
+ */
+export interface ParsedReport extends TimelineRecords {
+  reportRange?: DateRange; // From the "Report Range" title line
+  pumpSerialNumber?: string;
+  unknownSections: string[]; // Titles of sections the parser doesn't know, skipped
+}
+
+/**
+ * Number of records of each kind in a parsed report
+ */
+export interface TimelineRecordCounts {
+  cgm: number;
+  boluses: number;
+  basal: number;
+  controlIq: number;
+  alarms: number;
+  deviceEvents: number;
+}
+
+/**
+ * One pump-local day of the canonical timeline, merged from every report
+ * that covered it and deduplicated
+ */
+export interface TimelineDay extends TimelineRecords {
+  date: string; // YYYY-MM-DD, pump-local
+  complete: boolean; // false until a report downloaded after the day ended covers it
+  updatedAt: string; // ISO 8601 timestamp
+  source?: string; // Report last merged into this day
+}
+
+/**
+ * Index entry for a stored timeline day
+ */
+export interface TimelineDaySummary {
+  date: string; // YYYY-MM-DD, pump-local
+  complete: boolean;
+  updatedAt: string; // ISO 8601 timestamp
+  source?: string;
+  counts: TimelineRecordCounts;
+}
+
+/**
+ * Report a timeline merge came from
+ */
+export interface TimelineSource {
+  filename?: string; // Stored report filename
+  coverage?: DateRange; // Days the report covers, if known
+  downloadedAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * A query over the timeline (see GET /api/readings)
+ */
+export interface ReadingsQuery {
+  from?: string; // ISO 8601 UTC, inclusive (default: 24 hours before `to`)
+  to?: string; // ISO 8601 UTC, exclusive (default: 24 hours after `from`, or the end of the newest stored day)
+  kinds: RecordKind[];
+  limit: number; // Entries per page
+  cursor?: string; // nextCursor from the previous page
+  downsampleMinutes?: number; // Average CGM readings into buckets of this many minutes
+}
+
+/**
+ * One page of timeline entries
+ */
+export interface ReadingsPage {
+  from: string;
+  to: string;
+  kinds: RecordKind[];
+  downsampleMinutes?: number;
+  entries: TimelineEntry[]; // Sorted by UTC time, each with `utc` set
+  nextCursor: string | null; // Pass as ?cursor= for the next page, null on the last page
+}
+
+/**
+ * A change to the timeline: a record added or corrected, or a tombstone for
+ * one that was removed when an incomplete day was replaced
+ */
+export interface TimelineChange {
+  seq: number; // Position in the account's change log, increasing
+  op: 'upsert' | 'delete';
+  kind: RecordKind;
+  key: string; // Identifies the record across versions (see recordKey)
+  date: string; // YYYY-MM-DD timeline day the record belongs to
+  record?: TimelineRecords[RecordKind][number]; // Upserts only
+  changedAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * Changes of a timeline merge that may not be in the change log yet
+ * Stored before the merged days and removed once the changes are appended
+ */
+export interface PendingTimelineChanges {
+  createdAt: string; // ISO 8601 timestamp
+  days: {
+    date: string;
+    updatedAt: string; // The merged day's updatedAt - tells whether it was stored
+    changes: Omit<TimelineChange, 'seq' | 'changedAt'>[];
+  }[];
+}
+
+/**
+ * A stored part of the change log
+ */
+export interface ChangeLogSegment {
+  id: number;
+  firstSeq: number;
+  lastSeq: number;
+}
+
+/**
+ * Index of an account's change log
+ */
+export interface ChangeLogIndex {
+  epoch: string; // Random id of this log - cursors from another log are rejected
+  lastSeq: number;
+  createdAt: string; // ISO 8601 timestamp
+  segments: ChangeLogSegment[]; // Oldest first
+}
+
+/**
+ * One page of the change feed (see GET /api/changes)
+ */
+export interface ChangesPage {
+  changes: TimelineChange[]; // Oldest first
+  cursor: string | null; // Pass as ?since= next time; null until the first change is recorded
+  hasMore: boolean; // More changes are waiting - request again right away
+  reset: boolean; // The cursor was from another log: drop local data and apply these changes from scratch
+}
+
+/**
+ * Glucose thresholds for time-in-range, in mg/dL
+ */
+export interface GlucoseThresholds {
+  veryLow: number; // Below this is very low (default 54)
+  low: number; // Below this is low (default 70)
+  high: number; // Above this is high (default 180)
+  veryHigh: number; // Above this is very high (default 250)
+}
+
+/**
+ * Percentage of CGM readings in each glucose band
+ * veryLow is included in below, and veryHigh in above
+ */
+export interface TimeInRanges {
+  veryLow: number;
+  below: number;
+  inRange: number;
+  above: number;
+  veryHigh: number;
+}
+
+/**
+ * Glucose percentiles for one hour of the day, for an ambulatory glucose profile
+ */
+export interface AgpHour {
+  hour: number; // 0-23, pump-local
+  readings: number;
+  p5: number | null; // mg/dL, null when the hour has no readings
+  p25: number | null;
+  p50: number | null;
+  p75: number | null;
+  p95: number | null;
+}
+
+/**
+ * Glycemic statistics for a range of days
+ * Values are null when the range has no readings
+ */
+export interface GlucoseStats {
+  range: DateRange;
+  thresholds: GlucoseThresholds;
+  readings: number;
+  sensorWearPercent: number; // Readings received out of one per 5 minutes
+  meanGlucose: number | null; // mg/dL
+  standardDeviation: number | null; // mg/dL
+  gmi: number | null; // Glucose management indicator, %
+  coefficientOfVariation: number | null; // %
+  timeInRange: TimeInRanges | null;
+  agp: AgpHour[]; // One entry per hour of the day
+}
+
+/**
+ * Insulin delivery, carbs and Control-IQ activity for one pump-local day
+ */
+export interface DailyInsulinSummary {
+  date: string; // YYYY-MM-DD
+  complete: boolean; // false for a day still in progress (see TimelineDay)
+  totalInsulin: number; // Total daily dose (TDD), units
+  basalInsulin: number; // Units, from basal rates and how long each ran
+  bolusInsulin: number; // Units
+  basalPercent: number | null; // Share of TDD, null when nothing was delivered
+  bolusPercent: number | null;
+  carbs: number; // Grams entered with boluses
+  userBoluses: number;
+  automaticBoluses: number; // Control-IQ automatic corrections
+  automaticBolusInsulin: number; // Units
+  sleepMinutes: number; // Time in Sleep activity mode
+  exerciseMinutes: number; // Time in Exercise activity mode
+}
+
+/**
+ * Insulin summaries for a range of days
+ */
+export interface InsulinSummary {
+  range: DateRange;
+  days: DailyInsulinSummary[]; // Stored days only, oldest first
+  average: { // Per complete day, null if there are none
+    totalInsulin: number;
+    basalInsulin: number;
+    bolusInsulin: number;
+    carbs: number;
+  } | null;
+}
+
+/**
+ * A generated export format for timeline data
+ * ndjson - one JSON record per line
+ * csv - one deduplicated CSV with a kind column
+ * sqlite - a SQLite database with a table per kind of data
+ */
+export type ExportFormat = 'ndjson' | 'csv' | 'sqlite';
+
+/**
+ * A generated export, ready to download
+ */
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+  records: number;
+}
+
+/**
+ * A FHIR R4 resource, with the fields every resource has
+ */
+export interface FhirResource {
+  resourceType: string;
+  id: string;
+  [field: string]: unknown;
+}
+
+/**
+ * A FHIR R4 transaction Bundle
+ * Each entry is a PUT of its resource under a stable id, so importing an
+ * export again updates the earlier copies instead of adding new ones
+ */
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'transaction';
+  timestamp: string; // ISO 8601, when the export was made
+  entry: {
+    fullUrl: string; // urn:uuid:<resource id>
+    resource: FhirResource;
+    request: { method: 'PUT'; url: string }; // e.g. Observation/<id>
+  }[];
+}
+
 /**
  * API Response types
  */
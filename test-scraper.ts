@@ -7,7 +7,9 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { scrapeTandemSource } from './src/lib/tandem-scraper';
+import { getScraperModeFromEnv, scrapeTandemSource } from './src/lib/tandem-scraper';
+import { createMfaCodeProviderFromEnv } from './src/lib/mfa';
+import { getRegionFromEnv } from './src/lib/region';
 
 async function main() {
   console.log('=== Tandem Source Scraper Test ===\n');
@@ -44,24 +46,40 @@ async function main() {
       username,
       password,
       reportDays,
+      startDate: process.env.START_DATE, // Optional YYYY-MM-DD custom range
+      endDate: process.env.END_DATE,
       timeout: 180000, // 3 minutes
+      mfaCodeProvider: createMfaCodeProviderFromEnv(),
+      region: getRegionFromEnv(),
+      mode: getScraperModeFromEnv(), // SCRAPER_MODE=csv|json|both
     });
 
-    if (result.success && result.csvBuffer) {
-      // Save to local file
+    if (result.success && (result.csvBuffer || result.jsonData)) {
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const filename = `tandem-report-${timestamp}.csv`;
-      const outputPath = path.join(__dirname, 'downloads', filename);
 
       // Ensure downloads directory exists
       await fs.mkdir(path.join(__dirname, 'downloads'), { recursive: true });
 
-      // Write CSV file
-      await fs.writeFile(outputPath, result.csvBuffer);
-
       console.log('\n✅ SUCCESS!');
-      console.log(`   CSV saved to: ${outputPath}`);
-      console.log(`   Size: ${result.csvBuffer.length} bytes`);
+
+      if (result.csvBuffer) {
+        // Write CSV file
+        const outputPath = path.join(__dirname, 'downloads', `tandem-report-${timestamp}.csv`);
+        await fs.writeFile(outputPath, result.csvBuffer);
+
+        console.log(`   CSV saved to: ${outputPath}`);
+        console.log(`   Size: ${result.csvBuffer.length} bytes`);
+      }
+
+      if (result.jsonData) {
+        // Write captured JSON responses
+        const outputPath = path.join(__dirname, 'downloads', `tandem-data-${timestamp}.json`);
+        await fs.writeFile(outputPath, JSON.stringify(result.jsonData, null, 2));
+
+        console.log(`   JSON saved to: ${outputPath}`);
+        console.log(`   Responses: ${result.jsonData.responses.length}`);
+      }
+
       console.log(`   Date range: ${result.metadata?.startDate} to ${result.metadata?.endDate}`);
     } else {
       console.error('\n❌ FAILED!');